@@ -1,25 +1,34 @@
-/* v2 Vybin SW: precache + runtime images + background sync + push */
-const CACHE_NAME = 'vybin-v2';
-const PRECACHE = [
-  '/', '/index.html', '/manifest.json',
-  // Add your built asset paths (Vite will fingerprint; consider Workbox for auto)
-];
+/* Vybin SW: precache + runtime images + background sync + push */
+// Production builds prepend __VYBIN_BUILD__ with every emitted file and a content
+// hash (see vite-plugin-service-worker.ts). The app only registers it in production
+// builds; the fallback covers the unprocessed file served by the dev server
+const BUILD = self.__VYBIN_BUILD__ || { version: 'dev', precache: ['/', '/index.html', '/manifest.json'] };
+const CACHE_NAME = `vybin-${BUILD.version}`;
+// Images outlive builds, so they get their own cache
+const RUNTIME_CACHE = 'vybin-runtime';
+const PRECACHE = BUILD.precache;
 
+// A new build waits until the app accepts the "update available" prompt (SKIP_WAITING)
 self.addEventListener('install', (event) => {
   event.waitUntil(caches.open(CACHE_NAME).then((c) => c.addAll(PRECACHE)));
-  self.skipWaiting();
 });
 
 self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((keys) =>
-      Promise.all(keys.filter((k) => k !== CACHE_NAME).map((k) => caches.delete(k)))
+      Promise.all(
+        keys.filter((k) => k !== CACHE_NAME && k !== RUNTIME_CACHE).map((k) => caches.delete(k))
+      )
     )
   );
   self.clients.claim();
 });
 
-// Runtime: cache-first for images, network-first everything else
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Runtime: cache-first for images and precached build files, network-first everything else
 self.addEventListener('fetch', (event) => {
   const req = event.request;
   const url = new URL(req.url);
@@ -34,7 +43,7 @@ self.addEventListener('fetch', (event) => {
         hit ||
         fetch(req).then((res) => {
           const clone = res.clone();
-          caches.open(CACHE_NAME).then((c) => c.put(req, clone));
+          caches.open(RUNTIME_CACHE).then((c) => c.put(req, clone));
           return res;
         })
       )
@@ -42,7 +51,23 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
-  // Pages/API: network-first with fallback
+  // API calls (Supabase REST, functions) carry per-user auth; the app keeps its
+  // own IndexedDB copy of that data (src/lib/localCache.ts), so never cache them here
+  if (url.origin !== self.location.origin) return;
+
+  // Fingerprinted build files never change under the same name
+  if (PRECACHE.includes(url.pathname) && url.pathname !== '/' && url.pathname !== '/index.html') {
+    event.respondWith(caches.match(req).then((hit) => hit || fetch(req)));
+    return;
+  }
+
+  // Navigations offline fall back to the precached app shell
+  if (req.mode === 'navigate') {
+    event.respondWith(fetch(req).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  // Other same-origin requests: network-first with fallback
   event.respondWith(
     fetch(req).then((res) => {
       const clone = res.clone();
@@ -59,9 +84,123 @@ self.addEventListener('sync', async (event) => {
   }
 });
 
+// The queue is written by src/lib/offlineQueue.ts; stores and records must match
+const QUEUE_DB = 'vybin-queue';
+const QUEUE_LOCK = 'vybin-queue';
+
+function openQueueDb() {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(QUEUE_DB, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore('actions', { keyPath: 'id', autoIncrement: true });
+      req.result.createObjectStore('meta');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function queueStore(db, store, mode, fn) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// The worker can't refresh the session itself: Supabase rotates refresh tokens
+// and revokes the session when a used one is presented again, so the tab and
+// the worker can't share one. An expired access token is handed back to the
+// open tabs instead, and the sync fails so the browser tries again later.
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+async function loadSession(db) {
+  const session = await queueStore(db, 'meta', 'readonly', (s) => s.get('session'));
+  if (!session) return null;
+  const expired = session.expires_at && session.expires_at * 1000 < Date.now() + EXPIRY_MARGIN_MS;
+  return { ...session, expired: !!expired };
+}
+
+async function notifyClients(message) {
+  const clientList = await clients.matchAll({ type: 'window' });
+  clientList.forEach((c) => c.postMessage(message));
+}
+
+// Same rules as send() in src/lib/eventActions.ts: duplicates count as done,
+// a removed event or closed deadline is dropped and reported, anything else
+// (expired session, server error) is retried
+const REJECTIONS = { '23503': 'the event was removed', '23514': 'applications have closed' };
+
+async function sendQueuedAction(session, action) {
+  const table = action.kind === 'save' || action.kind === 'unsave' ? 'saved_events' : 'applications';
+  const headers = {
+    apikey: session.anon_key,
+    Authorization: `Bearer ${session.access_token}`,
+    'Content-Type': 'application/json',
+    Prefer: 'return=minimal',
+  };
+  const res =
+    action.kind === 'save' || action.kind === 'apply'
+      ? await fetch(`${session.url}/rest/v1/${table}`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ user_id: action.user_id, event_id: action.event_id }),
+        })
+      : await fetch(
+          `${session.url}/rest/v1/${table}?user_id=eq.${action.user_id}&event_id=eq.${action.event_id}`,
+          { method: 'DELETE', headers }
+        );
+  if (res.ok) return { done: true };
+
+  const body = await res.json().catch(() => ({}));
+  if (body.code === '23505') return { done: true };
+  if (REJECTIONS[body.code]) return { rejected: REJECTIONS[body.code] };
+  return { retry: true };
+}
+
 async function handleSyncQueue() {
-  // Implement a small IndexedDB queue (idb-keyval) from the client;
-  // read queued requests here and POST to Supabase Edge Function, then clear.
+  const replay = async () => {
+    const db = await openQueueDb();
+    const session = await loadSession(db);
+    if (!session) return;
+
+    const actions = (await queueStore(db, 'actions', 'readonly', (s) => s.getAll()))
+      .filter((a) => a.user_id === session.user_id)
+      .sort((a, b) => a.id - b.id);
+    if (!actions.length) return;
+
+    const rejected = [];
+    let changed = false;
+    try {
+      // Throwing fails the sync event, which makes the browser schedule a retry
+      if (session.expired) throw new Error('Session expired');
+      for (const action of actions) {
+        // A network failure throws too
+        const outcome = await sendQueuedAction(session, action);
+        if (outcome.retry) throw new Error(`Couldn't replay ${action.kind}`);
+        if (outcome.rejected) {
+          rejected.push({
+            kind: action.kind,
+            event_id: action.event_id,
+            event_title: action.event_title,
+            reason: outcome.rejected,
+          });
+        }
+        await queueStore(db, 'actions', 'readwrite', (s) => s.delete(action.id));
+        changed = true;
+      }
+    } catch (err) {
+      // Open tabs have a live session and replay what is left themselves
+      await notifyClients({ type: 'QUEUE_SYNC_NEEDED' });
+      throw err;
+    } finally {
+      if (changed) await notifyClients({ type: 'QUEUE_REPLAYED', rejected });
+    }
+  };
+
+  // Tabs replay under the same lock, so an action is never sent twice at once
+  return self.navigator.locks ? self.navigator.locks.request(QUEUE_LOCK, replay) : replay();
 }
 
 // Push notifications (Web Push)
@@ -69,8 +208,8 @@ self.addEventListener('push', (event) => {
   const data = event.data?.json?.() ?? {};
   const title = data.title || 'New event';
   const body = data.body || 'Check it out!';
-  const icon = '/icons/icon-192.png';
-  const badge = '/icons/badge-72.png';
+  const icon = '/icon-192x192.png';
+  const badge = '/icon-192x192.png';
   const actions = [
     data.actions?.apply && {action: 'apply', title: 'Apply'},
     data.actions?.save && {action: 'save', title: 'Save'},
@@ -82,22 +221,75 @@ self.addEventListener('push', (event) => {
   );
 });
 
+// Browsers can rotate a subscription at any time; save the new one with the
+// session the offline queue keeps (see loadSession). When that session has
+// expired, open tabs save it instead; with none open, the app saves it on its
+// next start and send-push deletes the old row once the push service drops it.
+self.addEventListener('pushsubscriptionchange', (event) => {
+  event.waitUntil(
+    (async () => {
+      const sub =
+        event.newSubscription ||
+        (event.oldSubscription &&
+          (await self.registration.pushManager.subscribe(event.oldSubscription.options)));
+      if (!sub) return;
+
+      const oldEndpoint = event.oldSubscription?.endpoint ?? null;
+      const db = await openQueueDb();
+      const session = await loadSession(db);
+      if (!session) return;
+
+      const { keys } = sub.toJSON();
+      const res = session.expired
+        ? null
+        : await fetch(`${session.url}/rest/v1/rpc/save_push_subscription`, {
+            method: 'POST',
+            headers: {
+              apikey: session.anon_key,
+              Authorization: `Bearer ${session.access_token}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              p_endpoint: sub.endpoint,
+              p_p256dh: keys.p256dh,
+              p_auth: keys.auth,
+              p_old_endpoint: oldEndpoint,
+            }),
+          }).catch(() => null);
+      if (!res?.ok) await notifyClients({ type: 'PUSH_SUBSCRIPTION_CHANGED', old_endpoint: oldEndpoint });
+    })()
+  );
+});
+
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
   const data = event.notification.data || {};
   const url = data.url || '/';
   if (event.action === 'apply') {
-    // Focus app and postMessage to trigger apply flow
-    event.waitUntil(openAndMessage(url, {type: 'APPLY_EVENT', payload: data}));
+    event.waitUntil(openAndMessage(url, 'apply', {type: 'APPLY_EVENT', payload: data}));
   } else if (event.action === 'save') {
-    event.waitUntil(openAndMessage(url, {type: 'SAVE_EVENT', payload: data}));
+    event.waitUntil(openAndMessage(url, 'save', {type: 'SAVE_EVENT', payload: data}));
+  } else if (data.event_id) {
+    event.waitUntil(openAndMessage(url, null, {type: 'OPEN_EVENT', payload: data}));
   } else {
     event.waitUntil(clients.openWindow(url));
   }
 });
 
-async function openAndMessage(url, message) {
+// Hands the action to a running window (handled in src/lib/eventIntents.ts).
+// Without one, the app is opened with ?event=&action= and handles it on start
+// (takeLaunchIntent).
+async function openAndMessage(url, action, message) {
   const clientList = await clients.matchAll({ type: 'window', includeUncontrolled: true });
-  const client = clientList.find((c) => c.url.includes(self.origin)) || await clients.openWindow(url);
-  client && client.postMessage(message);
+  const client = clientList.find((c) => new URL(c.url).origin === self.location.origin);
+  if (client) {
+    await client.focus();
+    client.postMessage(message);
+    return;
+  }
+
+  const launch = new URL(url, self.location.origin);
+  if (message.payload.event_id) launch.searchParams.set('event', message.payload.event_id);
+  if (action) launch.searchParams.set('action', action);
+  await clients.openWindow(launch.pathname + launch.search);
 }
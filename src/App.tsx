@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { UserEventsProvider } from './contexts/UserEventsContext';
+import { useUserEvents } from './contexts/useUserEvents';
 import { SplashScreen } from './components/SplashScreen';
 import { LoginScreen } from './components/LoginScreen';
 import { OnboardingScreen } from './components/OnboardingScreen';
@@ -8,17 +10,47 @@ import { FeedTab } from './components/FeedTab';
 import { ApplicationsTab } from './components/ApplicationsTab';
 import { ProfileTab } from './components/ProfileTab';
 import { SavedTab } from './components/SavedTab';
-import { supabase } from './lib/supabase';
+import { fetchProfile, updateProfile } from './lib/repository';
+import type { Event } from './lib/models';
+import { notifyUpcomingDeadlines } from './lib/deadlines';
+import { startQueueSync, type ReplayRejection } from './lib/eventActions';
+import { Toast } from './components/Toast';
+import { EventModal } from './components/EventModal';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { syncPushSubscription, watchPushSubscriptionChanges } from './lib/push';
+import { useNotifications } from './lib/notifications';
+import { downloadEventIcs } from './lib/calendar';
+import {
+  onServiceWorkerIntent,
+  runEventIntent,
+  takeLaunchIntent,
+  type EventIntent,
+  type EventIntentResult,
+} from './lib/eventIntents';
+import { navigate, openModalEventId, tabPath, useRoute, type Tab } from './lib/router';
 
-type Tab = 'feed' | 'applications' | 'saved' | 'profile';
+const ACTION_VERBS: Record<ReplayRejection['kind'], string> = {
+  save: 'save',
+  unsave: 'unsave',
+  apply: 'apply to',
+  withdraw: 'withdraw from',
+};
 
 function AppContent() {
   const { user, loading: authLoading } = useAuth();
+  const { setSaved, apply } = useUserEvents();
   const [showSplash, setShowSplash] = useState(true);
   const [isOnboarded, setIsOnboarded] = useState(false);
   const [checkingOnboarding, setCheckingOnboarding] = useState(false);
-  const [activeTab, setActiveTab] = useState<Tab>('feed');
+  const route = useRoute();
+  const activeTab = route.tab;
+  const setActiveTab = (tab: Tab) => navigate(tabPath(tab));
   const [fadeIn, setFadeIn] = useState(false);
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const inbox = useNotifications(user && isOnboarded ? user.id : undefined);
+  // Opened from a notification or link rather than from one of the tabs
+  const [linkedEvent, setLinkedEvent] = useState<Event | null>(null);
+  const [intentResult, setIntentResult] = useState<EventIntentResult | null>(null);
 
   useEffect(() => {
     if (!authLoading) {
@@ -43,19 +75,89 @@ function AppContent() {
     }
   }, [showSplash, authLoading, checkingOnboarding]);
 
+  // Local deadline reminders for devices that can't receive pushes; re-checked hourly while open
+  useEffect(() => {
+    if (!user || !isOnboarded) return;
+    const check = () => notifyUpcomingDeadlines(user.id).catch(console.error);
+    check();
+    const timer = setInterval(check, 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [user, isOnboarded]);
+
+  // Refreshes this device's push subscription once the user is in, and saves any
+  // the browser rotates later. Permission is only ever requested from the
+  // notification settings screen
+  useEffect(() => {
+    if (!user || !isOnboarded) return;
+    syncPushSubscription().catch((err) => console.error('Error syncing push subscription:', err));
+    return watchPushSubscriptionChanges();
+  }, [user, isOnboarded]);
+
+  // Replays save/apply actions queued while offline
+  useEffect(() => {
+    if (!user) return;
+    return startQueueSync(user.id, (rejected: ReplayRejection[]) => {
+      const [first] = rejected;
+      setSyncMessage(
+        rejected.length === 1
+          ? `Couldn't ${ACTION_VERBS[first.kind]} ${first.event_title ?? 'an event'}: ${first.reason}`
+          : `${rejected.length} offline actions couldn't be synced`
+      );
+    });
+  }, [user]);
+
+  // Notification taps and their Save/Apply buttons, from a running window or a cold start
+  useEffect(() => {
+    if (!user || !isOnboarded) return;
+    const handle = (intent: EventIntent) =>
+      runEventIntent(intent, { setSaved, apply })
+        .then((result) => {
+          if (!result) return setSyncMessage('This event is no longer available');
+          setLinkedEvent(result.event);
+          if (result.message) setIntentResult(result);
+        })
+        .catch((err) => console.error('Error opening event from notification:', err));
+
+    const launch = takeLaunchIntent();
+    if (launch) handle(launch);
+    return onServiceWorkerIntent(handle);
+  }, [user, isOnboarded, setSaved, apply]);
+
+  // /events/:id reached directly: a shared link, a reload or forward navigation.
+  // Modals opened in the app are already showing their event
+  const routeEventId = route.eventId;
+  useEffect(() => {
+    if (!user || !isOnboarded || !routeEventId || openModalEventId() === routeEventId) return;
+    runEventIntent({ eventId: routeEventId, action: 'open' }, { setSaved, apply })
+      .then((result) => {
+        if (result) return setLinkedEvent(result.event);
+        setSyncMessage('This event is no longer available');
+        navigate(tabPath('feed'), { replace: true });
+      })
+      .catch((err) => console.error('Error opening linked event:', err));
+  }, [user, isOnboarded, routeEventId, setSaved, apply]);
+
+  const openEvent = async (eventId: string) => {
+    if (!user) return;
+    try {
+      const result = await runEventIntent({ eventId, action: 'open' }, { setSaved, apply });
+      if (result) setLinkedEvent(result.event);
+      else setSyncMessage('This event is no longer available');
+    } catch (err) {
+      console.error('Error opening event:', err);
+    }
+  };
+
   const checkOnboardingStatus = async () => {
     if (!user) return;
     setCheckingOnboarding(true);
 
     const checkProfileWithRetry = async (retries = 3, delay = 500) => {
       for (let i = 0; i < retries; i++) {
-        const { data: profile, error } = await supabase
-          .from('profiles')
-          .select('id, onboarded')
-          .eq('id', user.id)
-          .maybeSingle();
-
-        if (error) {
+        let profile;
+        try {
+          profile = await fetchProfile(user.id);
+        } catch (error) {
           console.error('Error fetching profile:', error);
           if (i === retries - 1) return null;
           await new Promise(res => setTimeout(res, delay));
@@ -90,7 +192,7 @@ function AppContent() {
   const handleEditPreferences = async () => {
     if (!user) return;
     try {
-      await supabase.from('profiles').update({ onboarded: false }).eq('id', user.id);
+      await updateProfile(user.id, { onboarded: false });
       setFadeIn(false);
       setTimeout(() => {
         setIsOnboarded(false);
@@ -135,14 +237,48 @@ function AppContent() {
             {activeTab === 'applications' && <ApplicationsTab />}
             {activeTab === 'saved' && <SavedTab />}
             {activeTab === 'profile' && (
-              <ProfileTab onEditPreferences={handleEditPreferences} />
+              <ProfileTab
+                onEditPreferences={handleEditPreferences}
+                inbox={inbox}
+                onOpenEvent={openEvent}
+              />
             )}
           </div>
 
           {/* Fixed Bottom Nav */}
-          <BottomNav activeTab={activeTab} onTabChange={setActiveTab} />
+          <BottomNav
+            activeTab={activeTab}
+            onTabChange={setActiveTab}
+            unreadCount={inbox.unreadCount}
+          />
         </div>
       )}
+
+      <EventModal
+        event={linkedEvent}
+        isOpen={!!linkedEvent}
+        onClose={() => setLinkedEvent(null)}
+      />
+
+      {syncMessage && <Toast message={syncMessage} onDismiss={() => setSyncMessage(null)} />}
+      {intentResult?.message && (
+        <Toast
+          message={intentResult.message}
+          {...(intentResult.application && {
+            actionLabel: 'Add to calendar',
+            onAction: () => {
+              const app = intentResult.application!;
+              downloadEventIcs(intentResult.event, {
+                uid: app.google_calendar_id,
+                sequence: app.calendar_sequence,
+                updatedAt: app.calendar_updated_at,
+              });
+            },
+          })}
+          onDismiss={() => setIntentResult(null)}
+        />
+      )}
+      <UpdatePrompt />
     </div>
   );
 }
@@ -150,7 +286,9 @@ function AppContent() {
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <UserEventsProvider>
+        <AppContent />
+      </UserEventsProvider>
     </AuthProvider>
   );
 }
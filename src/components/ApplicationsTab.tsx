@@ -1,68 +1,88 @@
-import { useState, useEffect } from "react";
-import { supabase } from "../lib/supabase";
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "../contexts/AuthContext";
-import { Calendar, MapPin, Eye, CheckCircle2 } from "lucide-react";
+import { useUserEvents } from "../contexts/useUserEvents";
+import {
+  Calendar,
+  MapPin,
+  Eye,
+  CheckCircle2,
+  ChevronDown,
+  History,
+  Undo2,
+  Download,
+  Rss,
+} from "lucide-react";
 import { EventModal } from "./EventModal";
+import { Toast } from "./Toast";
+import { WithdrawDialog } from "./WithdrawDialog";
+import { CalendarSubscribeDialog } from "./CalendarSubscribeDialog";
+import { EventsCalendar } from "./EventsCalendar";
+import { EventsViewToggle } from "./EventsViewToggle";
+import { useEventsView } from "../lib/agenda";
+import { downloadApplicationsIcs } from "../lib/calendar";
+import { formatDate, formatDateTime, formatEventStart } from "../lib/datetime";
+import {
+  fetchApplications,
+  fetchStatusHistory,
+  updateApplicationStatus,
+} from "../lib/repository";
+import type { Application, ApplicationRow, Event, StatusChange } from "../lib/models";
+import { readCache, useOnlineStatus, writeCache } from "../lib/localCache";
+import { OfflineIndicator } from "./OfflineIndicator";
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_LABELS,
+  APPLICATION_STATUS_STYLES,
+  isApplicationStatus,
+  reachableStatuses,
+  type ApplicationStatus,
+} from "../lib/applicationStatus";
 
-interface EventApplication {
-  id: string;
-  event_id: string;
-  created_at: string;
-  events: {
-    id: string;
-    title: string;
-    organization: string | null;
-    description: string | null;
-    date: string;
-    location: string | null;
-    image_url: string | null;
-    link?: string | null;
-  };
+/** Applications and their timelines, as stored in the local cache. */
+interface ApplicationsCache {
+  applications: Application[];
+  history: [string, StatusChange[]][];
 }
 
 export function ApplicationsTab() {
   const { user } = useAuth();
-  const [applications, setApplications] = useState<EventApplication[]>([]);
+  const { applied, loaded, apply, withdraw, restore } = useUserEvents();
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [history, setHistory] = useState<Map<string, StatusChange[]>>(new Map());
+  const [activeStatus, setActiveStatus] = useState<ApplicationStatus | null>(null);
+  const [openTimelines, setOpenTimelines] = useState<Set<string>>(new Set());
+  const [withdrawTarget, setWithdrawTarget] = useState<Application | null>(null);
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [undoable, setUndoable] = useState<{
+    row: ApplicationRow | null;
+    event: Event;
+    title: string;
+    queued: boolean;
+  } | null>(null);
+  const [isSubscribeOpen, setIsSubscribeOpen] = useState(false);
+  const [view, setView] = useEventsView();
   const [loading, setLoading] = useState(true);
-  const [selectedEvent, setSelectedEvent] = useState<any>(null);
+  const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [fadeIn, setFadeIn] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const online = useOnlineStatus();
+  // Set once the network answers, so a slow cache read can't replace fresher data
+  const freshRef = useRef(false);
 
-  const formatDate = (iso: string) =>
-    new Date(iso).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
-
-  const fetchApplications = async () => {
+  // Refreshes in the background; on failure the cached or current list stays up
+  const loadApplications = async () => {
     if (!user) return;
-    setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from("applications")
-        .select(
-          `
-          id,
-          event_id,
-          created_at,
-          events (
-            id,
-            title,
-            organization,
-            description,
-            date,
-            location,
-            image_url,
-            link
-          )
-        `
-        )
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setApplications(data || []);
+      const apps = await fetchApplications(user.id);
+      freshRef.current = true;
+      setApplications(apps);
+      setCachedAt(null);
+      const byApp = await fetchHistory(apps.map((a) => a.id));
+      writeCache<ApplicationsCache>(user.id, "applications", {
+        applications: apps,
+        history: [...(byApp ?? [])],
+      });
     } catch (err) {
       console.error("Error fetching applications:", err);
     } finally {
@@ -71,11 +91,126 @@ export function ApplicationsTab() {
     }
   };
 
+  const fetchHistory = async (applicationIds: string[]) => {
+    if (!applicationIds.length) {
+      setHistory(new Map());
+      return new Map<string, StatusChange[]>();
+    }
+    let changes: StatusChange[];
+    try {
+      changes = await fetchStatusHistory(applicationIds);
+    } catch (err) {
+      console.error("Error fetching status history:", err);
+      return null;
+    }
+
+    const byApp = new Map<string, StatusChange[]>();
+    for (const change of changes) {
+      if (!byApp.has(change.application_id)) byApp.set(change.application_id, []);
+      byApp.get(change.application_id)!.push(change);
+    }
+    setHistory(byApp);
+    return byApp;
+  };
+
+  const updateStatus = async (app: Application, status: ApplicationStatus) => {
+    if (app.status === status) return;
+    const previous = app.status;
+    setApplications((prev) => prev.map((a) => (a.id === app.id ? { ...a, status } : a)));
+
+    let updatedAt: string;
+    try {
+      updatedAt = await updateApplicationStatus(app.id, status);
+    } catch (err) {
+      console.error("Error updating application status:", err);
+      setApplications((prev) =>
+        prev.map((a) => (a.id === app.id ? { ...a, status: previous } : a))
+      );
+      return;
+    }
+    setApplications((prev) =>
+      prev.map((a) => (a.id === app.id ? { ...a, updated_at: updatedAt } : a))
+    );
+    await fetchHistory(applications.map((a) => a.id));
+  };
+
+  const confirmWithdraw = async () => {
+    if (!withdrawTarget) return;
+    setWithdrawing(true);
+    try {
+      const title = withdrawTarget.events?.title ?? "event";
+      const result = await withdraw({ id: withdrawTarget.event_id, title });
+      setUndoable({
+        row: result.queued ? null : result.application,
+        event: withdrawTarget.events,
+        title,
+        queued: result.queued,
+      });
+      setWithdrawTarget(null);
+    } catch (err) {
+      console.error("Error withdrawing application:", err);
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  const undoWithdraw = async () => {
+    if (!undoable) return;
+    try {
+      // A queued withdrawal has no deleted row to restore; re-applying cancels it out of the queue
+      if (undoable.row) await restore(undoable.row);
+      else await apply(undoable.event, { checkClashes: false });
+      await loadApplications();
+    } catch (err) {
+      console.error("Error restoring application:", err);
+    }
+  };
+
+  const toggleTimeline = (id: string) =>
+    setOpenTimelines((p) => {
+      const n = new Set(p);
+      if (n.has(id)) n.delete(id);
+      else n.add(id);
+      return n;
+    });
+
+  // Unknown values can't be written any more, but fall back rather than hide the row
+  const statusOf = (app: Application): ApplicationStatus =>
+    isApplicationStatus(app.status) ? app.status : "applied";
+
+  // Withdrawals (including queued ones) drop out right away
+  const current = loaded ? applications.filter((a) => applied.has(a.event_id)) : applications;
+
+  const statusCount = (status: ApplicationStatus) =>
+    current.filter((a) => statusOf(a) === status).length;
+
+  const groups = APPLICATION_STATUSES.filter((s) => !activeStatus || s === activeStatus)
+    .map((status) => ({ status, apps: current.filter((a) => statusOf(a) === status) }))
+    .filter((g) => g.apps.length > 0);
+
   useEffect(() => {
-    fetchApplications();
+    if (!user) return;
+    readCache<ApplicationsCache>(user.id, "applications").then((cached) => {
+      if (!cached || freshRef.current) return;
+      setApplications(cached.data.applications);
+      setHistory(new Map(cached.data.history));
+      setCachedAt(cached.updated_at);
+      setLoading(false);
+      setTimeout(() => setFadeIn(true), 100);
+    });
   }, [user]);
 
-  const openModal = (event: any) => {
+  useEffect(() => {
+    loadApplications();
+  }, [user, online]);
+
+  // Applied on another tab or device: reload to pick up the new application
+  const missing = [...applied].filter((id) => !applications.some((a) => a.event_id === id)).join();
+  useEffect(() => {
+    if (loaded && missing && freshRef.current) loadApplications();
+  }, [loaded, missing]);
+
+  const openModal = (event: Event) => {
     setSelectedEvent(event);
     setIsModalOpen(true);
   };
@@ -85,103 +220,247 @@ export function ApplicationsTab() {
     setTimeout(() => setSelectedEvent(null), 250);
   };
 
+  const viewToggle = <EventsViewToggle view={view} onChange={setView} />;
+
+  // Rendered in every view, so a withdrawal can still be undone after switching
+  // to the calendar, while reloading, or from the empty state it leaves behind
+  const undoToast = undoable && (
+    <Toast
+      message={
+        undoable.queued
+          ? `You're offline. Withdrawing from ${undoable.title} will sync when you reconnect`
+          : `Withdrew from ${undoable.title}`
+      }
+      actionLabel="Undo"
+      onAction={undoWithdraw}
+      onDismiss={() => setUndoable(null)}
+    />
+  );
+
+  if (view === "calendar")
+    return (
+      <>
+        <div className="px-4 pt-6">{viewToggle}</div>
+        <EventsCalendar />
+        {undoToast}
+      </>
+    );
+
   if (loading)
     return (
-      <div className="flex items-center justify-center h-64 text-white">
-        Loading applications...
-      </div>
+      <>
+        <div className="flex items-center justify-center h-64 text-white">
+          Loading applications...
+        </div>
+        {undoToast}
+      </>
     );
 
-  if (!applications.length)
+  if (!current.length)
     return (
-      <div className="flex flex-col items-center justify-center h-64 text-center text-gray-400">
-        <CheckCircle2 className="w-10 h-10 mb-3 text-gray-500" />
-        <p className="font-medium text-gray-300">No applications yet</p>
-        <p className="text-sm text-gray-500">
-          Apply to events to see them here.
-        </p>
-      </div>
+      <>
+        <div className="px-4 pt-6">{viewToggle}</div>
+        <div className="flex flex-col items-center justify-center h-64 text-center text-gray-400">
+          <OfflineIndicator cachedAt={cachedAt} className="mb-4" />
+          <CheckCircle2 className="w-10 h-10 mb-3 text-gray-500" />
+          <p className="font-medium text-gray-300">No applications yet</p>
+          <p className="text-sm text-gray-500">
+            Apply to events to see them here.
+          </p>
+        </div>
+        {undoToast}
+      </>
+    );
+
+  const chipClass = (active: boolean) =>
+    `shrink-0 px-3 py-1.5 rounded-full text-sm border transition disabled:opacity-30 disabled:cursor-not-allowed ${
+      active
+        ? "bg-[#00BFFF]/20 border-[#00BFFF] text-white"
+        : "bg-white/5 border-white/10 text-gray-300 hover:border-white/30"
+    }`;
+
+  const exportIcs = () => {
+    if (!user) return;
+    downloadApplicationsIcs(user.id).catch((err) =>
+      console.error("Error exporting applications:", err)
     );
+  };
 
   return (
     <>
+      <OfflineIndicator cachedAt={cachedAt} className="mt-6" />
+      <div className="flex items-center gap-2 px-4 pt-6">
+        <div className="mr-auto">{viewToggle}</div>
+        <button
+          onClick={exportIcs}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm border border-white/10 bg-white/5 text-gray-300 hover:border-white/30 transition"
+        >
+          <Download className="w-4 h-4" /> Export .ics
+        </button>
+        <button
+          onClick={() => setIsSubscribeOpen(true)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm border border-[#00BFFF]/40 bg-[#00BFFF]/10 text-[#00BFFF] hover:bg-[#00BFFF]/20 transition"
+        >
+          <Rss className="w-4 h-4" /> Subscribe
+        </button>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto px-4 pt-4 [scrollbar-width:none]">
+        <button onClick={() => setActiveStatus(null)} className={chipClass(activeStatus === null)}>
+          All <span className="text-gray-400">{current.length}</span>
+        </button>
+        {APPLICATION_STATUSES.map((s) => (
+          <button
+            key={s}
+            onClick={() => setActiveStatus(activeStatus === s ? null : s)}
+            disabled={activeStatus !== s && statusCount(s) === 0}
+            className={chipClass(activeStatus === s)}
+          >
+            {APPLICATION_STATUS_LABELS[s]} <span className="text-gray-400">{statusCount(s)}</span>
+          </button>
+        ))}
+      </div>
+
       <div
-        className={`px-4 pt-6 pb-24 grid grid-cols-1 sm:grid-cols-2 gap-4 transform transition-all duration-700 ease-[cubic-bezier(0.4,0,0.2,1)] ${
+        className={`px-4 pt-6 pb-24 space-y-8 transform transition-all duration-700 ease-[cubic-bezier(0.4,0,0.2,1)] ${
           fadeIn ? "opacity-100 translate-y-0" : "opacity-0 translate-y-6"
         }`}
       >
-        {applications.map((app, idx) => {
-          const event = app.events;
-          return (
-            <div
-              key={app.id}
-              className={`bg-gradient-to-br from-[#10121A] to-[#1A1C24] border border-gray-800 rounded-2xl overflow-hidden 
-              shadow-[0_4px_20px_rgba(0,0,0,0.3)]
-              transform transition-all duration-600 ease-[cubic-bezier(0.4,0,0.2,1)] hover:scale-[1.03] 
-              hover:shadow-[0_10px_35px_rgba(0,191,255,0.35)] hover:border-[#00BFFF]/40
-              will-change-transform will-change-[box-shadow]
-              ${fadeIn ? "opacity-100 translate-y-0" : "opacity-0 translate-y-4"}`}
-              style={{
-                transitionDelay: `${idx * 60}ms`,
-              }}
-            >
-              {event?.image_url && (
-                <div
-                  className="h-36 bg-cover bg-center"
-                  style={{
-                    backgroundImage: `linear-gradient(to bottom, rgba(0,0,0,0.2), rgba(0,0,0,0.6)), url(${event.image_url})`,
-                  }}
-                />
-              )}
-
-              <div className="p-5 space-y-3">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <h3 className="text-lg font-bold text-white mb-1">
-                      {event?.title}
-                    </h3>
-                    {event?.organization && (
-                      <p className="text-gray-400 text-sm">
-                        {event.organization}
-                      </p>
+        {groups.map(({ status: group, apps }) => (
+          <section key={group}>
+            <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-gray-400">
+              {APPLICATION_STATUS_LABELS[group]}
+              <span className="text-gray-600">{apps.length}</span>
+            </h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {apps.map((app, idx) => {
+                const event = app.events;
+                const status = statusOf(app);
+                const timeline = history.get(app.id) ?? [];
+                const timelineOpen = openTimelines.has(app.id);
+                return (
+                  <div
+                    key={app.id}
+                    className={`bg-gradient-to-br from-[#10121A] to-[#1A1C24] border border-gray-800 rounded-2xl overflow-hidden 
+                    shadow-[0_4px_20px_rgba(0,0,0,0.3)]
+                    transform transition-all duration-600 ease-[cubic-bezier(0.4,0,0.2,1)] hover:scale-[1.03] 
+                    hover:shadow-[0_10px_35px_rgba(0,191,255,0.35)] hover:border-[#00BFFF]/40
+                    will-change-transform will-change-[box-shadow]
+                    ${fadeIn ? "opacity-100 translate-y-0" : "opacity-0 translate-y-4"}`}
+                    style={{
+                      transitionDelay: `${idx * 60}ms`,
+                    }}
+                  >
+                    {event?.image_url && (
+                      <div
+                        className="h-36 bg-cover bg-center"
+                        style={{
+                          backgroundImage: `linear-gradient(to bottom, rgba(0,0,0,0.2), rgba(0,0,0,0.6)), url(${event.image_url})`,
+                        }}
+                      />
                     )}
-                  </div>
 
-                  <div className="flex flex-col items-end text-sm font-medium text-[#00BFFF]">
-                    <div className="flex items-center gap-1">
-                      <CheckCircle2 className="w-4 h-4" />
-                      <span>Applied</span>
-                    </div>
-                    <div className="flex items-center gap-1 text-gray-400 text-xs mt-1">
-                      <Calendar className="w-3 h-3" />
-                      <span>{formatDate(app.created_at)}</span>
+                    <div className="p-5 space-y-3">
+                      <div className="flex justify-between items-start gap-3">
+                        <div>
+                          <h3 className="text-lg font-bold text-white mb-1">
+                            {event?.title}
+                          </h3>
+                          {event?.organization && (
+                            <p className="text-gray-400 text-sm">
+                              {event.organization}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="flex flex-col items-end text-sm font-medium">
+                          <label className="relative">
+                            <span className="sr-only">Application status</span>
+                            <select
+                              value={status}
+                              onChange={(e) => updateStatus(app, e.target.value as ApplicationStatus)}
+                              className={`appearance-none rounded-full border pl-3 pr-7 py-1 text-sm font-semibold cursor-pointer focus:outline-none [color-scheme:dark] ${APPLICATION_STATUS_STYLES[status]}`}
+                            >
+                              {reachableStatuses(status).map((s) => (
+                                <option key={s} value={s} className="bg-[#1a1d29] text-white">
+                                  {APPLICATION_STATUS_LABELS[s]}
+                                </option>
+                              ))}
+                            </select>
+                            <ChevronDown className="pointer-events-none absolute right-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 opacity-70" />
+                          </label>
+                          <div className="flex items-center gap-1 text-gray-400 text-xs mt-1">
+                            <Calendar className="w-3 h-3" />
+                            <span>Updated {formatDate(app.updated_at ?? app.created_at)}</span>
+                          </div>
+                        </div>
+                      </div>
+
+                      <p className="text-gray-300 text-sm line-clamp-2">
+                        {event?.description?.replace(/<[^>]*>/g, "")}
+                      </p>
+
+                      <div className="flex items-center gap-3 text-gray-400 text-sm">
+                        <Calendar className="w-4 h-4" />
+                        <span>{event && formatEventStart(event)}</span>
+                        <MapPin className="w-4 h-4 ml-2" />
+                        <span>{event?.location ?? "McGill University"}</span>
+                      </div>
+
+                      {timeline.length > 0 && (
+                        <div>
+                          <button
+                            onClick={() => toggleTimeline(app.id)}
+                            className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition"
+                          >
+                            <History className="w-3.5 h-3.5" />
+                            {timelineOpen ? "Hide timeline" : `Timeline (${timeline.length})`}
+                          </button>
+                          {timelineOpen && (
+                            <ol className="mt-3 ml-1.5 space-y-3 border-l border-gray-700 pl-4">
+                              {timeline.map((change) => (
+                                <li key={change.id} className="relative text-sm">
+                                  <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-[#00BFFF]" />
+                                  <span className="text-white">
+                                    {isApplicationStatus(change.to_status)
+                                      ? APPLICATION_STATUS_LABELS[change.to_status]
+                                      : change.to_status}
+                                  </span>
+                                  <span className="ml-2 text-xs text-gray-500">
+                                    {formatDateTime(change.changed_at)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
+                      )}
+
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => openModal(event)}
+                          className="flex-1 py-2 rounded-xl font-semibold flex items-center justify-center gap-2 
+                          bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] text-white hover:opacity-90 transition-opacity"
+                        >
+                          <Eye className="w-4 h-4" />
+                          View Details
+                        </button>
+                        <button
+                          onClick={() => setWithdrawTarget(app)}
+                          className="px-4 py-2 rounded-xl font-semibold flex items-center gap-2 bg-white/5 text-gray-300 hover:bg-rose-500/20 hover:text-rose-300 transition"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                          Withdraw
+                        </button>
+                      </div>
                     </div>
                   </div>
-                </div>
-
-                <p className="text-gray-300 text-sm line-clamp-2">
-                  {event?.description?.replace(/<[^>]*>/g, "")}
-                </p>
-
-                <div className="flex items-center gap-3 text-gray-400 text-sm">
-                  <Calendar className="w-4 h-4" />
-                  <span>{formatDate(event?.date)}</span>
-                  <MapPin className="w-4 h-4 ml-2" />
-                  <span>{event?.location ?? "McGill University"}</span>
-                </div>
-
-                <button
-                  onClick={() => openModal(event)}
-                  className="w-full py-2 rounded-xl font-semibold flex items-center justify-center gap-2 
-                  bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] text-white hover:opacity-90 transition-opacity"
-                >
-                  <Eye className="w-4 h-4" />
-                  View Details
-                </button>
-              </div>
+                );
+              })}
             </div>
-          );
-        })}
+          </section>
+        ))}
       </div>
 
       <EventModal
@@ -189,6 +468,17 @@ export function ApplicationsTab() {
         isOpen={isModalOpen}
         onClose={closeModal}
       />
+
+      <WithdrawDialog
+        eventTitle={withdrawTarget ? withdrawTarget.events?.title ?? "this event" : null}
+        busy={withdrawing}
+        onConfirm={confirmWithdraw}
+        onCancel={() => setWithdrawTarget(null)}
+      />
+
+      {undoToast}
+
+      <CalendarSubscribeDialog isOpen={isSubscribeOpen} onClose={() => setIsSubscribeOpen(false)} />
     </>
   );
 }
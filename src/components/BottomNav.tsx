@@ -3,9 +3,11 @@ import { Home, FileText, User, Bookmark } from 'lucide-react';
 interface BottomNavProps {
   activeTab: 'feed' | 'applications' | 'saved' | 'profile';
   onTabChange: (tab: 'feed' | 'applications' | 'saved' | 'profile') => void;
+  /** Unread notifications, badged on the Profile tab where the inbox lives. */
+  unreadCount?: number;
 }
 
-export function BottomNav({ activeTab, onTabChange }: BottomNavProps) {
+export function BottomNav({ activeTab, onTabChange, unreadCount = 0 }: BottomNavProps) {
   return (
     <nav className="fixed bottom-0 left-0 right-0 bg-[#0B0C10]/90 backdrop-blur-md border-t border-white/10 z-50 safe-area-inset-bottom">
       <div className="flex items-center justify-around h-20 px-6">
@@ -49,7 +51,17 @@ export function BottomNav({ activeTab, onTabChange }: BottomNavProps) {
             activeTab === 'profile' ? 'text-[#4C6EF5]' : 'text-gray-400'
           }`}
         >
-          <User className="w-6 h-6" />
+          <span className="relative">
+            <User className="w-6 h-6" />
+            {unreadCount > 0 && (
+              <span
+                aria-label={`${unreadCount} unread notifications`}
+                className="absolute -top-1.5 -right-2.5 min-w-[18px] h-[18px] px-1 rounded-full bg-[#00BFFF] text-white text-[10px] font-bold flex items-center justify-center"
+              >
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+          </span>
           <span className="text-xs font-medium">Profile</span>
         </button>
       </div>
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Check, Copy, Loader2, RefreshCw, X } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { getCalendarFeedUrl, rotateCalendarFeedUrl, webcalUrl } from "../lib/calendar";
+
+interface CalendarSubscribeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function CalendarSubscribeDialog({ isOpen, onClose }: CalendarSubscribeDialogProps) {
+  const { user } = useAuth();
+  const [url, setUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !user || url) return;
+    getCalendarFeedUrl(user.id)
+      .then(setUrl)
+      .catch((err) => console.error("Error loading calendar feed:", err));
+  }, [isOpen, user, url]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const copy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const rotate = async () => {
+    if (!user) return;
+    setBusy(true);
+    try {
+      setUrl(await rotateCalendarFeedUrl(user.id));
+    } catch (err) {
+      console.error("Error resetting calendar feed:", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const dialog = (
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center p-4 animate-fadeIn"
+      role="dialog"
+      aria-modal="true"
+    >
+      <button
+        aria-label="Close"
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-md cursor-default"
+      />
+      <div className="relative w-full max-w-md rounded-3xl border border-gray-800 bg-[#1a1d29] p-6 shadow-2xl animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 rounded-full bg-black/40 p-2 transition-colors hover:bg-black/70"
+        >
+          <X className="h-5 w-5 text-white" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white">Subscribe to your applications</h2>
+        <p className="mt-2 text-sm text-gray-400">
+          Add this URL to Google Calendar, Apple Calendar or Outlook. New applications
+          appear automatically, date or location changes are updated, and withdrawn
+          ones are removed.
+        </p>
+
+        <div className="mt-5 flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 p-2">
+          {url ? (
+            <code className="flex-1 truncate px-2 text-xs text-gray-300">{url}</code>
+          ) : (
+            <Loader2 className="mx-2 h-4 w-4 animate-spin text-[#00BFFF]" />
+          )}
+          <button
+            onClick={copy}
+            disabled={!url}
+            className="rounded-lg bg-white/10 p-2 text-white transition hover:bg-white/20 disabled:opacity-40"
+            aria-label="Copy link"
+          >
+            {copied ? <Check className="h-4 w-4 text-[#00BFFF]" /> : <Copy className="h-4 w-4" />}
+          </button>
+        </div>
+
+        <div className="mt-5 flex gap-3">
+          <button
+            onClick={rotate}
+            disabled={busy || !url}
+            className="flex items-center gap-2 px-4 py-3 rounded-xl bg-white/5 text-gray-300 hover:bg-white/10 transition disabled:opacity-40"
+          >
+            <RefreshCw className={`h-4 w-4 ${busy ? "animate-spin" : ""}`} />
+            Reset link
+          </button>
+          <a
+            href={url ? webcalUrl(url) : undefined}
+            className={`flex-1 py-3 rounded-xl text-center font-semibold text-white bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] hover:opacity-90 transition ${
+              url ? "" : "pointer-events-none opacity-40"
+            }`}
+          >
+            Open in calendar app
+          </a>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          Anyone with this link can see your applications. Reset it to stop an old link from working.
+        </p>
+      </div>
+    </div>
+  );
+
+  return createPortal(dialog, document.body);
+}
@@ -0,0 +1,37 @@
+import { ConfirmDialog } from "./ConfirmDialog";
+import { formatShortDate } from "../lib/datetime";
+import { WEEKDAY_LABELS, formatClassTime, type ScheduleClashes } from "../lib/timetable";
+
+interface ClashDialogProps {
+  /** The event being applied to and what it overlaps; null when closed. */
+  clash: (ScheduleClashes & { title: string }) | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ClashDialog({ clash, onConfirm, onCancel }: ClashDialogProps) {
+  return (
+    <ConfirmDialog
+      isOpen={!!clash}
+      title="This clashes with your schedule"
+      confirmLabel="Apply anyway"
+      onConfirm={onConfirm}
+      onCancel={onCancel}
+    >
+      <p>{clash?.title} overlaps:</p>
+      <ul className="list-disc pl-5 space-y-1">
+        {clash?.classes.map((b) => (
+          <li key={b.id}>
+            {b.title} · {WEEKDAY_LABELS[b.weekday]} {formatClassTime(b.start_time)}–
+            {formatClassTime(b.end_time)}
+          </li>
+        ))}
+        {clash?.applications.map((other) => (
+          <li key={other.id}>
+            {other.title} · applied, {formatShortDate(other.date)}
+          </li>
+        ))}
+      </ul>
+    </ConfirmDialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { CLOSING_SOON_DAYS, deadlineInfo } from "../lib/deadlines";
+import { fetchEventsClosingBy } from "../lib/repository";
+import type { Event } from "../lib/models";
+
+interface ClosingSoonProps {
+  now: number;
+  onSelect: (event: Event) => void;
+}
+
+/** Carousel of the events whose application deadline is soonest, within a week. */
+export function ClosingSoon({ now, onSelect }: ClosingSoonProps) {
+  const [events, setEvents] = useState<Event[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchEventsClosingBy(new Date(Date.now() + CLOSING_SOON_DAYS * 24 * 60 * 60 * 1000))
+      .then((events) => {
+        if (!cancelled) setEvents(events);
+      })
+      .catch((err) => console.error("Error loading closing soon events:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const open = events.filter((ev) => deadlineInfo(ev.deadline, now).state === "closing");
+  if (!open.length) return null;
+
+  return (
+    <div className="pt-8">
+      <h2 className="px-6 mb-3 flex items-center gap-2 text-lg font-semibold text-white">
+        <Clock className="w-5 h-5 text-amber-300" /> Closing soon
+      </h2>
+      <div className="flex gap-3 overflow-x-auto px-6 pb-2 snap-x snap-mandatory [scrollbar-width:none]">
+        {open.map((ev) => (
+          <button
+            key={ev.id}
+            onClick={() => onSelect(ev)}
+            className="w-60 shrink-0 snap-start rounded-2xl border border-amber-400/20 bg-gradient-to-br from-[#10121A] to-[#1A1C24] p-4 text-left transition hover:border-amber-400/50"
+          >
+            <p className="line-clamp-2 font-semibold text-white">{ev.title}</p>
+            {ev.organization && (
+              <p className="mt-1 truncate text-xs text-gray-400">{ev.organization}</p>
+            )}
+            <p className="mt-3 inline-flex items-center gap-1.5 rounded-full bg-amber-400/15 px-2.5 py-1 text-xs font-medium text-amber-300">
+              <Clock className="w-3.5 h-3.5" />
+              {deadlineInfo(ev.deadline, now).label}
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
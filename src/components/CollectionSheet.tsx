@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Loader2, Trash2, X } from "lucide-react";
+import { ConfirmDialog } from "./ConfirmDialog";
+import { COLLECTION_NAME_MAX, collectionErrorMessage } from "../lib/savedItems";
+import type { Collection } from "../lib/models";
+
+interface CollectionSheetProps {
+  isOpen: boolean;
+  /** The collection to rename, or null to create one. */
+  collection: Collection | null;
+  onClose: () => void;
+  onSubmit: (name: string) => Promise<void>;
+  onDelete: (collection: Collection) => Promise<void>;
+}
+
+export function CollectionSheet({
+  isOpen,
+  collection,
+  onClose,
+  onSubmit,
+  onDelete,
+}: CollectionSheetProps) {
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(collection?.name ?? "");
+    setError(null);
+    setConfirmingDelete(false);
+  }, [isOpen, collection]);
+
+  useEffect(() => {
+    if (!isOpen || confirmingDelete) return;
+    const handler = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [isOpen, confirmingDelete, onClose]);
+
+  if (!isOpen) return null;
+
+  const submit = async () => {
+    if (!name.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onSubmit(name);
+      onClose();
+    } catch (err) {
+      setError(collectionErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!collection) return;
+    setBusy(true);
+    try {
+      await onDelete(collection);
+      onClose();
+    } catch (err) {
+      console.error("Error deleting collection:", err);
+      setConfirmingDelete(false);
+      setError("Couldn't delete the collection. Check your connection and try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sheet = (
+    <div className="fixed inset-0 z-[9999] flex items-end sm:items-center justify-center animate-fadeIn" role="dialog" aria-modal="true">
+      <button
+        aria-label="Close"
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-md cursor-default"
+      />
+
+      <div className="relative w-full max-w-md rounded-t-3xl sm:rounded-3xl border border-gray-800 bg-[#1a1d29] shadow-2xl animate-slideUp p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">
+            {collection ? "Edit collection" : "New collection"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="rounded-full bg-black/40 p-2 transition-colors hover:bg-black/70"
+          >
+            <X className="h-5 w-5 text-white" />
+          </button>
+        </div>
+
+        <input
+          autoFocus
+          value={name}
+          maxLength={COLLECTION_NAME_MAX}
+          placeholder="e.g. Career fair prep"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && submit()}
+          className="w-full rounded-xl bg-white/5 border border-white/10 px-3 py-3 text-white placeholder-gray-500 focus:outline-none focus:border-[#7C3AED]"
+        />
+
+        {error && <p className="text-sm text-rose-400">{error}</p>}
+
+        <div className="flex gap-3">
+          {collection && (
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              className="px-4 rounded-xl bg-white/5 text-gray-400 hover:text-rose-400 transition"
+              title="Delete collection"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl bg-white/5 text-gray-300 hover:bg-white/10 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={submit}
+            disabled={busy || !name.trim()}
+            className="flex-1 py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-[#7C3AED] to-[#4C6EF5] hover:opacity-90 transition disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {busy && !confirmingDelete && <Loader2 className="h-4 w-4 animate-spin" />}
+            {collection ? "Rename" : "Create"}
+          </button>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmingDelete}
+        title={`Delete “${collection?.name}”?`}
+        confirmLabel="Delete"
+        destructive
+        busy={busy}
+        onConfirm={remove}
+        onCancel={() => setConfirmingDelete(false)}
+      >
+        <p>The events in it stay saved and move to Unsorted.</p>
+      </ConfirmDialog>
+    </div>
+  );
+
+  return createPortal(sheet, document.body);
+}
@@ -0,0 +1,72 @@
+import { useEffect } from "react";
+import { createPortal } from "react-dom";
+
+interface ConfirmDialogProps {
+  isOpen: boolean;
+  title: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  busy?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  children?: React.ReactNode;
+}
+
+export function ConfirmDialog({
+  isOpen,
+  title,
+  confirmLabel,
+  destructive,
+  busy,
+  onConfirm,
+  onCancel,
+  children,
+}: ConfirmDialogProps) {
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: KeyboardEvent) => e.key === "Escape" && onCancel();
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [isOpen, onCancel]);
+
+  if (!isOpen) return null;
+
+  const dialog = (
+    <div
+      className="fixed inset-0 z-[10000] flex items-center justify-center p-4 animate-fadeIn"
+      role="alertdialog"
+      aria-modal="true"
+    >
+      <button
+        aria-label="Cancel"
+        onClick={onCancel}
+        className="fixed inset-0 bg-black/70 backdrop-blur-md cursor-default"
+      />
+      <div className="relative w-full max-w-sm rounded-3xl border border-gray-800 bg-[#1a1d29] p-6 shadow-2xl animate-slideUp">
+        <h2 className="text-lg font-bold text-white">{title}</h2>
+        {children && <div className="mt-2 space-y-2 text-sm text-gray-400">{children}</div>}
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-xl bg-white/5 text-gray-300 hover:bg-white/10 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={busy}
+            className={`flex-1 py-3 rounded-xl font-semibold text-white transition disabled:opacity-50 ${
+              destructive
+                ? "bg-rose-500/80 hover:bg-rose-500"
+                : "bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] hover:opacity-90"
+            }`}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(dialog, document.body);
+}
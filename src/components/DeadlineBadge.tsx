@@ -0,0 +1,20 @@
+import { Clock } from "lucide-react";
+import { DEADLINE_STYLES, deadlineInfo } from "../lib/deadlines";
+
+interface DeadlineBadgeProps {
+  deadline: string | null | undefined;
+  now?: number;
+}
+
+/** Countdown pill for an application deadline; renders nothing without one. */
+export function DeadlineBadge({ deadline, now }: DeadlineBadgeProps) {
+  const info = deadlineInfo(deadline, now);
+  if (info.state === "none") return null;
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-xs font-medium ${DEADLINE_STYLES[info.state]}`}
+    >
+      <Clock className="w-3.5 h-3.5" /> {info.label}
+    </span>
+  );
+}
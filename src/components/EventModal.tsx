@@ -1,21 +1,15 @@
-import { X, Calendar, MapPin, Award, ExternalLink } from "lucide-react";
-import { useEffect } from "react";
+import { X, Calendar, MapPin, Award, ExternalLink, Clock, CalendarPlus, Share2, Check } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
 import { createPortal } from "react-dom";
-
-interface Event {
-  id: string;
-  title: string;
-  description: string;
-  event_type?: string;
-  organization?: string;
-  location?: string;
-  date: string;
-  deadline?: string | null;
-  image_url?: string | null;
-  prize?: string;
-  tags?: string[];
-  link?: string | null;
-}
+import { useAuth } from "../contexts/AuthContext";
+import { logEventView } from "../lib/interactions";
+import { SimilarEvents } from "./SimilarEvents";
+import { DEADLINE_STYLES, deadlineInfo } from "../lib/deadlines";
+import { downloadUserEventIcs } from "../lib/calendar";
+import { formatEventRange, formatLongDateTime } from "../lib/datetime";
+import { useEventHistory } from "../lib/router";
+import { shareEvent } from "../lib/share";
+import type { Event } from "../lib/models";
 
 interface EventModalProps {
   event: Event | null;
@@ -23,7 +17,39 @@ interface EventModalProps {
   onClose: () => void;
 }
 
-export function EventModal({ event, isOpen, onClose }: EventModalProps) {
+export function EventModal({ event: openedEvent, isOpen, onClose }: EventModalProps) {
+  const { user } = useAuth();
+  // A suggestion picked from "You might also like" replaces the opened event in place
+  const [picked, setPicked] = useState<Event | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [copied, setCopied] = useState(false);
+  const event = picked ?? openedEvent;
+  const eventId = event?.id;
+
+  useEventHistory(eventId, isOpen, onClose);
+
+  useEffect(() => {
+    setPicked(null);
+  }, [openedEvent]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setCopied(false);
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  // Opening an event is a (weak) signal for the personalized feed ranking
+  useEffect(() => {
+    if (isOpen && user && eventId) logEventView(user.id, eventId);
+  }, [isOpen, user, eventId]);
+
   useEffect(() => {
     if (isOpen) {
       const prev = document.body.style.overflow;
@@ -43,16 +69,26 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
 
   if (!isOpen || !event) return null;
 
-  const formatDate = (dateString: string) => {
-    const d = new Date(dateString);
-    return d.toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-    });
+  const deadline = deadlineInfo(event.deadline, now);
+
+  const share = async () => {
+    try {
+      if ((await shareEvent(event)) === "copied") {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }
+    } catch (err) {
+      console.error("Error sharing event:", err);
+    }
+  };
+
+  const addToCalendar = async () => {
+    if (!user) return;
+    try {
+      await downloadUserEventIcs(user.id, event);
+    } catch (err) {
+      console.error("Error exporting event:", err);
+    }
   };
 
   const modal = (
@@ -104,7 +140,7 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
           </div>
         )}
 
-        <div className="flex-1 overflow-y-auto p-6">
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-6">
           <div className="space-y-6">
             <div>
               <h2 className="mb-2 text-3xl font-bold text-white">{event.title}</h2>
@@ -116,7 +152,7 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
             <div className="space-y-3">
               <div className="flex items-start gap-3 text-gray-300">
                 <Calendar className="mt-0.5 h-5 w-5 text-[#4C6EF5]" />
-                <span>{formatDate(event.date)}</span>
+                <span>{formatEventRange(event)}</span>
               </div>
 
               <div className="flex items-start gap-3 text-gray-300">
@@ -124,6 +160,20 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
                 <span>{event.location}</span>
               </div>
 
+              {deadline.state !== "none" && (
+                <div className="flex items-start gap-3 text-gray-300">
+                  <Clock className="mt-0.5 h-5 w-5 text-[#4C6EF5]" />
+                  <span>
+                    Apply by {formatLongDateTime(event.deadline!)}
+                    <span
+                      className={`ml-2 rounded-full px-2.5 py-0.5 text-xs font-medium ${DEADLINE_STYLES[deadline.state]}`}
+                    >
+                      {deadline.label}
+                    </span>
+                  </span>
+                </div>
+              )}
+
               {event.prize && (
                 <div className="flex items-start gap-3 font-medium text-[#4C6EF5]">
                   <Award className="mt-0.5 h-5 w-5" />
@@ -139,7 +189,7 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
               </p>
             </div>
 
-            {event.tags?.length > 0 && (
+            {!!event.tags?.length && (
               <div className="border-t border-gray-800 pt-6">
                 <h3 className="mb-3 text-lg font-semibold text-white">Tags</h3>
                 <div className="flex flex-wrap gap-2">
@@ -155,8 +205,8 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
               </div>
             )}
 
-            {event.link && (
-              <div className="border-t border-gray-800 pt-6">
+            <div className="space-y-3 border-t border-gray-800 pt-6">
+              {event.link && (
                 <a
                   href={event.link}
                   target="_blank"
@@ -166,8 +216,26 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
                   <ExternalLink className="h-5 w-5" />
                   Open in Browser
                 </a>
+              )}
+              <div className="flex gap-3">
+                <button
+                  onClick={addToCalendar}
+                  className="flex flex-1 items-center justify-center gap-2 rounded-xl bg-white/5 py-3 font-semibold text-gray-300 transition hover:bg-white/10"
+                >
+                  <CalendarPlus className="h-5 w-5" />
+                  Add to calendar (.ics)
+                </button>
+                <button
+                  onClick={share}
+                  className="flex items-center justify-center gap-2 rounded-xl bg-white/5 px-5 py-3 font-semibold text-gray-300 transition hover:bg-white/10"
+                >
+                  {copied ? <Check className="h-5 w-5 text-[#00BFFF]" /> : <Share2 className="h-5 w-5" />}
+                  {copied ? "Link copied" : "Share"}
+                </button>
               </div>
-            )}
+            </div>
+
+            <SimilarEvents eventId={event.id} onSelect={setPicked} />
           </div>
         </div>
       </div>
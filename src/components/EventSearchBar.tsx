@@ -0,0 +1,38 @@
+import { Search, X, Loader2 } from "lucide-react";
+
+interface EventSearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  searching: boolean;
+}
+
+export function EventSearchBar({ value, onChange, searching }: EventSearchBarProps) {
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+      <input
+        type="search"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder='Search events, e.g. "resume" or "yoga"'
+        aria-label="Search events"
+        className="w-full bg-white/5 border border-white/10 rounded-2xl pl-12 pr-12 py-3 text-white placeholder-gray-500
+          focus:outline-none focus:border-[#00BFFF]/60 focus:shadow-[0_0_20px_rgba(0,191,255,0.25)] transition-all
+          [&::-webkit-search-cancel-button]:hidden"
+      />
+      {searching ? (
+        <Loader2 className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-[#00BFFF] animate-spin" />
+      ) : (
+        value && (
+          <button
+            onClick={() => onChange("")}
+            aria-label="Clear search"
+            className="absolute right-3 top-1/2 -translate-y-1/2 p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )
+      )}
+    </div>
+  );
+}
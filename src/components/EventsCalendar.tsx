@@ -0,0 +1,319 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { useUserEvents } from "../contexts/useUserEvents";
+import { EventModal } from "./EventModal";
+import { OfflineIndicator } from "./OfflineIndicator";
+import {
+  dayKey,
+  findOverlaps,
+  groupByDay,
+  isPastDay,
+  keyDate,
+  monthGrid,
+  type CalendarEntry,
+} from "../lib/agenda";
+import { formatDayHeading, formatMonth, formatTime, formatWeekdayInitial } from "../lib/datetime";
+import { readCache, useOnlineStatus, writeCache } from "../lib/localCache";
+import { fetchEvents } from "../lib/repository";
+import type { Event } from "../lib/models";
+
+type CalendarMode = "agenda" | "month";
+
+// Dots drawn per month cell before it just shows "+n"
+const MAX_DOTS = 3;
+
+const entryColor = (entry: CalendarEntry) => (entry.applied ? "bg-[#00BFFF]" : "bg-[#7C3AED]");
+
+function EntryRow({
+  entry,
+  overlapping,
+  onOpen,
+}: {
+  entry: CalendarEntry;
+  overlapping: boolean;
+  onOpen: () => void;
+}) {
+  const { event, saved, applied } = entry;
+  return (
+    <button
+      onClick={onOpen}
+      className={`w-full flex gap-3 rounded-2xl border p-3 text-left transition hover:bg-white/5 ${
+        overlapping ? "border-rose-400/50 bg-rose-400/5" : "border-gray-800 bg-[#10121A]"
+      }`}
+    >
+      <span className={`w-1 shrink-0 rounded-full ${entryColor(entry)}`} />
+      <span className="w-16 shrink-0 pt-0.5 text-xs text-gray-400">
+        {event.all_day ? "All day" : formatTime(event.date)}
+      </span>
+      <span className="min-w-0 flex-1">
+        <span className="block truncate font-semibold text-white">{event.title}</span>
+        {event.organization && (
+          <span className="block truncate text-xs text-gray-400">{event.organization}</span>
+        )}
+        <span className="mt-1.5 flex flex-wrap gap-1.5 text-[11px] font-medium">
+          {applied && (
+            <span className="px-2 py-0.5 rounded-full bg-[#00BFFF]/15 text-[#00BFFF]">Applied</span>
+          )}
+          {saved && (
+            <span className="px-2 py-0.5 rounded-full bg-[#7C3AED]/20 text-purple-300">Saved</span>
+          )}
+          {overlapping && (
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-rose-400/15 text-rose-400">
+              <AlertTriangle className="w-3 h-3" />
+              Overlaps
+            </span>
+          )}
+        </span>
+      </span>
+    </button>
+  );
+}
+
+/**
+ * The user's applied and saved events on a calendar: an agenda grouped by day
+ * or a month grid. Timed events that overlap each other are flagged.
+ */
+export function EventsCalendar() {
+  const { user } = useAuth();
+  const { saved, applied, loaded } = useUserEvents();
+  const online = useOnlineStatus();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [mode, setMode] = useState<CalendarMode>("agenda");
+  const [showPast, setShowPast] = useState(false);
+  const [month, setMonth] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState(() => dayKey(new Date()));
+  const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const ids = [...new Set([...saved, ...applied])].sort().join();
+
+  useEffect(() => {
+    if (!user || !loaded) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const data = await fetchEvents(ids ? ids.split(",") : []);
+        if (cancelled) return;
+        setEvents(data);
+        setCachedAt(null);
+        writeCache(user.id, "calendar", data);
+      } catch (err) {
+        console.error("Error loading calendar events:", err);
+        const cached = await readCache<Event[]>(user.id, "calendar");
+        if (cancelled || !cached) return;
+        setEvents(cached.data);
+        setCachedAt(cached.updated_at);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, loaded, ids, online]);
+
+  const entries = useMemo(
+    () =>
+      events
+        .filter((e) => saved.has(e.id) || applied.has(e.id))
+        .map((e) => ({ event: e, saved: saved.has(e.id), applied: applied.has(e.id) })),
+    [events, saved, applied]
+  );
+  const byDay = useMemo(() => groupByDay(entries), [entries]);
+  const overlaps = useMemo(() => findOverlaps(entries), [entries]);
+
+  const openModal = (ev: Event) => {
+    setSelectedEvent(ev);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setTimeout(() => setSelectedEvent(null), 250);
+  };
+
+  const shiftMonth = (by: number) =>
+    setMonth((m) => new Date(m.getFullYear(), m.getMonth() + by, 1));
+
+  const goToToday = () => {
+    setMonth(new Date());
+    setSelectedDay(dayKey(new Date()));
+  };
+
+  if (loading)
+    return (
+      <div className="flex items-center justify-center h-64 text-white">Loading calendar...</div>
+    );
+
+  const today = dayKey(new Date());
+  const allDays = [...byDay.keys()].sort();
+  const agendaDays = showPast ? allDays : allDays.filter((k) => !isPastDay(k));
+  const hiddenPast = allDays.length - agendaDays.length;
+
+  const dayList = (key: string) => (
+    <div className="space-y-2">
+      {(byDay.get(key) ?? []).map((entry) => (
+        <EntryRow
+          key={entry.event.id}
+          entry={entry}
+          overlapping={overlaps.has(entry.event.id)}
+          onOpen={() => openModal(entry.event)}
+        />
+      ))}
+    </div>
+  );
+
+  const grid = monthGrid(month);
+
+  return (
+    <>
+      <OfflineIndicator cachedAt={cachedAt} className="mt-4" />
+
+      <div className="flex items-center justify-between gap-3 px-4 pt-4">
+        <div className="flex rounded-full border border-white/10 bg-white/5 p-0.5 text-sm">
+          {(["agenda", "month"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              aria-pressed={mode === m}
+              className={`px-3 py-1 rounded-full capitalize transition ${
+                mode === m ? "bg-white/15 text-white" : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-400">
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-[#00BFFF]" /> Applied
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-[#7C3AED]" /> Saved
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-rose-400" /> Overlap
+          </span>
+        </div>
+      </div>
+
+      {!entries.length ? (
+        <div className="flex flex-col items-center justify-center h-64 text-center px-4">
+          <CalendarDays className="w-10 h-10 text-gray-500 mb-3" />
+          <p className="text-gray-300 font-medium mb-1">Nothing on your calendar yet</p>
+          <p className="text-gray-500 text-sm">Events you save or apply to show up here.</p>
+        </div>
+      ) : mode === "agenda" ? (
+        <div className="px-4 pt-4 pb-24 space-y-6">
+          {hiddenPast > 0 && (
+            <button
+              onClick={() => setShowPast(true)}
+              className="w-full py-2 rounded-xl text-sm text-gray-400 bg-white/5 hover:bg-white/10 transition"
+            >
+              Show {hiddenPast} earlier {hiddenPast === 1 ? "day" : "days"}
+            </button>
+          )}
+          {!agendaDays.length && (
+            <p className="pt-6 text-center text-sm text-gray-500">No upcoming events.</p>
+          )}
+          {agendaDays.map((key) => (
+            <section key={key}>
+              <h3
+                className={`mb-2 text-sm font-semibold ${
+                  key === today ? "text-[#00BFFF]" : isPastDay(key) ? "text-gray-500" : "text-gray-300"
+                }`}
+              >
+                {key === today ? "Today · " : ""}
+                {formatDayHeading(keyDate(key))}
+              </h3>
+              {dayList(key)}
+            </section>
+          ))}
+        </div>
+      ) : (
+        <div className="px-4 pt-4 pb-24">
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => shiftMonth(-1)}
+              aria-label="Previous month"
+              className="rounded-full p-2 text-gray-300 hover:bg-white/10 transition"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button onClick={goToToday} className="text-white font-semibold hover:text-[#00BFFF] transition">
+              {formatMonth(month)}
+            </button>
+            <button
+              onClick={() => shiftMonth(1)}
+              aria-label="Next month"
+              className="rounded-full p-2 text-gray-300 hover:bg-white/10 transition"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+            {grid.slice(0, 7).map((d) => (
+              <span key={d.getDay()}>{formatWeekdayInitial(d)}</span>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-7 gap-1">
+            {grid.map((d) => {
+              const key = dayKey(d);
+              const dayEntries = byDay.get(key) ?? [];
+              const clash = dayEntries.some((e) => overlaps.has(e.event.id));
+              const inMonth = d.getMonth() === month.getMonth();
+              return (
+                <button
+                  key={key}
+                  onClick={() => setSelectedDay(key)}
+                  aria-pressed={selectedDay === key}
+                  className={`relative flex h-14 flex-col items-center gap-1 rounded-xl border pt-1.5 text-sm transition ${
+                    selectedDay === key
+                      ? "border-[#00BFFF] bg-[#00BFFF]/10"
+                      : clash
+                      ? "border-rose-400/40 bg-white/5"
+                      : "border-transparent bg-white/5 hover:border-white/20"
+                  } ${inMonth ? "text-gray-200" : "text-gray-600"}`}
+                >
+                  <span className={key === today ? "font-bold text-[#00BFFF]" : ""}>{d.getDate()}</span>
+                  <span className="flex items-center gap-0.5">
+                    {dayEntries.slice(0, MAX_DOTS).map((e) => (
+                      <span
+                        key={e.event.id}
+                        className={`w-1.5 h-1.5 rounded-full ${
+                          overlaps.has(e.event.id) ? "bg-rose-400" : entryColor(e)
+                        }`}
+                      />
+                    ))}
+                    {dayEntries.length > MAX_DOTS && (
+                      <span className="text-[9px] leading-none text-gray-400">
+                        +{dayEntries.length - MAX_DOTS}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-300">
+            {selectedDay === today ? "Today · " : ""}
+            {formatDayHeading(keyDate(selectedDay))}
+          </h3>
+          {byDay.has(selectedDay) ? (
+            dayList(selectedDay)
+          ) : (
+            <p className="text-sm text-gray-500">Nothing planned.</p>
+          )}
+        </div>
+      )}
+
+      <EventModal event={selectedEvent} isOpen={isModalOpen} onClose={closeModal} />
+    </>
+  );
+}
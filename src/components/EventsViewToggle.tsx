@@ -0,0 +1,33 @@
+import { CalendarDays, LayoutGrid } from "lucide-react";
+import type { EventsView } from "../lib/agenda";
+
+interface EventsViewToggleProps {
+  view: EventsView;
+  onChange: (view: EventsView) => void;
+}
+
+const OPTIONS = [
+  { view: "list", label: "List", icon: LayoutGrid },
+  { view: "calendar", label: "Calendar", icon: CalendarDays },
+] as const;
+
+/** Switches the Applications and Saved tabs between their lists and the calendar. */
+export function EventsViewToggle({ view, onChange }: EventsViewToggleProps) {
+  return (
+    <div className="flex w-fit rounded-full border border-white/10 bg-white/5 p-0.5" role="group" aria-label="View">
+      {OPTIONS.map(({ view: option, label, icon: Icon }) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          aria-pressed={view === option}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-sm transition ${
+            view === option ? "bg-white/15 text-white" : "text-gray-400 hover:text-white"
+          }`}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
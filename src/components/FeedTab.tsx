@@ -1,102 +1,243 @@
-import { useState, useEffect, useRef, useMemo } from "react";
-import { Calendar, MapPin, Bookmark, Send, Eye } from "lucide-react";
-import { supabase } from "../lib/supabase";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import {
+  Calendar,
+  MapPin,
+  Bookmark,
+  Send,
+  Eye,
+  SlidersHorizontal,
+  Loader2,
+  Sparkles,
+  Undo2,
+  Clock,
+  CloudOff,
+  CalendarX,
+} from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
+import { useUserEvents } from "../contexts/useUserEvents";
 import { EventModal } from "./EventModal";
-
-interface Event {
-  id: string;
-  title: string;
-  description: string | null;
-  event_type: string | null;
-  organization: string | null;
-  location: string | null;
-  date: string;
-  deadline: string | null;
-  image_url: string | null;
-  prize: string | null;
-  tags: string[] | null;
-  link?: string | null;
-}
-
-interface SavedEvent {
-  event_id: string;
-}
-interface Application {
-  event_id: string;
-}
-
-const CATEGORY_KEYWORDS: Record<string, string[]> = {
-  "Career & Professional Development": [
-    "career", "job", "internship", "resume", "linkedin", "network", "employer", "career planning",
-  ],
-  "Wellness & Mental Health": [
-    "wellness", "mental", "therapy", "stress", "health", "mindfulness", "support", "care",
-  ],
-  "Workshops & Skill Building": [
-    "workshop", "training", "learn", "skillsets", "tutorial", "seminar", "session",
-  ],
-  "Social & Community Events": [
-    "social", "community", "mixer", "connect", "meetup", "hangout",
-  ],
-  "International Student Services": [
-    "international", "immigration", "iss", "visa", "global", "orientation",
-  ],
-  "Leadership & Personal Growth": [
-    "leadership", "mindset", "growth", "development", "imposter",
-  ],
-};
+import { EventSearchBar } from "./EventSearchBar";
+import { Highlight } from "./Highlight";
+import { FilterSheet } from "./FilterSheet";
+import { Toast } from "./Toast";
+import { WithdrawDialog } from "./WithdrawDialog";
+import { ClosingSoon } from "./ClosingSoon";
+import { DeadlineBadge } from "./DeadlineBadge";
+import { deadlineInfo } from "../lib/deadlines";
+import { formatEventStart } from "../lib/datetime";
+import {
+  fetchFeedFacets,
+  fetchFeedFilters,
+  fetchInterestNames,
+  saveFeedFilters,
+} from "../lib/repository";
+import type { ApplicationRow, ClassBlock, Event, FeedEvent } from "../lib/models";
+import { classClashes, loadClassBlocks } from "../lib/timetable";
+import { pendingByEvent, usePendingActions } from "../lib/eventActions";
+import { readCache, useOnlineStatus, writeCache } from "../lib/localCache";
+import { OfflineIndicator } from "./OfflineIndicator";
+import { downloadEventIcs } from "../lib/calendar";
+import {
+  EMPTY_FACETS,
+  EMPTY_FILTERS,
+  activeFilterCount,
+  type FacetCounts,
+  type FeedFilters,
+} from "../lib/feedFilters";
+import {
+  FEED_PAGE_SIZE,
+  fetchFeedPage,
+  type FeedCursor,
+  type FeedQuery,
+} from "../lib/feed";
 
 const stripHTML = (html?: string | null) =>
   (html ?? "").replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
 
-const normalize = (s?: string | null) =>
-  (s ?? "").toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
-
-function relevanceScore(ev: Event, interests: string[]) {
-  const text = normalize(
-    `${ev.title} ${stripHTML(ev.description)} ${ev.event_type ?? ""} ${ev.organization ?? ""}`
-  );
-  let score = 0;
-  for (const interest of interests) {
-    const kws = CATEGORY_KEYWORDS[interest] ?? [];
-    for (const kw of kws) if (text.includes(normalize(kw))) score += 3;
-  }
-  const d = new Date(ev.date).getTime();
-  if (!Number.isNaN(d)) score += Math.max(0, 1_000_000_000_000 - (Date.now() - d)) / 1e12;
-  return score;
-}
-
 export function FeedTab() {
   const { user } = useAuth();
-  const [events, setEvents] = useState<Event[]>([]);
-  const [savedEvents, setSavedEvents] = useState<Set<string>>(new Set());
-  const [appliedEvents, setAppliedEvents] = useState<Set<string>>(new Set());
+  const [interests, setInterests] = useState<string[] | null>(null);
+  const [events, setEvents] = useState<FeedEvent[]>([]);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
+  const {
+    saved: savedEvents,
+    applied: appliedEvents,
+    setSaved,
+    apply,
+    withdraw,
+    restore,
+  } = useUserEvents();
   const [loading, setLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [visibleCards, setVisibleCards] = useState<Set<string>>(new Set());
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [fadeState, setFadeState] = useState<"fade-in" | "fade-out">("fade-in");
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [filters, setFilters] = useState<FeedFilters>(EMPTY_FILTERS);
+  const [filtersLoaded, setFiltersLoaded] = useState(false);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [facets, setFacets] = useState<FacetCounts>(EMPTY_FACETS);
+  const [withdrawTarget, setWithdrawTarget] = useState<FeedEvent | null>(null);
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [classBlocks, setClassBlocks] = useState<ClassBlock[]>([]);
+  const [toast, setToast] = useState<{
+    message: string;
+    actionLabel?: string;
+    onAction?: () => void;
+  } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // When the shown feed came from the local cache instead of the network
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const online = useOnlineStatus();
+  const pending = usePendingActions(user?.id);
+  const pendingEvents = useMemo(() => pendingByEvent(pending), [pending]);
 
-  const scrollRef = useRef<HTMLDivElement | null>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
-  const eventsPerPage = 10;
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Bumped for every new first-page request so late responses for an old query are dropped
+  const requestRef = useRef(0);
+  // Set once a first page arrives from the network, so a slow cache read can't replace it
+  const freshRef = useRef(false);
+  const showingCacheRef = useRef(false);
+
+  useEffect(() => {
+    loadInterests();
+  }, [user, online]);
 
+  // Show the last feed right away; the network request below replaces it
   useEffect(() => {
-    loadEventsWithPreferences();
-    loadUserData();
+    if (!user) return;
+    readCache<FeedEvent[]>(user.id, "feed").then((cached) => {
+      if (!cached || freshRef.current) return;
+      showingCacheRef.current = true;
+      setEvents(cached.data);
+      setCursor(null);
+      setCachedAt(cached.updated_at);
+      setLoading(false);
+    });
   }, [user]);
 
-  const handlePageChange = (newPage: number) => {
-    setFadeState("fade-out");
-    setTimeout(() => {
-      setCurrentPage(newPage);
-      if (scrollRef.current) scrollRef.current.scrollTo({ top: 0, behavior: "smooth" });
-      setVisibleCards(new Set());
-      setFadeState("fade-in");
+  useEffect(() => {
+    if (!user) return;
+    loadClassBlocks(user.id)
+      .then(setClassBlocks)
+      .catch((err) => console.error("Error loading timetable:", err));
+  }, [user, online]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Restore the user's last filter selection
+  useEffect(() => {
+    if (!user) return;
+    setFiltersLoaded(false);
+    fetchFeedFilters(user.id)
+      .catch((err) => {
+        console.error("Error loading feed filters:", err);
+        return EMPTY_FILTERS;
+      })
+      .then((saved) => {
+        setFilters(saved);
+        setFiltersLoaded(true);
+      });
+  }, [user]);
+
+  // Persist changes, debounced so clicking through chips is a single write
+  useEffect(() => {
+    if (!user || !filtersLoaded) return;
+    const timer = setTimeout(() => {
+      saveFeedFilters(user.id, filters).catch((err) =>
+        console.error("Error saving feed filters:", err)
+      );
     }, 500);
-  };
+    return () => clearTimeout(timer);
+  }, [user, filters, filtersLoaded]);
+
+  const feedQuery = useMemo<FeedQuery | null>(
+    () =>
+      interests && filtersLoaded
+        ? {
+            interests,
+            filters,
+            query: debouncedQuery,
+          }
+        : null,
+    [interests, filtersLoaded, filters, debouncedQuery]
+  );
+
+  // First page + facet counts whenever interests, filters or the search change
+  useEffect(() => {
+    if (!feedQuery) return;
+    const request = ++requestRef.current;
+    // Only the unsearched, unfiltered feed is cached
+    const isDefault = !feedQuery.query && activeFilterCount(feedQuery.filters) === 0;
+    if (!(isDefault && showingCacheRef.current)) {
+      setLoading(true);
+      setVisibleCards(new Set());
+    }
+
+    fetchFeedPage(feedQuery, null)
+      .then((page) => {
+        if (request !== requestRef.current) return;
+        freshRef.current = true;
+        showingCacheRef.current = false;
+        setEvents(page.events);
+        setCursor(page.nextCursor);
+        setCachedAt(null);
+        if (isDefault && user) writeCache(user.id, "feed", page.events);
+      })
+      .catch(async (err) => {
+        if (request !== requestRef.current) return;
+        console.error("Error loading feed:", err);
+        const cached = isDefault && user ? await readCache<FeedEvent[]>(user.id, "feed") : null;
+        if (request !== requestRef.current) return;
+        showingCacheRef.current = !!cached;
+        setEvents(cached?.data ?? []);
+        setCursor(null);
+        setCachedAt(cached?.updated_at ?? null);
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoading(false);
+      });
+
+    fetchFeedFacets(feedQuery)
+      .then((f) => request === requestRef.current && setFacets(f))
+      .catch((err) => console.error("Error loading feed facets:", err));
+  }, [feedQuery, user]);
+
+  const loadMore = useCallback(async () => {
+    if (!feedQuery || !cursor || loadingMore) return;
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchFeedPage(feedQuery, cursor);
+      if (request !== requestRef.current) return;
+      setEvents((prev) => {
+        const shown = new Set(prev.map((e) => e.id));
+        return [...prev, ...page.events.filter((e) => !shown.has(e.id))];
+      });
+      setCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Error loading more events:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [feedQuery, cursor, loadingMore]);
+
+  // Infinite scroll: fetch the next page as the sentinel below the grid comes into view
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !cursor) return;
+    const observer = new IntersectionObserver(
+      (entries) => entries[0]?.isIntersecting && loadMore(),
+      { rootMargin: "400px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [cursor, loadMore]);
 
   useEffect(() => {
     observerRef.current = new IntersectionObserver(
@@ -113,90 +254,90 @@ export function FeedTab() {
       .querySelectorAll("[data-event-card]")
       .forEach((el) => observerRef.current?.observe(el));
     return () => observerRef.current?.disconnect();
-  }, [events, currentPage]);
+  }, [events]);
+
+  // Keeps deadline countdowns (and closed Apply buttons) current while the tab is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
 
-  const loadUserData = async () => {
+  const loadInterests = async () => {
     if (!user) return;
-    const [saved, applied] = await Promise.all([
-      supabase.from("saved_events").select("event_id").eq("user_id", user.id),
-      supabase.from("applications").select("event_id").eq("user_id", user.id),
-    ]);
-    if (saved.data) setSavedEvents(new Set(saved.data.map((x: SavedEvent) => x.event_id)));
-    if (applied.data)
-      setAppliedEvents(new Set(applied.data.map((x: Application) => x.event_id)));
+    try {
+      setInterests(await fetchInterestNames(user.id));
+    } catch (err) {
+      console.error("Error loading preferences:", err);
+      // Offline: keep what we have so the feed isn't refetched with no interests
+      setInterests((p) => p ?? []);
+    }
   };
 
-  const loadEventsWithPreferences = async () => {
-    setLoading(true);
+  const handleSave = async (id: string, ev: FeedEvent) => {
     try {
-      if (!user) return;
-      const { data: prefs } = await supabase
-        .from("user_preferences")
-        .select("interest_name")
-        .eq("user_id", user.id);
-      const interests = (prefs ?? []).map((p) => p.interest_name);
-      const { data: allEvents } = await supabase
-        .from("events")
-        .select("*")
-        .order("date", { ascending: true });
-
-      const now = new Date();
-      const upcoming = (allEvents ?? []).filter((e) => new Date(e.date) >= now);
-
-      const filtered = interests.length
-        ? upcoming.filter((ev) => {
-            const text = normalize(
-              `${ev.title} ${stripHTML(ev.description)} ${ev.event_type ?? ""} ${ev.organization ?? ""}`
-            );
-            return interests.some((i) => {
-              const kws = CATEGORY_KEYWORDS[i] ?? [];
-              return kws.some((k) => text.includes(normalize(k)));
-            });
-          })
-        : upcoming;
-
-      const ranked = filtered
-        .map((e) => ({ e, score: relevanceScore(e, interests) }))
-        .sort((a, b) => b.score - a.score)
-        .map(({ e }) => e);
-
-      setEvents(ranked);
-    } catch (e) {
-      console.error(e);
-    } finally {
-      setLoading(false);
+      await setSaved(ev, !savedEvents.has(id));
+    } catch (err) {
+      console.error("Error updating saved event:", err);
     }
   };
 
-  const handleSave = async (id: string) => {
-    if (!user) return;
-    if (savedEvents.has(id)) {
-      await supabase.from("saved_events").delete().eq("user_id", user.id).eq("event_id", id);
-      setSavedEvents((p) => {
-        const n = new Set(p);
-        n.delete(id);
-        return n;
+  const handleApply = async (id: string, ev: FeedEvent) => {
+    if (appliedEvents.has(id) || deadlineInfo(ev.deadline).state === "closed") return;
+    try {
+      const result = await apply(ev);
+      if (!result) return;
+      if (result.queued) {
+        setToast({ message: `You're offline. Your application to ${ev.title} will be sent when you reconnect` });
+        return;
+      }
+      const app = result.application;
+      setToast({
+        message: `Applied to ${ev.title}`,
+        ...(app && {
+          actionLabel: "Add to calendar",
+          onAction: () =>
+            downloadEventIcs(ev, {
+              uid: app.google_calendar_id,
+              sequence: app.calendar_sequence,
+              updatedAt: app.calendar_updated_at,
+            }),
+        }),
       });
-    } else {
-      await supabase.from("saved_events").insert({ user_id: user.id, event_id: id });
-      setSavedEvents((p) => new Set(p).add(id));
+    } catch (err) {
+      console.error("Error applying to event:", err);
     }
   };
 
-  const handleApply = async (id: string, ev: Event) => {
-    if (!user || appliedEvents.has(id)) return;
-    await supabase.from("applications").insert({ user_id: user.id, event_id: id });
-    setAppliedEvents((p) => new Set(p).add(id));
-    const start = new Date(ev.date);
-    const end = new Date(start.getTime() + 2 * 60 * 60 * 1000);
-    const fmt = (d: Date) =>
-      d.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
-    const url = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${encodeURIComponent(
-      ev.title
-    )}&dates=${fmt(start)}/${fmt(end)}&details=${encodeURIComponent(
-      stripHTML(ev.description)
-    )}`;
-    window.open(url, "_blank");
+  const confirmWithdraw = async () => {
+    if (!withdrawTarget) return;
+    setWithdrawing(true);
+    try {
+      const target = withdrawTarget;
+      const result = await withdraw(target);
+      const row = result.queued ? null : result.application;
+      setToast({
+        message: result.queued
+          ? `You're offline. Withdrawing from ${target.title} will sync when you reconnect`
+          : `Withdrew from ${target.title}`,
+        actionLabel: "Undo",
+        onAction: () => undoWithdraw(row, target),
+      });
+      setWithdrawTarget(null);
+    } catch (err) {
+      console.error("Error withdrawing application:", err);
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  // A queued withdrawal has no deleted row to restore; re-applying cancels it out of the queue
+  const undoWithdraw = async (row: ApplicationRow | null, ev: FeedEvent) => {
+    try {
+      if (row) await restore(row);
+      else await apply(ev, { checkClashes: false });
+    } catch (err) {
+      console.error("Error restoring application:", err);
+    }
   };
 
   const openModal = (ev: Event) => {
@@ -208,22 +349,17 @@ export function FeedTab() {
     setTimeout(() => setSelectedEvent(null), 250);
   };
 
-  const totalPages = useMemo(() => Math.ceil(events.length / eventsPerPage), [events]);
-  const pageSlice = useMemo(() => {
-    const start = currentPage * eventsPerPage;
-    return events.slice(start, start + eventsPerPage);
-  }, [events, currentPage]);
-
-  const formatDate = (iso: string) =>
-    new Date(iso).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
+  const clashesByEvent = useMemo(
+    () => new Map(events.map((ev) => [ev.id, classClashes(ev, classBlocks)])),
+    [events, classBlocks]
+  );
+
+  const filterCount = activeFilterCount(filters);
+  const searching = query.trim() !== debouncedQuery || (loading && !!debouncedQuery);
 
   return (
     <>
-      <div ref={scrollRef} className="flex-1 overflow-y-auto pb-24 bg-[#0B0C10]">
+      <div className="flex-1 overflow-y-auto pb-24 bg-[#0B0C10]">
         {/* Header */}
         <div className="relative overflow-hidden px-6 pt-10 pb-12 bg-[#0B0C10]/80 backdrop-blur z-10">
           <div className="absolute inset-0 overflow-hidden">
@@ -239,25 +375,64 @@ export function FeedTab() {
               Find events that match your interests
             </p>
             <div className="mt-6 h-[1px] w-48 mx-auto bg-gradient-to-r from-[#00BFFF]/0 via-[#00BFFF]/60 to-[#00BFFF]/0 rounded-full" />
+            <div className="mt-6 flex items-center gap-3 max-w-xl mx-auto">
+              <EventSearchBar value={query} onChange={setQuery} searching={searching} />
+              <button
+                onClick={() => setIsFilterOpen(true)}
+                aria-label="Filters"
+                className={`relative p-3 rounded-2xl border transition-all ${
+                  filterCount
+                    ? "border-[#00BFFF]/60 bg-[#00BFFF]/10 text-[#00BFFF]"
+                    : "border-white/10 bg-white/5 text-gray-300 hover:border-white/30"
+                }`}
+              >
+                <SlidersHorizontal className="w-5 h-5" />
+                {filterCount > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 min-w-[20px] h-5 px-1 rounded-full bg-[#00BFFF] text-[11px] font-bold text-[#0B0C10] flex items-center justify-center">
+                    {filterCount}
+                  </span>
+                )}
+              </button>
+            </div>
+            {debouncedQuery && !loading && (
+              <p className="mt-3 text-sm text-gray-400">
+                {facets.total} {facets.total === 1 ? "result" : "results"} for{" "}
+                <span className="text-white">“{debouncedQuery}”</span>
+              </p>
+            )}
+            {filterCount > 0 && (
+              <p className="mt-2 text-sm text-gray-400">
+                {filterCount} {filterCount === 1 ? "filter" : "filters"} active ·{" "}
+                <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-[#00BFFF] hover:underline">
+                  Clear
+                </button>
+              </p>
+            )}
+            <OfflineIndicator cachedAt={cachedAt} className="mt-4" />
           </div>
         </div>
 
+        {!debouncedQuery && filterCount === 0 && interests && (
+          <ClosingSoon now={now} onSelect={openModal} />
+        )}
+
         {/* Events */}
         {loading ? (
           <div className="flex items-center justify-center h-48 text-white">Loading...</div>
         ) : events.length === 0 ? (
           <div className="flex items-center justify-center h-48 text-gray-400">
-            No matching events found.
+            {debouncedQuery
+              ? "No events match your search."
+              : filterCount
+                ? "No events match these filters."
+                : "No matching events found."}
           </div>
         ) : (
-          <div
-            className={`px-6 py-8 grid grid-cols-1 sm:grid-cols-2 gap-6 transition-opacity duration-500 ease-[cubic-bezier(0.4,0,0.2,1)] ${
-              fadeState === "fade-in" ? "opacity-100" : "opacity-0"
-            }`}
-          >
-            {pageSlice.map((ev, idx) => {
+          <div className="px-6 py-8 grid grid-cols-1 sm:grid-cols-2 gap-6">
+            {events.map((ev, idx) => {
               const isSaved = savedEvents.has(ev.id);
               const isApplied = appliedEvents.has(ev.id);
+              const isClosed = deadlineInfo(ev.deadline, now).state === "closed";
               const id = `event-${ev.id}`;
               const visible = visibleCards.has(id);
               const bg = ev.image_url
@@ -276,7 +451,7 @@ export function FeedTab() {
                     hover:border-[#00BFFF]/50
                     ${visible ? "opacity-100 translate-y-0" : "opacity-0 translate-y-6"}`}
                   style={{
-                    transitionDelay: `${idx * 60}ms`,
+                    transitionDelay: `${(idx % FEED_PAGE_SIZE) * 60}ms`,
                     backgroundImage: bg,
                     backgroundSize: ev.image_url ? "cover" : "auto",
                     backgroundPosition: "center",
@@ -285,24 +460,51 @@ export function FeedTab() {
                   <div className="absolute inset-0 bg-black/60" />
                   <div className="relative z-10 p-5 h-full flex flex-col justify-between">
                     <div>
-                      <h3 className="text-xl font-bold text-white mb-1">{ev.title}</h3>
+                      <h3 className="text-xl font-bold text-white mb-1">
+                        {ev.title_highlight ? <Highlight text={ev.title_highlight} /> : ev.title}
+                      </h3>
                       {ev.organization && (
                         <p className="text-gray-300 text-sm mb-2">{ev.organization}</p>
                       )}
+                      {ev.reason_title && (
+                        <p className="flex items-center gap-1.5 text-xs text-[#00BFFF] mb-2">
+                          <Sparkles className="w-3.5 h-3.5 shrink-0" />
+                          <span className="line-clamp-1">
+                            Because you {ev.reason_kind === "applied" ? "applied to" : "saved"}{" "}
+                            {ev.reason_title}
+                          </span>
+                        </p>
+                      )}
                       <p className="text-gray-300 text-sm line-clamp-3">
-                        {stripHTML(ev.description)}
+                        {ev.description_highlight ? (
+                          <Highlight text={ev.description_highlight} />
+                        ) : (
+                          stripHTML(ev.description)
+                        )}
                       </p>
                     </div>
 
                     <div className="mt-4 space-y-2">
                       <div className="flex items-center gap-2 text-gray-300 text-sm">
                         <Calendar className="w-4 h-4" />{" "}
-                        <span>{formatDate(ev.date)}</span>
+                        <span>{formatEventStart(ev)}</span>
                       </div>
                       <div className="flex items-center gap-2 text-gray-300 text-sm">
                         <MapPin className="w-4 h-4" />{" "}
                         <span>{ev.location ?? "McGill University"}</span>
                       </div>
+                      <DeadlineBadge deadline={ev.deadline} now={now} />
+                      {clashesByEvent.get(ev.id)?.slice(0, 1).map((b) => (
+                        <div key={b.id} className="flex items-center gap-2 text-rose-300 text-sm">
+                          <CalendarX className="w-4 h-4" />{" "}
+                          <span className="line-clamp-1">Clashes with {b.title}</span>
+                        </div>
+                      ))}
+                      {pendingEvents.has(ev.id) && (
+                        <div className="flex items-center gap-2 text-amber-300 text-sm">
+                          <CloudOff className="w-4 h-4" /> <span>Waiting to sync</span>
+                        </div>
+                      )}
                     </div>
 
                     <div className="mt-4 space-y-2">
@@ -313,24 +515,38 @@ export function FeedTab() {
                         <Eye className="w-4 h-4" /> View Details
                       </button>
                       <button
-                        onClick={() => handleApply(ev.id, ev)}
-                        disabled={isApplied}
+                        onClick={() => (isApplied ? setWithdrawTarget(ev) : handleApply(ev.id, ev))}
+                        disabled={!isApplied && isClosed}
                         className={`w-full py-3 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all
                           ${
                             isApplied
-                              ? "bg-white/10 text-gray-400 cursor-not-allowed"
-                              : "bg-black/40 hover:bg-black/60 text-white"
+                              ? "bg-white/10 text-gray-400 hover:bg-rose-500/20 hover:text-rose-300"
+                              : isClosed
+                                ? "bg-white/10 text-gray-400 cursor-not-allowed"
+                                : "bg-black/40 hover:bg-black/60 text-white"
                           }`}
                       >
-                        <Send className="w-4 h-4" /> {isApplied ? "Applied" : "Apply"}
+                        {isApplied ? (
+                          <>
+                            <Undo2 className="w-4 h-4" /> Applied · Withdraw
+                          </>
+                        ) : isClosed ? (
+                          <>
+                            <Clock className="w-4 h-4" /> Applications closed
+                          </>
+                        ) : (
+                          <>
+                            <Send className="w-4 h-4" /> Apply
+                          </>
+                        )}
                       </button>
                     </div>
                   </div>
                   <button
-                    onClick={() => handleSave(ev.id)}
+                    onClick={() => handleSave(ev.id, ev)}
                     className={`absolute top-3 right-3 z-10 p-2 rounded-full transition-all duration-300 
                       ${
-                        savedEvents.has(ev.id)
+                        isSaved
                           ? "bg-[#00BFFF]/20 hover:bg-[#00BFFF]/30"
                           : "bg-black/40 hover:bg-black/70 backdrop-blur-sm"
                       }`}
@@ -338,7 +554,7 @@ export function FeedTab() {
                     <Bookmark
                       className={`w-5 h-5 transition-transform duration-300 
                         ${
-                          savedEvents.has(ev.id)
+                          isSaved
                             ? "fill-[#00BFFF] text-[#00BFFF] scale-110"
                             : "text-white scale-100"
                         }`}
@@ -350,36 +566,40 @@ export function FeedTab() {
           </div>
         )}
 
-        {/* ✅ Pagination */}
-        {totalPages > 1 && (
-          <div className="flex items-center justify-center gap-3 pb-6">
-            {currentPage > 0 && (
-              <button
-                onClick={() => handlePageChange(Math.max(0, currentPage - 1))}
-                className="bg-white/5 text-white px-5 py-3 rounded-xl hover:bg-white/10 transition"
-              >
-                Previous
-              </button>
-            )}
-            <p className="text-gray-400 text-sm">
-              Page {currentPage + 1} of {totalPages}
-            </p>
-            {currentPage + 1 < totalPages && (
-              <button
-                onClick={() => handlePageChange(Math.min(totalPages - 1, currentPage + 1))}
-                className="bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] text-white px-6 py-3 rounded-xl hover:opacity-90 transition"
-              >
-                Next
-              </button>
-            )}
+        {/* Infinite scroll */}
+        {!loading && cursor && (
+          <div ref={sentinelRef} className="flex justify-center pb-8 text-gray-400">
+            {loadingMore && <Loader2 className="w-6 h-6 animate-spin text-[#00BFFF]" />}
           </div>
         )}
+        {!loading && !cursor && events.length > FEED_PAGE_SIZE && (
+          <p className="pb-8 text-center text-sm text-gray-500">You're all caught up</p>
+        )}
       </div>
 
-      <EventModal event={selectedEvent} isOpen={isModalOpen} onClose={closeModal} />
+      <EventModal
+        event={selectedEvent}
+        isOpen={isModalOpen}
+        onClose={closeModal}
+      />
+
+      <WithdrawDialog
+        eventTitle={withdrawTarget?.title ?? null}
+        busy={withdrawing}
+        onConfirm={confirmWithdraw}
+        onCancel={() => setWithdrawTarget(null)}
+      />
+
+      {toast && <Toast {...toast} onDismiss={() => setToast(null)} />}
+      <FilterSheet
+        isOpen={isFilterOpen}
+        filters={filters}
+        facets={facets}
+        resultCount={facets.total}
+        hasTimetable={classBlocks.length > 0}
+        onChange={setFilters}
+        onClose={() => setIsFilterOpen(false)}
+      />
     </>
   );
 }
-
-
-
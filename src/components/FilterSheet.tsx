@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { X } from "lucide-react";
+import {
+  DATE_PRESET_LABELS,
+  DEADLINE_LABELS,
+  EMPTY_FILTERS,
+  type DatePreset,
+  type DeadlineOption,
+  type FacetCounts,
+  type FacetValue,
+  type FeedFilters,
+} from "../lib/feedFilters";
+
+interface FilterSheetProps {
+  isOpen: boolean;
+  filters: FeedFilters;
+  facets: FacetCounts;
+  resultCount: number;
+  /** Whether the user has any classes to clash with. */
+  hasTimetable: boolean;
+  onChange: (filters: FeedFilters) => void;
+  onClose: () => void;
+}
+
+type ListFacet = "eventTypes" | "organizations" | "locations" | "tags";
+
+const COLLAPSED_LIMIT = 8;
+
+function Chip({
+  label,
+  count,
+  selected,
+  onClick,
+}: {
+  label: string;
+  count: number;
+  selected: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={!selected && count === 0}
+      className={`px-3 py-1.5 rounded-full text-sm border transition-all flex items-center gap-1.5
+        disabled:opacity-30 disabled:cursor-not-allowed
+        ${
+          selected
+            ? "bg-gradient-to-r from-[#00BFFF]/25 to-[#4C6EF5]/25 border-[#00BFFF] text-white"
+            : "bg-white/5 border-white/10 text-gray-300 hover:border-white/30"
+        }`}
+    >
+      <span>{label}</span>
+      <span className={selected ? "text-[#00BFFF]" : "text-gray-500"}>{count}</span>
+    </button>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border-t border-gray-800 pt-5">
+      <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-400">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+export function FilterSheet({
+  isOpen,
+  filters,
+  facets,
+  resultCount,
+  hasTimetable,
+  onChange,
+  onClose,
+}: FilterSheetProps) {
+  const [expanded, setExpanded] = useState<Set<ListFacet>>(new Set());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const toggleValue = (key: ListFacet, value: string) => {
+    const current = filters[key];
+    onChange({
+      ...filters,
+      [key]: current.includes(value) ? current.filter((v) => v !== value) : [...current, value],
+    });
+  };
+
+  const renderList = (key: ListFacet, title: string, values: FacetValue[]) => {
+    // Keep selected values visible even if the other facets narrowed them to zero
+    const merged = [
+      ...values,
+      ...filters[key]
+        .filter((v) => !values.some((x) => x.value === v))
+        .map((value) => ({ value, count: 0 })),
+    ];
+    if (!merged.length) return null;
+    const showAll = expanded.has(key);
+    const visible = showAll ? merged : merged.slice(0, COLLAPSED_LIMIT);
+    return (
+      <Section title={title}>
+        <div className="flex flex-wrap gap-2">
+          {visible.map((v) => (
+            <Chip
+              key={v.value}
+              label={v.value}
+              count={v.count}
+              selected={filters[key].includes(v.value)}
+              onClick={() => toggleValue(key, v.value)}
+            />
+          ))}
+        </div>
+        {merged.length > COLLAPSED_LIMIT && (
+          <button
+            onClick={() =>
+              setExpanded((p) => {
+                const n = new Set(p);
+                if (showAll) n.delete(key);
+                else n.add(key);
+                return n;
+              })
+            }
+            className="mt-3 text-sm text-[#00BFFF] hover:underline"
+          >
+            {showAll ? "Show less" : `Show all ${merged.length}`}
+          </button>
+        )}
+      </Section>
+    );
+  };
+
+  const sheet = (
+    <div className="fixed inset-0 z-[9999] flex items-end sm:items-center justify-center animate-fadeIn" role="dialog" aria-modal="true">
+      <button
+        aria-label="Close filters"
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-md cursor-default"
+      />
+
+      <div
+        className="relative w-full max-w-2xl rounded-t-3xl sm:rounded-3xl border border-gray-800 bg-[#1a1d29] shadow-2xl animate-slideUp flex flex-col"
+        style={{ maxHeight: "85vh" }}
+      >
+        <div className="flex items-center justify-between px-6 pt-5 pb-4">
+          <h2 className="text-xl font-bold text-white">Filters</h2>
+          <button
+            onClick={onClose}
+            className="rounded-full bg-black/40 p-2 transition-colors hover:bg-black/70"
+          >
+            <X className="h-5 w-5 text-white" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-5">
+          <Section title="When">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(DATE_PRESET_LABELS) as DatePreset[]).map((p) => (
+                <Chip
+                  key={p}
+                  label={DATE_PRESET_LABELS[p]}
+                  count={facets.datePresets[p]}
+                  selected={filters.datePreset === p && !filters.dateFrom && !filters.dateTo}
+                  onClick={() =>
+                    onChange({
+                      ...filters,
+                      datePreset: filters.datePreset === p ? null : p,
+                      dateFrom: null,
+                      dateTo: null,
+                    })
+                  }
+                />
+              ))}
+            </div>
+            <div className="mt-4 grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-400">
+                From
+                <input
+                  type="date"
+                  value={filters.dateFrom ?? ""}
+                  onChange={(e) =>
+                    onChange({ ...filters, datePreset: null, dateFrom: e.target.value || null })
+                  }
+                  className="mt-1 w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-white [color-scheme:dark]"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                To
+                <input
+                  type="date"
+                  value={filters.dateTo ?? ""}
+                  min={filters.dateFrom ?? undefined}
+                  onChange={(e) =>
+                    onChange({ ...filters, datePreset: null, dateTo: e.target.value || null })
+                  }
+                  className="mt-1 w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-white [color-scheme:dark]"
+                />
+              </label>
+            </div>
+          </Section>
+
+          <Section title="Deadline">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(DEADLINE_LABELS) as DeadlineOption[]).map((d) => (
+                <Chip
+                  key={d}
+                  label={DEADLINE_LABELS[d]}
+                  count={facets.deadlines[d]}
+                  selected={filters.deadline === d}
+                  onClick={() =>
+                    onChange({ ...filters, deadline: filters.deadline === d ? null : d })
+                  }
+                />
+              ))}
+            </div>
+          </Section>
+
+          <Section title="My schedule">
+            <button
+              onClick={() => onChange({ ...filters, hideClashes: !filters.hideClashes })}
+              disabled={!hasTimetable && !filters.hideClashes}
+              aria-pressed={filters.hideClashes}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-all
+                disabled:opacity-30 disabled:cursor-not-allowed
+                ${
+                  filters.hideClashes
+                    ? "bg-gradient-to-r from-[#00BFFF]/25 to-[#4C6EF5]/25 border-[#00BFFF] text-white"
+                    : "bg-white/5 border-white/10 text-gray-300 hover:border-white/30"
+                }`}
+            >
+              Hide events during my classes
+            </button>
+            {!hasTimetable && (
+              <p className="mt-2 text-xs text-gray-500">
+                Add your class timetable from your profile settings to use this.
+              </p>
+            )}
+          </Section>
+
+          {renderList("eventTypes", "Event type", facets.eventTypes)}
+          {renderList("organizations", "Organization", facets.organizations)}
+          {renderList("locations", "Location", facets.locations)}
+          {renderList("tags", "Tags", facets.tags)}
+        </div>
+
+        <div className="flex gap-3 border-t border-gray-800 px-6 py-4">
+          <button
+            onClick={() => onChange(EMPTY_FILTERS)}
+            className="px-5 py-3 rounded-xl bg-white/5 text-gray-300 hover:bg-white/10 transition"
+          >
+            Clear all
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] hover:opacity-90 transition"
+          >
+            Show {resultCount} {resultCount === 1 ? "event" : "events"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(sheet, document.body);
+}
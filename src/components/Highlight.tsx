@@ -0,0 +1,25 @@
+// Must match the StartSel/StopSel used by ts_headline in search_events()
+const START = "⟦";
+const STOP = "⟧";
+
+interface HighlightProps {
+  text: string;
+}
+
+/** Renders a ts_headline snippet, turning ⟦marked⟧ terms into <mark> elements. */
+export function Highlight({ text }: HighlightProps) {
+  const parts = text.split(new RegExp(`(${START}[^${STOP}]*${STOP})`, "g"));
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.startsWith(START) && part.endsWith(STOP) ? (
+          <mark key={i} className="bg-[#00BFFF]/30 text-white rounded px-0.5">
+            {part.slice(START.length, -STOP.length)}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -53,8 +53,8 @@ export function LoginScreen() {
       } else {
         await signInWithEmail(email, password);
       }
-    } catch (err: any) {
-      setError(err.message || 'Authentication failed. Try again.');
+    } catch (err) {
+      setError((err instanceof Error && err.message) || 'Authentication failed. Try again.');
       console.error(err);
     } finally {
       setLoading(false);
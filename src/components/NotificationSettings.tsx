@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { BellOff, BellRing, Loader2, X } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { userTimeZone } from "../lib/datetime";
+import { enablePushNotifications, pushSupported } from "../lib/push";
+import {
+  CHANNEL_LABELS,
+  KIND_LABELS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_KINDS,
+  defaultPreferences,
+  loadNotificationPreferences,
+  saveNotificationPreferences,
+  type NotificationChannel,
+  type NotificationKind,
+  type NotificationPreferences,
+} from "../lib/notificationPreferences";
+
+interface NotificationSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DEFAULT_QUIET_START = "22:00";
+const DEFAULT_QUIET_END = "07:00";
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border-t border-gray-800 pt-5">
+      <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-400">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function Switch({
+  checked,
+  label,
+  onChange,
+}: {
+  checked: boolean;
+  label: string;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={() => onChange(!checked)}
+      className={`relative h-6 w-11 shrink-0 rounded-full transition-colors ${
+        checked ? "bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5]" : "bg-white/10"
+      }`}
+    >
+      <span
+        className={`absolute top-0.5 left-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform ${
+          checked ? "translate-x-5" : ""
+        }`}
+      />
+    </button>
+  );
+}
+
+const currentPermission = (): NotificationPermission | "unsupported" =>
+  pushSupported() ? Notification.permission : "unsupported";
+
+export function NotificationSettings({ isOpen, onClose }: NotificationSettingsProps) {
+  const { user } = useAuth();
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [permission, setPermission] = useState(currentPermission);
+  const [requesting, setRequesting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    setPermission(currentPermission());
+    setDirty(false);
+    loadNotificationPreferences(user.id)
+      .then(setPrefs)
+      .catch((err) => {
+        console.error("Error loading notification preferences:", err);
+        setPrefs(defaultPreferences());
+      });
+  }, [isOpen, user]);
+
+  // Persist changes, debounced so flipping several switches is a single write
+  useEffect(() => {
+    if (!user || !prefs || !dirty) return;
+    const timer = setTimeout(() => {
+      saveNotificationPreferences(user.id, prefs).catch((err) =>
+        console.error("Error saving notification preferences:", err)
+      );
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [user, prefs, dirty]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const update = (next: NotificationPreferences) => {
+    setPrefs(next);
+    setDirty(true);
+  };
+
+  // The only place the app asks for notification permission
+  const allowNotifications = async () => {
+    setRequesting(true);
+    try {
+      setPermission(await enablePushNotifications());
+    } catch (err) {
+      console.error("Error enabling push notifications:", err);
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const toggle = (kind: NotificationKind, channel: NotificationChannel, on: boolean) => {
+    if (!prefs) return;
+    update({
+      ...prefs,
+      channels: { ...prefs.channels, [kind]: { ...prefs.channels[kind], [channel]: on } },
+    });
+    if (channel === "push" && on && permission === "default") allowNotifications();
+  };
+
+  const quietHoursOn = !!prefs?.quietHoursStart && !!prefs.quietHoursEnd;
+
+  const permissionNotice = {
+    unsupported: {
+      text: "This browser doesn't support push notifications.",
+      icon: BellOff,
+    },
+    denied: {
+      text: "Notifications are blocked for vybin. Allow them in your browser's site settings to get push alerts.",
+      icon: BellOff,
+    },
+    default: {
+      text: "Allow notifications on this device to get push alerts.",
+      icon: BellRing,
+    },
+    granted: {
+      text: "Push notifications are on for this device.",
+      icon: BellRing,
+    },
+  }[permission];
+  const PermissionIcon = permissionNotice.icon;
+
+  const sheet = (
+    <div className="fixed inset-0 z-[9999] flex items-end sm:items-center justify-center animate-fadeIn" role="dialog" aria-modal="true">
+      <button
+        aria-label="Close notification settings"
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-md cursor-default"
+      />
+
+      <div
+        className="relative w-full max-w-2xl rounded-t-3xl sm:rounded-3xl border border-gray-800 bg-[#1a1d29] shadow-2xl animate-slideUp flex flex-col"
+        style={{ maxHeight: "85vh" }}
+      >
+        <div className="flex items-center justify-between px-6 pt-5 pb-4">
+          <h2 className="text-xl font-bold text-white">Notifications</h2>
+          <button
+            onClick={onClose}
+            className="rounded-full bg-black/40 p-2 transition-colors hover:bg-black/70"
+          >
+            <X className="h-5 w-5 text-white" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-5">
+          <div className="flex items-start gap-3 rounded-2xl bg-white/5 border border-white/10 p-4">
+            <PermissionIcon
+              className={`h-5 w-5 mt-0.5 shrink-0 ${
+                permission === "granted" ? "text-[#00BFFF]" : "text-gray-400"
+              }`}
+            />
+            <div className="flex-1">
+              <p className="text-sm text-gray-300">{permissionNotice.text}</p>
+              {permission === "default" && (
+                <button
+                  onClick={allowNotifications}
+                  disabled={requesting}
+                  className="mt-3 px-4 py-2 rounded-xl text-sm font-semibold text-white bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] hover:opacity-90 transition disabled:opacity-50 flex items-center gap-2"
+                >
+                  {requesting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Allow notifications
+                </button>
+              )}
+            </div>
+          </div>
+
+          {!prefs ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 text-[#00BFFF] animate-spin" />
+            </div>
+          ) : (
+            <>
+              {NOTIFICATION_KINDS.map((kind) => (
+                <Section key={kind} title={KIND_LABELS[kind].title}>
+                  <p className="-mt-1 mb-3 text-sm text-gray-500">{KIND_LABELS[kind].description}</p>
+                  <div className="space-y-3">
+                    {NOTIFICATION_CHANNELS.map((channel) => (
+                      <div key={channel} className="flex items-center justify-between">
+                        <span className="text-sm text-gray-200">{CHANNEL_LABELS[channel]}</span>
+                        <Switch
+                          checked={prefs.channels[kind][channel]}
+                          label={`${KIND_LABELS[kind].title}: ${CHANNEL_LABELS[channel]}`}
+                          onChange={(on) => toggle(kind, channel, on)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </Section>
+              ))}
+
+              <Section title="Quiet hours">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-200">Pause push notifications</span>
+                  <Switch
+                    checked={quietHoursOn}
+                    label="Quiet hours"
+                    onChange={(on) =>
+                      update({
+                        ...prefs,
+                        quietHoursStart: on ? DEFAULT_QUIET_START : null,
+                        quietHoursEnd: on ? DEFAULT_QUIET_END : null,
+                        // Quiet hours follow the zone the user set them up in
+                        timezone: on ? userTimeZone() : prefs.timezone,
+                      })
+                    }
+                  />
+                </div>
+                {quietHoursOn && (
+                  <>
+                    <div className="mt-4 grid grid-cols-2 gap-3">
+                      <label className="text-xs text-gray-400">
+                        From
+                        <input
+                          type="time"
+                          value={prefs.quietHoursStart ?? ""}
+                          onChange={(e) =>
+                            e.target.value && update({ ...prefs, quietHoursStart: e.target.value })
+                          }
+                          className="mt-1 w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-white [color-scheme:dark]"
+                        />
+                      </label>
+                      <label className="text-xs text-gray-400">
+                        To
+                        <input
+                          type="time"
+                          value={prefs.quietHoursEnd ?? ""}
+                          onChange={(e) =>
+                            e.target.value && update({ ...prefs, quietHoursEnd: e.target.value })
+                          }
+                          className="mt-1 w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-white [color-scheme:dark]"
+                        />
+                      </label>
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500">
+                      In {prefs.timezone}. In-app notifications and email digests still arrive.
+                    </p>
+                  </>
+                )}
+              </Section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(sheet, document.body);
+}
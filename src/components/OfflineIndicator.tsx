@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { CloudOff, History } from "lucide-react";
+import { useOnlineStatus } from "../lib/localCache";
+import { formatTimeAgo } from "../lib/datetime";
+
+interface OfflineIndicatorProps {
+  /** When the shown data was cached; null while it is fresh from the network. */
+  cachedAt: string | null;
+  className?: string;
+}
+
+/** Tells the user they are offline or looking at a saved copy, and how old it is. */
+export function OfflineIndicator({ cachedAt, className = "" }: OfflineIndicatorProps) {
+  const online = useOnlineStatus();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (online && !cachedAt) return null;
+
+  const updated = cachedAt && `Last updated ${formatTimeAgo(cachedAt, now)}`;
+  return (
+    <div
+      role="status"
+      className={`${className} mx-auto flex w-fit items-center gap-2 rounded-full border px-3 py-1.5 text-xs font-medium ${
+        online
+          ? "border-white/10 bg-white/5 text-gray-300"
+          : "border-amber-400/30 bg-amber-400/10 text-amber-300"
+      }`}
+    >
+      {online ? <History className="h-3.5 w-3.5" /> : <CloudOff className="h-3.5 w-3.5" />}
+      {online ? updated : updated ? `Offline · ${updated}` : "Offline"}
+    </div>
+  );
+}
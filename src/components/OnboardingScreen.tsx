@@ -1,14 +1,14 @@
 import { useState, useEffect } from 'react';
 import { ChevronRight } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import {
+  fetchInterestNames,
+  fetchInterests,
+  replaceInterestNames,
+  updateProfile,
+} from '../lib/repository';
+import type { Interest } from '../lib/models';
 import { useAuth } from '../contexts/AuthContext';
 
-interface Interest {
-  id: string;
-  name: string;
-  icon: string;
-}
-
 interface OnboardingScreenProps {
   onComplete: () => void;
 }
@@ -22,31 +22,23 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
 
   useEffect(() => {
     if (!user) return;
-    loadInterestsAndPrefs();
+    loadInterestsAndPrefs(user.id);
   }, [user]);
 
   // ✅ Load all interests AND user's saved preferences
-  const loadInterestsAndPrefs = async () => {
+  const loadInterestsAndPrefs = async (userId: string) => {
     try {
-      const [{ data: allInterests }, { data: prefs }] = await Promise.all([
-        supabase.from('interests').select('*').order('name'),
-        supabase
-          .from('user_preferences')
-          .select('interest_name')
-          .eq('user_id', user?.id)
+      const [allInterests, prefs] = await Promise.all([
+        fetchInterests(),
+        fetchInterestNames(userId),
       ]);
 
-      setInterests(allInterests || []);
+      setInterests(allInterests);
 
-      if (prefs && prefs.length > 0) {
+      if (prefs.length > 0) {
+        const picked = new Set(prefs.map((name) => name.trim().toLowerCase()));
         const matched = allInterests
-          ?.filter((i) =>
-            prefs.some(
-              (p) =>
-                p.interest_name.trim().toLowerCase() ===
-                i.name.trim().toLowerCase()
-            )
-          )
+          .filter((i) => picked.has(i.name.trim().toLowerCase()))
           .map((i) => i.id);
 
         setSelectedInterests(new Set(matched));
@@ -74,30 +66,15 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
     try {
       setSaving(true);
 
-      const selectedInterestNames = Array.from(selectedInterests)
-        .map((id) => interests.find((i) => i.id === id)?.name)
-        .filter(Boolean);
+      const selectedInterestNames = interests
+        .filter((i) => selectedInterests.has(i.id))
+        .map((i) => i.name);
 
       // Replace instead of append
-      await supabase.from('user_preferences').delete().eq('user_id', user.id);
-
-      const rows = selectedInterestNames.map((name) => ({
-        user_id: user.id,
-        interest_name: name,
-      }));
-
-      if (rows.length) {
-        const { error } = await supabase
-          .from('user_preferences')
-          .insert(rows);
-        if (error) throw error;
-      }
+      await replaceInterestNames(user.id, selectedInterestNames);
 
       // Mark profile as onboarded if needed
-      await supabase
-        .from('profiles')
-        .update({ onboarded: true })
-        .eq('id', user.id);
+      await updateProfile(user.id, { onboarded: true });
 
       onComplete();
     } catch (error) {
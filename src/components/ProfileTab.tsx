@@ -8,28 +8,39 @@ import {
   Trash2,
   Eye,
   CheckCircle,
+  CheckCheck,
+  GraduationCap,
   X,
 } from "lucide-react";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import { createProfile, fetchProfile, updateProfile, uploadAvatar } from "../lib/repository";
+import type { AppNotification, Profile } from "../lib/models";
+import { formatTimeAgo } from "../lib/datetime";
+import { notificationEventId, type NotificationInbox } from "../lib/notifications";
+import { NotificationSettings } from "./NotificationSettings";
+import { TimetableSheet } from "./TimetableSheet";
 
 const DEFAULT_AVATAR =
   "https://cdn-icons-png.flaticon.com/512/847/847969.png";
 
 interface ProfileTabProps {
   onEditPreferences: () => void;
+  inbox: NotificationInbox;
+  onOpenEvent: (eventId: string) => void;
 }
 
-export function ProfileTab({ onEditPreferences }: ProfileTabProps) {
+export function ProfileTab({ onEditPreferences, inbox, onOpenEvent }: ProfileTabProps) {
   const { user, signOut: contextSignOut } = useAuth();
-  const [profile, setProfile] = useState<any>(null);
-  const [notifications, setNotifications] = useState<any[]>([]);
+  const [profile, setProfile] = useState<Partial<Profile> | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showCameraMenu, setShowCameraMenu] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [signingOut, setSigningOut] = useState(false);
   const [uploadSuccess, setUploadSuccess] = useState(false);
   const [showAvatarModal, setShowAvatarModal] = useState(false);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
+  const [showTimetable, setShowTimetable] = useState(false);
 
   const settingsRef = useRef<HTMLDivElement | null>(null);
   const cameraRef = useRef<HTMLDivElement | null>(null);
@@ -40,17 +51,14 @@ export function ProfileTab({ onEditPreferences }: ProfileTabProps) {
     if (!user) return;
     const cachedAvatar = localStorage.getItem(`avatar_url_${user.id}`);
     if (cachedAvatar) {
-      setProfile((prev: any) => ({ ...prev, avatar_url: cachedAvatar }));
+      setProfile((prev) => ({ ...prev, avatar_url: cachedAvatar }));
     }
   }, [user]);
 
 
-  // Load profile and notifications
+  // Load profile
   useEffect(() => {
-    if (user) {
-      loadProfile();
-      loadNotifications();
-    }
+    if (user) loadProfile();
   }, [user]);
 
   useEffect(() => {
@@ -67,25 +75,23 @@ export function ProfileTab({ onEditPreferences }: ProfileTabProps) {
   const loadProfile = async () => {
     if (!user) return;
 
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("display_name, avatar_url, banner_url")
-      .eq("id", user.id)
-      .single();
-
-    if (error) {
-      console.error("Error loading profile:", error.message);
+    let data: Profile | null;
+    try {
+      data = await fetchProfile(user.id);
+    } catch (err) {
+      console.error("Error loading profile:", err);
       return;
     }
 
     // Auto-create missing profile
     if (!data) {
-      const { error: insertError } = await supabase
-        .from("profiles")
-        .insert([{ id: user.id, display_name: user.email?.split("@")[0] }]);
-      if (insertError)
-        console.error("Error creating profile:", insertError.message);
-      setProfile({ display_name: user.email?.split("@")[0], avatar_url: null });
+      const displayName = user.email?.split("@")[0] ?? "";
+      try {
+        await createProfile(user.id, user.email ?? "", displayName);
+      } catch (err) {
+        console.error("Error creating profile:", err);
+      }
+      setProfile({ display_name: displayName, avatar_url: null });
       return;
     }
 
@@ -95,20 +101,12 @@ export function ProfileTab({ onEditPreferences }: ProfileTabProps) {
     }
   };
 
-  const loadNotifications = async () => {
-    if (!user) return;
-    const { data, error } = await supabase
-      .from("notifications")
-      .select("id, title, body, url, created_at, read")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.error("Error fetching notifications:", error.message);
-      return;
-    }
-
-    setNotifications(data || []);
+  // Event notifications open in the app; anything else follows its link
+  const openNotification = (n: AppNotification) => {
+    if (!n.read) inbox.markRead(n.id);
+    const eventId = notificationEventId(n);
+    if (eventId) onOpenEvent(eventId);
+    else if (n.url) window.open(n.url, "_blank", "noopener");
   };
 
   const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -117,30 +115,10 @@ export function ProfileTab({ onEditPreferences }: ProfileTabProps) {
       if (!file || !user) return;
       setUploading(true);
 
-      const fileExt = file.name.split(".").pop();
-      const fileName = `${user.id}-${Date.now()}.${fileExt}`;
-      const filePath = `avatars/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from("avatars")
-        .upload(filePath, file, {
-          cacheControl: "3600",
-          upsert: true,
-          contentType: file.type,
-        });
-      if (uploadError) throw uploadError;
-
-      const {
-        data: { publicUrl },
-      } = supabase.storage.from("avatars").getPublicUrl(filePath);
-
-      const { error: updateError } = await supabase
-        .from("profiles")
-        .update({ avatar_url: publicUrl })
-        .eq("id", user.id);
-      if (updateError) throw updateError;
-
-      setProfile((p: any) => ({ ...p, avatar_url: publicUrl }));
+      const publicUrl = await uploadAvatar(user.id, file);
+      await updateProfile(user.id, { avatar_url: publicUrl });
+
+      setProfile((p) => ({ ...p, avatar_url: publicUrl }));
       localStorage.setItem(`avatar_url_${user.id}`, publicUrl);
 
       setUploadSuccess(true);
@@ -157,13 +135,9 @@ export function ProfileTab({ onEditPreferences }: ProfileTabProps) {
   const handleRemoveAvatar = async () => {
     if (!user) return;
     try {
-      const { error } = await supabase
-        .from("profiles")
-        .update({ avatar_url: null })
-        .eq("id", user.id);
-      if (error) throw error;
+      await updateProfile(user.id, { avatar_url: null });
 
-      setProfile((p: any) => ({ ...p, avatar_url: null }));
+      setProfile((p) => ({ ...p, avatar_url: null }));
       localStorage.removeItem(`avatar_url_${user.id}`);
       setShowCameraMenu(false);
     } catch (err) {
@@ -216,6 +190,26 @@ export function ProfileTab({ onEditPreferences }: ProfileTabProps) {
 
           {showSettings && (
             <div className="absolute right-0 mt-3 w-44 bg-[#1a1d29]/90 backdrop-blur-md border border-white/10 rounded-xl shadow-lg overflow-hidden animate-fadeIn z-50">
+              <button
+                onClick={() => {
+                  setShowNotificationSettings(true);
+                  setShowSettings(false);
+                }}
+                className="w-full text-left px-3 py-2.5 flex items-center gap-2 text-sm hover:bg-white/10 text-gray-200 transition"
+              >
+                <Bell className="w-4 h-4 text-[#00BFFF]" />
+                Notifications
+              </button>
+              <button
+                onClick={() => {
+                  setShowTimetable(true);
+                  setShowSettings(false);
+                }}
+                className="w-full text-left px-3 py-2.5 flex items-center gap-2 text-sm hover:bg-white/10 text-gray-200 transition"
+              >
+                <GraduationCap className="w-4 h-4 text-[#00BFFF]" />
+                Class timetable
+              </button>
               <button
                 onClick={handleSignOut}
                 disabled={signingOut}
@@ -314,33 +308,84 @@ export function ProfileTab({ onEditPreferences }: ProfileTabProps) {
       <div className="mt-8 flex justify-center gap-10 border-b border-white/10">
         <button className="pb-3 text-sm font-medium text-[#00BFFF] border-b-2 border-[#00BFFF]">
           <Bell className="inline w-4 h-4 mr-1" /> Notifications
+          {inbox.unreadCount > 0 && (
+            <span className="ml-2 rounded-full bg-[#00BFFF] px-2 py-0.5 text-xs font-semibold text-white">
+              {inbox.unreadCount}
+            </span>
+          )}
         </button>
       </div>
 
-      <div className="px-6 mt-6 space-y-4">
-        {notifications.length === 0 ? (
+      {inbox.unreadCount > 0 && (
+        <div className="px-6 mt-4 flex justify-end">
+          <button
+            onClick={inbox.markAllRead}
+            className="flex items-center gap-1.5 text-sm text-[#00BFFF] hover:underline"
+          >
+            <CheckCheck className="w-4 h-4" />
+            Mark all as read
+          </button>
+        </div>
+      )}
+
+      <div className="px-6 mt-4 space-y-4">
+        {inbox.loading ? (
+          <p className="text-center text-gray-400">Loading notifications...</p>
+        ) : inbox.notifications.length === 0 ? (
           <p className="text-center text-gray-400">No new notifications</p>
         ) : (
-          notifications.map((n) => (
+          inbox.notifications.map((n) => (
             <div
               key={n.id}
-              className={`border rounded-2xl p-4 transition ${
+              className={`relative border rounded-2xl p-4 pr-20 cursor-pointer transition ${
                 n.read
                   ? "bg-white/5 border-white/10"
                   : "bg-gradient-to-r from-[#00BFFF]/10 to-[#4C6EF5]/10 border-[#00BFFF]/30"
               } hover:bg-white/10`}
-              onClick={() => n.url && window.open(n.url, "_blank")}
+              onClick={() => openNotification(n)}
             >
               <p className="font-medium text-white">{n.title}</p>
               {n.body && <p className="text-sm text-gray-400 mt-1">{n.body}</p>}
-              <p className="text-xs text-gray-500 mt-2">
-                {new Date(n.created_at).toLocaleString()}
-              </p>
+              <p className="text-xs text-gray-500 mt-2">{formatTimeAgo(n.created_at)}</p>
+
+              <div className="absolute top-3 right-3 flex gap-1">
+                {!n.read && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      inbox.markRead(n.id);
+                    }}
+                    aria-label="Mark as read"
+                    title="Mark as read"
+                    className="p-1.5 rounded-full text-gray-400 hover:text-[#00BFFF] hover:bg-white/10 transition"
+                  >
+                    <CheckCheck className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    inbox.remove(n.id);
+                  }}
+                  aria-label="Delete notification"
+                  title="Delete"
+                  className="p-1.5 rounded-full text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
             </div>
           ))
         )}
       </div>
 
+      <NotificationSettings
+        isOpen={showNotificationSettings}
+        onClose={() => setShowNotificationSettings(false)}
+      />
+
+      <TimetableSheet isOpen={showTimetable} onClose={() => setShowTimetable(false)} />
+
       {/* 🖼️ Avatar Modal */}
       {showAvatarModal && (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fadeIn">
@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Loader2, Plus, X } from "lucide-react";
+import {
+  COLLECTION_NAME_MAX,
+  NOTE_MAX,
+  SAVED_PRIORITIES,
+  SAVED_PRIORITY_LABELS,
+  collectionErrorMessage,
+  isSavedPriority,
+  type SavedPriority,
+} from "../lib/savedItems";
+import type { Collection, SavedItem, SavedItemChanges } from "../lib/models";
+
+interface SavedItemSheetProps {
+  /** The saved event being organized; the sheet is closed while null. */
+  item: SavedItem | null;
+  collections: Collection[];
+  onClose: () => void;
+  /** Rejects if the change couldn't be saved; the sheet then stays open. */
+  onSave: (changes: SavedItemChanges) => Promise<void>;
+  onCreateCollection: (name: string) => Promise<Collection>;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border-t border-gray-800 pt-5">
+      <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-400">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function Chip({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-3 py-1.5 rounded-full text-sm border transition ${
+        active
+          ? "bg-[#7C3AED]/25 border-[#7C3AED] text-white"
+          : "bg-white/5 border-white/10 text-gray-300 hover:border-white/30"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Moves a saved event between collections and edits its note and priority. */
+export function SavedItemSheet({
+  item,
+  collections,
+  onClose,
+  onSave,
+  onCreateCollection,
+}: SavedItemSheetProps) {
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+  const [priority, setPriority] = useState<SavedPriority | null>(null);
+  const [note, setNote] = useState("");
+  const [newName, setNewName] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!item) return;
+    setCollectionId(item.collection_id);
+    setPriority(isSavedPriority(item.priority) ? item.priority : null);
+    setNote(item.note ?? "");
+    setNewName(null);
+    setError(null);
+  }, [item]);
+
+  useEffect(() => {
+    if (!item) return;
+    const handler = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [item, onClose]);
+
+  if (!item) return null;
+
+  const addCollection = async () => {
+    if (!newName?.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const collection = await onCreateCollection(newName);
+      setCollectionId(collection.id);
+      setNewName(null);
+    } catch (err) {
+      setError(collectionErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async () => {
+    const trimmed = note.trim();
+    setBusy(true);
+    setError(null);
+    try {
+      await onSave({ collection_id: collectionId, priority, note: trimmed || null });
+      onClose();
+    } catch (err) {
+      console.error("Error updating saved event:", err);
+      setError("Couldn't save your changes. Check your connection and try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sheet = (
+    <div className="fixed inset-0 z-[9999] flex items-end sm:items-center justify-center animate-fadeIn" role="dialog" aria-modal="true">
+      <button
+        aria-label="Close"
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-md cursor-default"
+      />
+
+      <div
+        className="relative w-full max-w-lg rounded-t-3xl sm:rounded-3xl border border-gray-800 bg-[#1a1d29] shadow-2xl animate-slideUp flex flex-col"
+        style={{ maxHeight: "85vh" }}
+      >
+        <div className="flex items-start justify-between gap-4 px-6 pt-5 pb-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white">Organize</h2>
+            <p className="text-sm text-gray-400 truncate">{item.events.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-full bg-black/40 p-2 transition-colors hover:bg-black/70"
+          >
+            <X className="h-5 w-5 text-white" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-5">
+          <Section title="Collection">
+            <div className="flex flex-wrap gap-2">
+              <Chip active={collectionId === null} onClick={() => setCollectionId(null)}>
+                None
+              </Chip>
+              {collections.map((c) => (
+                <Chip key={c.id} active={collectionId === c.id} onClick={() => setCollectionId(c.id)}>
+                  {c.name}
+                </Chip>
+              ))}
+              {newName === null && (
+                <button
+                  onClick={() => setNewName("")}
+                  className="px-3 py-1.5 rounded-full text-sm border border-dashed border-white/20 text-gray-400 hover:text-white hover:border-white/40 transition flex items-center gap-1"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  New
+                </button>
+              )}
+            </div>
+            {newName !== null && (
+              <div className="mt-3 flex gap-2">
+                <input
+                  autoFocus
+                  value={newName}
+                  maxLength={COLLECTION_NAME_MAX}
+                  placeholder="Collection name"
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && addCollection()}
+                  className="flex-1 rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#7C3AED]"
+                />
+                <button
+                  onClick={addCollection}
+                  disabled={busy || !newName.trim()}
+                  className="px-4 rounded-xl text-sm font-semibold text-white bg-[#7C3AED]/80 hover:bg-[#7C3AED] transition disabled:opacity-50"
+                >
+                  Add
+                </button>
+                <button
+                  onClick={() => setNewName(null)}
+                  className="px-3 rounded-xl text-sm text-gray-400 hover:text-white transition"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </Section>
+
+          <Section title="Priority">
+            <div className="flex flex-wrap gap-2">
+              <Chip active={priority === null} onClick={() => setPriority(null)}>
+                None
+              </Chip>
+              {SAVED_PRIORITIES.map((p) => (
+                <Chip key={p} active={priority === p} onClick={() => setPriority(p)}>
+                  {SAVED_PRIORITY_LABELS[p]}
+                </Chip>
+              ))}
+            </div>
+          </Section>
+
+          <Section title="Note">
+            <textarea
+              value={note}
+              maxLength={NOTE_MAX}
+              rows={4}
+              placeholder="Only you can see this"
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full resize-none rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#7C3AED]"
+            />
+            <p className="mt-1 text-right text-xs text-gray-500">
+              {note.length}/{NOTE_MAX}
+            </p>
+          </Section>
+
+          {error && <p className="text-sm text-rose-400">{error}</p>}
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 rounded-xl bg-white/5 text-gray-300 hover:bg-white/10 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              disabled={busy}
+              className="flex-1 py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-[#7C3AED] to-[#4C6EF5] hover:opacity-90 transition disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(sheet, document.body);
+}
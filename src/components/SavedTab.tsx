@@ -1,81 +1,200 @@
-import { useState, useEffect } from "react";
-import { supabase } from "../lib/supabase";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useAuth } from "../contexts/AuthContext";
-import { Calendar, MapPin, Eye, Bookmark, Trash2 } from "lucide-react";
+import { useUserEvents } from "../contexts/useUserEvents";
+import {
+  Calendar,
+  MapPin,
+  Eye,
+  Bookmark,
+  Trash2,
+  Folder,
+  FolderInput,
+  FolderPlus,
+  Pencil,
+  StickyNote,
+} from "lucide-react";
 import { EventModal } from "./EventModal";
+import { DeadlineBadge } from "./DeadlineBadge";
+import { SavedItemSheet } from "./SavedItemSheet";
+import { CollectionSheet } from "./CollectionSheet";
+import { EventsCalendar } from "./EventsCalendar";
+import { EventsViewToggle } from "./EventsViewToggle";
+import { useEventsView } from "../lib/agenda";
+import { formatEventStart } from "../lib/datetime";
+import { readCache, useOnlineStatus, writeCache } from "../lib/localCache";
+import { OfflineIndicator } from "./OfflineIndicator";
+import {
+  createCollection,
+  deleteCollection,
+  fetchCollections,
+  fetchEventCategories,
+  fetchInterests,
+  fetchSavedItems,
+  renameCollection,
+  updateSavedItem,
+} from "../lib/repository";
+import {
+  SAVED_PRIORITY_LABELS,
+  SAVED_PRIORITY_STYLES,
+  isSavedPriority,
+  priorityRank,
+} from "../lib/savedItems";
+import type {
+  CategoryLink,
+  Collection,
+  Event,
+  Interest,
+  SavedItem,
+  SavedItemChanges,
+} from "../lib/models";
 
-interface Event {
-  id: string;
-  title: string;
-  description: string;
-  event_type: string | null;
-  organization: string | null;
-  location: string | null;
-  date: string;
-  image_url: string | null;
-  prize: string | null;
-  tags: string[] | null;
-  link?: string | null;
+/** Everything the tab renders, as stored in the local cache. */
+interface SavedCache {
+  items: SavedItem[];
+  collections: Collection[];
+  categories: Interest[];
+  links: CategoryLink[];
 }
 
+// Collection filter for saved events that aren't in any collection
+const UNSORTED = "unsorted";
+
+const chipClass = (active: boolean) =>
+  `shrink-0 px-3 py-1.5 rounded-full text-sm border transition ${
+    active
+      ? "bg-[#7C3AED]/25 border-[#7C3AED] text-white"
+      : "bg-white/5 border-white/10 text-gray-300 hover:border-white/30"
+  }`;
+
+// High priority first, then soonest
+const byPriority = (a: SavedItem, b: SavedItem) =>
+  priorityRank(a.priority) - priorityRank(b.priority) ||
+  new Date(a.events.date).getTime() - new Date(b.events.date).getTime();
+
 export function SavedTab() {
   const { user } = useAuth();
-  const [savedEvents, setSavedEvents] = useState<Event[]>([]);
+  const { saved, loaded, setSaved } = useUserEvents();
+  // Details of the saved events; the store decides which of them are still saved
+  const [items, setItems] = useState<SavedItem[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  // A collection id, UNSORTED, or null for everything
+  const [activeCollection, setActiveCollection] = useState<string | null>(null);
+  const [organizing, setOrganizing] = useState<SavedItem | null>(null);
+  // undefined while closed, null when creating a collection
+  const [editingCollection, setEditingCollection] = useState<Collection | null | undefined>();
+  const [categories, setCategories] = useState<Interest[]>([]);
+  // event id -> interest ids, from the event_interests join table
+  const [eventCategories, setEventCategories] = useState<Map<string, Set<string>>>(new Map());
+  const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [fadeIn, setFadeIn] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [view, setView] = useEventsView();
+  const online = useOnlineStatus();
+  // Set once the network answers, so a slow cache read can't replace fresher data
+  const freshRef = useRef(false);
 
   const stripHTML = (html?: string | null) =>
     (html ?? "").replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
 
-  const formatDate = (iso: string) =>
-    new Date(iso).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
+  const showSaved = ({ items, collections, categories, links }: SavedCache) => {
+    const byEvent = new Map<string, Set<string>>();
+    for (const { event_id, interest_id } of links) {
+      if (!byEvent.has(event_id)) byEvent.set(event_id, new Set());
+      byEvent.get(event_id)!.add(interest_id);
+    }
+    const used = new Set(links.map((l) => l.interest_id));
+    setItems(items);
+    setCollections(collections);
+    setEventCategories(byEvent);
+    setCategories(categories.filter((i) => used.has(i.id)));
+  };
 
-  const fetchSavedEvents = async () => {
+  // Refreshes in the background; on failure the cached or current list stays up
+  const fetchSaved = async () => {
     if (!user) return;
-    setLoading(true);
     try {
-      const { data: saved, error: savedErr } = await supabase
-        .from("saved_events")
-        .select("event_id")
-        .eq("user_id", user.id);
-      if (savedErr) throw savedErr;
-
-      const eventIds = saved?.map((s) => s.event_id) || [];
-      if (!eventIds.length) {
-        setSavedEvents([]);
-        setLoading(false);
-        return;
-      }
-
-      const { data: events, error: eventsErr } = await supabase
-        .from("events")
-        .select(
-          "id, title, description, event_type, organization, location, date, image_url, prize, tags, link"
-        )
-        .in("id", eventIds)
-        .order("date", { ascending: true });
-
-      if (eventsErr) throw eventsErr;
-      setSavedEvents(events || []);
+      const [items, collections] = await Promise.all([
+        fetchSavedItems(user.id),
+        fetchCollections(user.id),
+      ]);
+      const data = { items, collections, ...(await loadCategories(items.map((i) => i.event_id))) };
+      freshRef.current = true;
+      showSaved(data);
+      setCachedAt(null);
+      writeCache(user.id, "saved", data);
     } catch (err) {
       console.error("Error fetching saved events:", err);
-      setSavedEvents([]);
     } finally {
       setLoading(false);
       setTimeout(() => setFadeIn(true), 100);
     }
   };
 
+  const loadCategories = async (eventIds: string[]) => {
+    if (!eventIds.length) return { categories: [], links: [] };
+    try {
+      const [links, categories] = await Promise.all([
+        fetchEventCategories(eventIds),
+        fetchInterests(),
+      ]);
+      return { categories, links };
+    } catch (err) {
+      console.error("Error loading categories:", err);
+      return { categories: [], links: [] };
+    }
+  };
+
   useEffect(() => {
-    fetchSavedEvents();
+    if (!user) return;
+    readCache<SavedCache>(user.id, "saved").then((cached) => {
+      // Entries from before collections only have events; wait for the network
+      if (!cached?.data.items || freshRef.current) return;
+      showSaved(cached.data);
+      setCachedAt(cached.updated_at);
+      setLoading(false);
+      setTimeout(() => setFadeIn(true), 100);
+    });
   }, [user]);
 
+  useEffect(() => {
+    if (loaded) fetchSaved();
+  }, [user, online, loaded]);
+
+  // Saved on another tab or device: fetch the details we don't have yet
+  const missing = [...saved].filter((id) => !items.some((i) => i.event_id === id)).join();
+  useEffect(() => {
+    if (loaded && missing && freshRef.current) fetchSaved();
+  }, [loaded, missing]);
+
+  // Unsaves (including queued ones) drop out right away
+  const savedItems = loaded ? items.filter((i) => saved.has(i.event_id)) : items;
+
+  const inCollection = (item: SavedItem, collectionId: string | null) =>
+    collectionId === null ||
+    (collectionId === UNSORTED ? item.collection_id === null : item.collection_id === collectionId);
+
+  const collectionCount = (collectionId: string) =>
+    savedItems.filter((i) => inCollection(i, collectionId)).length;
+
+  const collectionItems = savedItems.filter((i) => inCollection(i, activeCollection));
+
+  const categoryCount = (categoryId: string) =>
+    collectionItems.filter((i) => eventCategories.get(i.event_id)?.has(categoryId)).length;
+
+  const visibleItems = (
+    activeCategory
+      ? collectionItems.filter((i) => eventCategories.get(i.event_id)?.has(activeCategory))
+      : collectionItems
+  ).sort(byPriority);
+
+  const collectionName = (collectionId: string | null) =>
+    collections.find((c) => c.id === collectionId)?.name;
+
+  const activeCollectionRow = collections.find((c) => c.id === activeCollection);
+
   const openModal = (ev: Event) => {
     setSelectedEvent(ev);
     setIsModalOpen(true);
@@ -86,20 +205,73 @@ export function SavedTab() {
     setTimeout(() => setSelectedEvent(null), 250);
   };
 
-  const removeSaved = async (eventId: string) => {
-    if (!user) return;
+  const closeOrganizer = useCallback(() => setOrganizing(null), []);
+  const closeCollectionSheet = useCallback(() => setEditingCollection(undefined), []);
+
+  const removeSaved = async (event: Event) => {
     try {
-      await supabase
-        .from("saved_events")
-        .delete()
-        .eq("user_id", user.id)
-        .eq("event_id", eventId);
-      setSavedEvents((prev) => prev.filter((e) => e.id !== eventId));
+      await setSaved(event, false);
     } catch (err) {
       console.error("Failed to remove saved event:", err);
     }
   };
 
+  // Shown right away; put back if the server refuses
+  const updateItem = async (eventId: string, changes: SavedItemChanges) => {
+    if (!user) return;
+    const previous = items.find((i) => i.event_id === eventId);
+    if (!previous) return;
+    setItems((list) => list.map((i) => (i.event_id === eventId ? { ...i, ...changes } : i)));
+    try {
+      await updateSavedItem(user.id, eventId, changes);
+    } catch (err) {
+      setItems((list) => list.map((i) => (i.event_id === eventId ? previous : i)));
+      throw err;
+    }
+    fetchSaved();
+  };
+
+  const addCollection = async (name: string) => {
+    if (!user) throw new Error("Not signed in");
+    const collection = await createCollection(user.id, name);
+    setCollections((list) => [...list, collection]);
+    return collection;
+  };
+
+  const submitCollection = async (name: string) => {
+    if (editingCollection) {
+      await renameCollection(editingCollection.id, name);
+      setCollections((list) =>
+        list.map((c) => (c.id === editingCollection.id ? { ...c, name: name.trim() } : c))
+      );
+    } else {
+      const collection = await addCollection(name);
+      setActiveCollection(collection.id);
+    }
+    fetchSaved();
+  };
+
+  const removeCollection = async (collection: Collection) => {
+    await deleteCollection(collection.id);
+    // The database un-files its events; mirror that until the refetch lands
+    setCollections((list) => list.filter((c) => c.id !== collection.id));
+    setItems((list) =>
+      list.map((i) => (i.collection_id === collection.id ? { ...i, collection_id: null } : i))
+    );
+    if (activeCollection === collection.id) setActiveCollection(null);
+    fetchSaved();
+  };
+
+  const viewToggle = <EventsViewToggle view={view} onChange={setView} />;
+
+  if (view === "calendar")
+    return (
+      <>
+        <div className="px-4 pt-6">{viewToggle}</div>
+        <EventsCalendar />
+      </>
+    );
+
   if (loading)
     return (
       <div className="flex items-center justify-center h-64 text-white">
@@ -107,100 +279,208 @@ export function SavedTab() {
       </div>
     );
 
-  if (!savedEvents.length)
+  if (!savedItems.length)
     return (
-      <div className="flex flex-col items-center justify-center h-64 text-center">
-        <Bookmark className="w-10 h-10 text-gray-500 mb-3" />
-        <p className="text-gray-300 font-medium mb-1">No saved events yet</p>
-        <p className="text-gray-500 text-sm">
-          Tap the bookmark icon on any event to save it here.
-        </p>
-      </div>
+      <>
+        <div className="px-4 pt-6">{viewToggle}</div>
+        <div className="flex flex-col items-center justify-center h-64 text-center">
+          <OfflineIndicator cachedAt={cachedAt} className="mb-4" />
+          <Bookmark className="w-10 h-10 text-gray-500 mb-3" />
+          <p className="text-gray-300 font-medium mb-1">No saved events yet</p>
+          <p className="text-gray-500 text-sm">
+            Tap the bookmark icon on any event to save it here.
+          </p>
+        </div>
+      </>
     );
 
   return (
     <>
+      <OfflineIndicator cachedAt={cachedAt} className="mt-6" />
+      <div className="px-4 pt-6">{viewToggle}</div>
+      <div className="flex gap-2 overflow-x-auto px-4 pt-4 [scrollbar-width:none]">
+        <button onClick={() => setActiveCollection(null)} className={chipClass(activeCollection === null)}>
+          All <span className="text-gray-400">{savedItems.length}</span>
+        </button>
+        {collections.map((c) => (
+          <button
+            key={c.id}
+            onClick={() => setActiveCollection(activeCollection === c.id ? null : c.id)}
+            className={`${chipClass(activeCollection === c.id)} flex items-center gap-1.5`}
+          >
+            <Folder className="w-3.5 h-3.5" />
+            {c.name} <span className="text-gray-400">{collectionCount(c.id)}</span>
+          </button>
+        ))}
+        {collections.length > 0 && (
+          <button
+            onClick={() => setActiveCollection(activeCollection === UNSORTED ? null : UNSORTED)}
+            className={chipClass(activeCollection === UNSORTED)}
+          >
+            Unsorted <span className="text-gray-400">{collectionCount(UNSORTED)}</span>
+          </button>
+        )}
+        {activeCollectionRow && (
+          <button
+            onClick={() => setEditingCollection(activeCollectionRow)}
+            className={`${chipClass(false)} flex items-center gap-1.5`}
+            title="Rename or delete collection"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            Edit
+          </button>
+        )}
+        <button
+          onClick={() => setEditingCollection(null)}
+          className="shrink-0 px-3 py-1.5 rounded-full text-sm border border-dashed border-white/20 text-gray-400 hover:text-white hover:border-white/40 transition flex items-center gap-1.5"
+        >
+          <FolderPlus className="w-3.5 h-3.5" />
+          New collection
+        </button>
+      </div>
+
+      {categories.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto px-4 pt-3 [scrollbar-width:none]">
+          <button onClick={() => setActiveCategory(null)} className={chipClass(activeCategory === null)}>
+            All categories <span className="text-gray-400">{collectionItems.length}</span>
+          </button>
+          {categories.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => setActiveCategory(activeCategory === c.id ? null : c.id)}
+              className={chipClass(activeCategory === c.id)}
+            >
+              {c.name} <span className="text-gray-400">{categoryCount(c.id)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!visibleItems.length && (
+        <p className="px-4 pt-10 text-center text-sm text-gray-500">
+          {activeCollection === UNSORTED
+            ? "Every saved event is in a collection."
+            : "Nothing here yet. Use Organize on a saved event to add it."}
+        </p>
+      )}
+
       <div
         className={`px-4 pt-6 pb-24 grid grid-cols-1 sm:grid-cols-2 gap-4 transform transition-all duration-700 ease-[cubic-bezier(0.4,0,0.2,1)] ${
           fadeIn ? "opacity-100 translate-y-0" : "opacity-0 translate-y-6"
         }`}
       >
-        {savedEvents.map((event, idx) => (
-          <div
-            key={event.id}
-            className={`bg-gradient-to-br from-[#10121A] to-[#1A1C24] border border-gray-800 rounded-2xl overflow-hidden 
-              shadow-[0_4px_20px_rgba(0,0,0,0.3)]
-              transform transition-all duration-600 ease-[cubic-bezier(0.4,0,0.2,1)] hover:scale-[1.03] 
-              hover:shadow-[0_10px_35px_rgba(124,58,237,0.35)] hover:border-[#7C3AED]/40
-              will-change-transform will-change-[box-shadow]
-              ${fadeIn ? "opacity-100 translate-y-0" : "opacity-0 translate-y-4"}`}
-            style={{
-              transitionDelay: `${idx * 60}ms`,
-            }}
-          >
-            {event.image_url && (
-              <div
-                className="h-36 bg-cover bg-center"
-                style={{
-                  backgroundImage: `linear-gradient(to bottom, rgba(0,0,0,0.2), rgba(0,0,0,0.6)), url(${event.image_url})`,
-                }}
-              />
-            )}
-
-            <div className="p-5 space-y-3">
-              <div className="flex justify-between items-start">
-                <div>
-                  <h3 className="text-lg font-bold text-white mb-1">
-                    {event.title}
-                  </h3>
-                  {event.organization && (
-                    <p className="text-gray-400 text-sm">
-                      {event.organization}
-                    </p>
-                  )}
+        {visibleItems.map((item, idx) => {
+          const event = item.events;
+          const collection = collectionName(item.collection_id);
+          return (
+            <div
+              key={event.id}
+              className={`bg-gradient-to-br from-[#10121A] to-[#1A1C24] border border-gray-800 rounded-2xl overflow-hidden 
+                shadow-[0_4px_20px_rgba(0,0,0,0.3)]
+                transform transition-all duration-600 ease-[cubic-bezier(0.4,0,0.2,1)] hover:scale-[1.03] 
+                hover:shadow-[0_10px_35px_rgba(124,58,237,0.35)] hover:border-[#7C3AED]/40
+                will-change-transform will-change-[box-shadow]
+                ${fadeIn ? "opacity-100 translate-y-0" : "opacity-0 translate-y-4"}`}
+              style={{
+                transitionDelay: `${idx * 60}ms`,
+              }}
+            >
+              {event.image_url && (
+                <div
+                  className="h-36 bg-cover bg-center"
+                  style={{
+                    backgroundImage: `linear-gradient(to bottom, rgba(0,0,0,0.2), rgba(0,0,0,0.6)), url(${event.image_url})`,
+                  }}
+                />
+              )}
+
+              <div className="p-5 space-y-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-bold text-white mb-1">
+                      {event.title}
+                    </h3>
+                    {event.organization && (
+                      <p className="text-gray-400 text-sm">
+                        {event.organization}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-col items-end gap-1.5 text-sm font-medium text-purple-400">
+                    <div className="flex items-center gap-1">
+                      <Bookmark className="w-4 h-4" />
+                      <span>Saved</span>
+                    </div>
+                    {isSavedPriority(item.priority) && (
+                      <span
+                        className={`px-2 py-0.5 rounded-full border text-xs ${SAVED_PRIORITY_STYLES[item.priority]}`}
+                      >
+                        {SAVED_PRIORITY_LABELS[item.priority]}
+                      </span>
+                    )}
+                  </div>
                 </div>
 
-                <div className="flex flex-col items-end text-sm font-medium text-purple-400">
-                  <div className="flex items-center gap-1">
-                    <Bookmark className="w-4 h-4" />
-                    <span>Saved</span>
+                {collection && (
+                  <div className="flex items-center gap-1.5 text-xs text-gray-400">
+                    <Folder className="w-3.5 h-3.5" />
+                    <span>{collection}</span>
                   </div>
+                )}
+
+                <p className="text-gray-300 text-sm line-clamp-2">
+                  {stripHTML(event.description)}
+                </p>
+
+                <div className="flex items-center gap-3 text-gray-400 text-sm">
+                  <Calendar className="w-4 h-4" />
+                  <span>{formatEventStart(event)}</span>
+                  <MapPin className="w-4 h-4 ml-2" />
+                  <span>{event.location ?? "McGill University"}</span>
                 </div>
-              </div>
 
-              <p className="text-gray-300 text-sm line-clamp-2">
-                {stripHTML(event.description)}
-              </p>
+                <DeadlineBadge deadline={event.deadline} />
 
-              <div className="flex items-center gap-3 text-gray-400 text-sm">
-                <Calendar className="w-4 h-4" />
-                <span>{formatDate(event.date)}</span>
-                <MapPin className="w-4 h-4 ml-2" />
-                <span>{event.location ?? "McGill University"}</span>
-              </div>
+                {item.note && (
+                  <div className="flex gap-2 rounded-xl bg-white/5 border border-white/10 p-3 text-sm text-gray-300">
+                    <StickyNote className="w-4 h-4 shrink-0 mt-0.5 text-gray-500" />
+                    <p className="line-clamp-3 whitespace-pre-line">{item.note}</p>
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => openModal(event)}
+                    className="flex-1 py-2 rounded-xl font-semibold flex items-center justify-center gap-2 
+                      bg-gradient-to-r from-[#7C3AED] to-[#4C6EF5] text-white hover:opacity-90 transition-opacity"
+                  >
+                    <Eye className="w-4 h-4" />
+                    View Details
+                  </button>
+
+                  <button
+                    onClick={() => setOrganizing(item)}
+                    className="px-3 rounded-xl flex items-center justify-center 
+                      bg-[#1f1c2c] border border-gray-700 text-gray-400 hover:text-white transition"
+                    title="Organize"
+                  >
+                    <FolderInput className="w-4 h-4" />
+                  </button>
 
-              <div className="flex gap-2">
-                <button
-                  onClick={() => openModal(event)}
-                  className="flex-1 py-2 rounded-xl font-semibold flex items-center justify-center gap-2 
-                    bg-gradient-to-r from-[#7C3AED] to-[#4C6EF5] text-white hover:opacity-90 transition-opacity"
-                >
-                  <Eye className="w-4 h-4" />
-                  View Details
-                </button>
-
-                <button
-                  onClick={() => removeSaved(event.id)}
-                  className="px-3 rounded-xl flex items-center justify-center 
-                    bg-[#1f1c2c] border border-gray-700 text-gray-400 hover:text-red-500 transition"
-                  title="Remove from saved"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
+                  <button
+                    onClick={() => removeSaved(event)}
+                    className="px-3 rounded-xl flex items-center justify-center 
+                      bg-[#1f1c2c] border border-gray-700 text-gray-400 hover:text-red-500 transition"
+                    title="Remove from saved"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
       <EventModal
@@ -208,6 +488,22 @@ export function SavedTab() {
         isOpen={isModalOpen}
         onClose={closeModal}
       />
+
+      <SavedItemSheet
+        item={organizing}
+        collections={collections}
+        onClose={closeOrganizer}
+        onSave={(changes) => updateItem(organizing!.event_id, changes)}
+        onCreateCollection={addCollection}
+      />
+
+      <CollectionSheet
+        isOpen={editingCollection !== undefined}
+        collection={editingCollection ?? null}
+        onClose={closeCollectionSheet}
+        onSubmit={submitCollection}
+        onDelete={removeCollection}
+      />
     </>
   );
 }
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Bookmark, Calendar, Loader2, Send } from "lucide-react";
+import { useUserEvents } from "../contexts/useUserEvents";
+import { fetchSimilarEvents } from "../lib/repository";
+import type { SimilarEvent } from "../lib/models";
+import { deadlineInfo } from "../lib/deadlines";
+import { formatShortDate } from "../lib/datetime";
+
+interface SimilarEventsProps {
+  eventId: string;
+  onSelect: (event: SimilarEvent) => void;
+}
+
+export function SimilarEvents({ eventId, onSelect }: SimilarEventsProps) {
+  const { saved, applied, setSaved, apply } = useUserEvents();
+  const [events, setEvents] = useState<SimilarEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchSimilarEvents(eventId)
+      .then((similar) => !cancelled && setEvents(similar))
+      .catch((error) => {
+        console.error("Error loading similar events:", error);
+        if (!cancelled) setEvents([]);
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  const handleSave = (ev: SimilarEvent) =>
+    setSaved(ev, !saved.has(ev.id)).catch((err) =>
+      console.error("Error updating saved event:", err)
+    );
+
+  const handleApply = (ev: SimilarEvent) => {
+    if (applied.has(ev.id)) return;
+    apply(ev).catch((err) => console.error("Error applying to event:", err));
+  };
+
+  if (!loading && events.length === 0) return null;
+
+  return (
+    <div className="border-t border-gray-800 pt-6">
+      <h3 className="mb-3 text-lg font-semibold text-white">You might also like</h3>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-[#00BFFF]" />
+        </div>
+      ) : (
+        <div className="-mx-6 flex snap-x snap-mandatory gap-3 overflow-x-auto px-6 pb-2">
+          {events.map((ev) => {
+            const isSaved = saved.has(ev.id);
+            const isApplied = applied.has(ev.id);
+            const isClosed = deadlineInfo(ev.deadline).state === "closed";
+            const why = ev.shared_tags[0] ? `#${ev.shared_tags[0]}` : ev.organization;
+            return (
+              <div
+                key={ev.id}
+                className="relative w-56 shrink-0 snap-start overflow-hidden rounded-2xl border border-white/10 bg-white/5"
+              >
+                <button onClick={() => onSelect(ev)} className="block w-full text-left">
+                  <div
+                    className="h-24 w-full bg-cover bg-center bg-gradient-to-r from-[#00BFFF]/30 to-[#4C6EF5]/20"
+                    style={
+                      ev.image_url
+                        ? {
+                            backgroundImage: `linear-gradient(to bottom, rgba(0,0,0,0.1), rgba(0,0,0,0.5)), url(${ev.image_url})`,
+                          }
+                        : undefined
+                    }
+                  />
+                  <div className="p-3">
+                    <p className="line-clamp-2 font-semibold text-white">{ev.title}</p>
+                    <p className="mt-1 flex items-center gap-1.5 text-xs text-gray-400">
+                      <Calendar className="h-3.5 w-3.5 text-[#4C6EF5]" />
+                      {formatShortDate(ev.date)}
+                    </p>
+                    {why && <p className="mt-1 truncate text-xs text-[#00BFFF]">{why}</p>}
+                  </div>
+                </button>
+
+                <div className="flex gap-2 px-3 pb-3">
+                  <button
+                    onClick={() => handleApply(ev)}
+                    disabled={isApplied || isClosed}
+                    className={`flex flex-1 items-center justify-center gap-1.5 rounded-lg py-2 text-sm font-semibold transition-all
+                      ${
+                        isApplied || isClosed
+                          ? "bg-white/10 text-gray-400 cursor-not-allowed"
+                          : "bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] text-white hover:opacity-90"
+                      }`}
+                  >
+                    <Send className="h-3.5 w-3.5" /> {isApplied ? "Applied" : isClosed ? "Closed" : "Apply"}
+                  </button>
+                  <button
+                    onClick={() => handleSave(ev)}
+                    aria-label={isSaved ? "Unsave" : "Save"}
+                    className={`rounded-lg p-2 transition-all ${
+                      isSaved ? "bg-[#00BFFF]/20 hover:bg-[#00BFFF]/30" : "bg-black/40 hover:bg-black/60"
+                    }`}
+                  >
+                    <Bookmark
+                      className={`h-4 w-4 ${isSaved ? "fill-[#00BFFF] text-[#00BFFF]" : "text-white"}`}
+                    />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Loader2, Plus, Trash2, Upload, X } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { formatShortDate, userTimeZone } from "../lib/datetime";
+import { parseCalendar } from "../lib/ics";
+import {
+  addClassBlocks,
+  deleteClassBlock,
+  fetchClassBlocks,
+  replaceImportedClassBlocks,
+} from "../lib/repository";
+import {
+  MAX_IMPORTED_BLOCKS,
+  TIMETABLE_WEEKDAYS,
+  WEEKDAY_LABELS,
+  blocksFromCalendar,
+  formatClassTime,
+} from "../lib/timetable";
+import type { ClassBlock } from "../lib/models";
+
+interface TimetableSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border-t border-gray-800 pt-5">
+      <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-400">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+const EMPTY_FORM = { title: "", weekdays: [] as number[], start: "", end: "", location: "" };
+
+// Term bounds are plain dates; read them at local noon so no zone shifts the day
+const formatTermDay = (day: string) => formatShortDate(`${day}T12:00:00`);
+
+export function TimetableSheet({ isOpen, onClose }: TimetableSheetProps) {
+  const { user } = useAuth();
+  const [blocks, setBlocks] = useState<ClassBlock[] | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const load = async () => {
+    if (!user) return;
+    try {
+      setBlocks(await fetchClassBlocks(user.id));
+    } catch (err) {
+      console.error("Error loading timetable:", err);
+      setBlocks([]);
+      setMessage({ text: "Couldn't load your timetable.", error: true });
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setMessage(null);
+    load();
+  }, [isOpen, user]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const importFile = async (file: File) => {
+    if (!user) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { blocks: imported, skipped } = blocksFromCalendar(parseCalendar(await file.text()));
+      if (!imported.length) {
+        setMessage({ text: "No upcoming classes found in that file.", error: true });
+        return;
+      }
+      if (imported.length > MAX_IMPORTED_BLOCKS) {
+        setMessage({
+          text: "That calendar has too many entries. Export just your course schedule and try again.",
+          error: true,
+        });
+        return;
+      }
+      await replaceImportedClassBlocks(user.id, imported);
+      await load();
+      setMessage({
+        text:
+          `Imported ${imported.length} class ${imported.length === 1 ? "block" : "blocks"}` +
+          (skipped ? `, skipped ${skipped} all-day or past ${skipped === 1 ? "entry" : "entries"}.` : "."),
+      });
+    } catch (err) {
+      console.error("Error importing timetable:", err);
+      setMessage({ text: "Couldn't import that file. Check your connection and try again.", error: true });
+    } finally {
+      setBusy(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  const valid =
+    form.title.trim() && form.weekdays.length > 0 && form.start && form.end && form.end > form.start;
+
+  const addManual = async () => {
+    if (!user || !valid) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      await addClassBlocks(
+        user.id,
+        form.weekdays.map((weekday) => ({
+          title: form.title.trim(),
+          location: form.location.trim() || null,
+          weekday,
+          start_time: form.start,
+          end_time: form.end,
+          starts_on: null,
+          ends_on: null,
+          timezone: userTimeZone(),
+          source: "manual",
+        }))
+      );
+      setForm(EMPTY_FORM);
+      await load();
+    } catch (err) {
+      console.error("Error adding class:", err);
+      setMessage({ text: "Couldn't add that class. Check your connection and try again.", error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (block: ClassBlock) => {
+    setBlocks((list) => list?.filter((b) => b.id !== block.id) ?? null);
+    try {
+      await deleteClassBlock(block.id);
+    } catch (err) {
+      console.error("Error removing class:", err);
+      load();
+    }
+  };
+
+  const toggleWeekday = (weekday: number) =>
+    setForm((f) => ({
+      ...f,
+      weekdays: f.weekdays.includes(weekday)
+        ? f.weekdays.filter((d) => d !== weekday)
+        : [...f.weekdays, weekday],
+    }));
+
+  const sheet = (
+    <div className="fixed inset-0 z-[9999] flex items-end sm:items-center justify-center animate-fadeIn" role="dialog" aria-modal="true">
+      <button
+        aria-label="Close timetable"
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-md cursor-default"
+      />
+
+      <div
+        className="relative w-full max-w-2xl rounded-t-3xl sm:rounded-3xl border border-gray-800 bg-[#1a1d29] shadow-2xl animate-slideUp flex flex-col"
+        style={{ maxHeight: "85vh" }}
+      >
+        <div className="flex items-center justify-between px-6 pt-5 pb-4">
+          <h2 className="text-xl font-bold text-white">Class timetable</h2>
+          <button
+            onClick={onClose}
+            className="rounded-full bg-black/40 p-2 transition-colors hover:bg-black/70"
+          >
+            <X className="h-5 w-5 text-white" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-5">
+          <p className="text-sm text-gray-400">
+            Events that overlap your classes are flagged in the feed, and you can hide them with
+            the “Hide events during my classes” filter.
+          </p>
+
+          <div className="rounded-2xl bg-white/5 border border-white/10 p-4">
+            <p className="text-sm text-gray-300">
+              Import the .ics file from your course registration site or calendar app. Importing
+              again replaces the classes from your last import; ones you added by hand stay.
+            </p>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && importFile(e.target.files[0])}
+            />
+            <button
+              onClick={() => fileRef.current?.click()}
+              disabled={busy}
+              className="mt-3 px-4 py-2 rounded-xl text-sm font-semibold text-white bg-gradient-to-r from-[#00BFFF] to-[#4C6EF5] hover:opacity-90 transition disabled:opacity-50 flex items-center gap-2"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Import .ics
+            </button>
+          </div>
+
+          {message && (
+            <p className={`text-sm ${message.error ? "text-rose-400" : "text-[#00BFFF]"}`}>
+              {message.text}
+            </p>
+          )}
+
+          <Section title="Your classes">
+            {!blocks ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 text-[#00BFFF] animate-spin" />
+              </div>
+            ) : !blocks.length ? (
+              <p className="text-sm text-gray-500">No classes yet.</p>
+            ) : (
+              <div className="space-y-4">
+                {TIMETABLE_WEEKDAYS.filter((d) => blocks.some((b) => b.weekday === d)).map((d) => (
+                  <div key={d}>
+                    <p className="mb-2 text-xs font-semibold text-gray-500">{WEEKDAY_LABELS[d]}</p>
+                    <div className="space-y-2">
+                      {blocks
+                        .filter((b) => b.weekday === d)
+                        .map((b) => (
+                          <div
+                            key={b.id}
+                            className="flex items-center gap-3 rounded-xl bg-white/5 border border-white/10 px-3 py-2"
+                          >
+                            <div className="min-w-0 flex-1">
+                              <p className="truncate text-sm font-medium text-white">{b.title}</p>
+                              <p className="truncate text-xs text-gray-400">
+                                {formatClassTime(b.start_time)} – {formatClassTime(b.end_time)}
+                                {b.location && ` · ${b.location}`}
+                                {b.starts_on && b.starts_on === b.ends_on
+                                  ? ` · ${formatTermDay(b.starts_on)} only`
+                                  : b.ends_on && ` · until ${formatTermDay(b.ends_on)}`}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => remove(b)}
+                              className="p-2 rounded-lg text-gray-500 hover:text-rose-400 transition"
+                              title="Remove class"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Section>
+
+          <Section title="Add a class">
+            <input
+              value={form.title}
+              maxLength={200}
+              placeholder="Course, e.g. COMP 250"
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className="w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-[#00BFFF]"
+            />
+            <div className="mt-3 flex flex-wrap gap-2">
+              {TIMETABLE_WEEKDAYS.map((d) => (
+                <button
+                  key={d}
+                  onClick={() => toggleWeekday(d)}
+                  aria-pressed={form.weekdays.includes(d)}
+                  className={`px-3 py-1.5 rounded-full text-sm border transition ${
+                    form.weekdays.includes(d)
+                      ? "bg-gradient-to-r from-[#00BFFF]/25 to-[#4C6EF5]/25 border-[#00BFFF] text-white"
+                      : "bg-white/5 border-white/10 text-gray-300 hover:border-white/30"
+                  }`}
+                >
+                  {WEEKDAY_LABELS[d].slice(0, 3)}
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-400">
+                From
+                <input
+                  type="time"
+                  value={form.start}
+                  onChange={(e) => setForm({ ...form, start: e.target.value })}
+                  className="mt-1 w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-white [color-scheme:dark]"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                To
+                <input
+                  type="time"
+                  value={form.end}
+                  min={form.start || undefined}
+                  onChange={(e) => setForm({ ...form, end: e.target.value })}
+                  className="mt-1 w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-white [color-scheme:dark]"
+                />
+              </label>
+            </div>
+            <input
+              value={form.location}
+              placeholder="Location (optional)"
+              onChange={(e) => setForm({ ...form, location: e.target.value })}
+              className="mt-3 w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-[#00BFFF]"
+            />
+            {form.start && form.end && form.end <= form.start && (
+              <p className="mt-2 text-xs text-rose-400">The class has to end after it starts.</p>
+            )}
+            <button
+              onClick={addManual}
+              disabled={busy || !valid}
+              className="mt-3 px-4 py-2 rounded-xl text-sm font-semibold text-white bg-white/10 hover:bg-white/15 transition disabled:opacity-40 flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add class
+            </button>
+          </Section>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(sheet, document.body);
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+/** Snackbar above the bottom nav; the parent unmounts it via onDismiss. */
+export function Toast({ message, actionLabel, onAction, onDismiss, duration = 6000 }: ToastProps) {
+  // Parents pass inline callbacks; re-rendering them must not restart the timer
+  const dismissRef = useRef(onDismiss);
+  useEffect(() => {
+    dismissRef.current = onDismiss;
+  }, [onDismiss]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismissRef.current(), duration);
+    return () => clearTimeout(timer);
+  }, [message, duration]);
+
+  return createPortal(
+    <div
+      role="status"
+      className="fixed bottom-24 left-1/2 z-[10000] flex w-[calc(100%-2rem)] max-w-md -translate-x-1/2 items-center gap-3 rounded-2xl border border-white/10 bg-[#1a1d29]/95 px-4 py-3 text-sm text-white shadow-2xl backdrop-blur animate-slideUp"
+    >
+      <span className="flex-1">{message}</span>
+      {actionLabel && onAction && (
+        <button
+          onClick={() => {
+            onAction();
+            onDismiss();
+          }}
+          className="font-semibold text-[#00BFFF] hover:underline"
+        >
+          {actionLabel}
+        </button>
+      )}
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { RefreshCw } from "lucide-react";
+import { applyUpdate, onUpdateAvailable } from "../lib/serviceWorker";
+
+/** Banner shown when a new build is installed and waiting to take over. */
+export function UpdatePrompt() {
+  const [worker, setWorker] = useState<ServiceWorker | null>(null);
+  const [reloading, setReloading] = useState(false);
+
+  useEffect(() => onUpdateAvailable(setWorker), []);
+
+  if (!worker) return null;
+
+  return createPortal(
+    <div
+      role="status"
+      className="fixed top-4 left-1/2 z-[10000] flex w-[calc(100%-2rem)] max-w-md -translate-x-1/2 items-center gap-3 rounded-2xl border border-[#00BFFF]/30 bg-[#1a1d29]/95 px-4 py-3 text-sm text-white shadow-2xl backdrop-blur animate-slideUp"
+    >
+      <span className="flex-1">A new version of vybin is available.</span>
+      <button
+        onClick={() => {
+          setReloading(true);
+          applyUpdate(worker);
+        }}
+        disabled={reloading}
+        className="flex items-center gap-1.5 font-semibold text-[#00BFFF] hover:underline disabled:opacity-60"
+      >
+        <RefreshCw className={`h-4 w-4 ${reloading ? "animate-spin" : ""}`} /> Reload
+      </button>
+      <button
+        onClick={() => setWorker(null)}
+        className="text-gray-400 hover:text-white"
+      >
+        Later
+      </button>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,32 @@
+import { ConfirmDialog } from "./ConfirmDialog";
+
+interface WithdrawDialogProps {
+  /** Title of the event being withdrawn from; the dialog is closed when null. */
+  eventTitle: string | null;
+  busy: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function WithdrawDialog({ eventTitle, busy, onConfirm, onCancel }: WithdrawDialogProps) {
+  return (
+    <ConfirmDialog
+      isOpen={eventTitle !== null}
+      title="Withdraw application?"
+      confirmLabel={busy ? "Withdrawing..." : "Withdraw"}
+      destructive
+      busy={busy}
+      onConfirm={onConfirm}
+      onCancel={onCancel}
+    >
+      <p>
+        <span className="text-white">{eventTitle}</span> will be removed from your applications,
+        along with its status timeline.
+      </p>
+      <p>
+        Your subscribed vybin calendar drops it on its next refresh. A copy you downloaded
+        as an .ics file has to be deleted from your calendar by hand.
+      </p>
+    </ConfirmDialog>
+  );
+}
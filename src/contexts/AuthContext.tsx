@@ -1,5 +1,7 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { clearCache } from '../lib/localCache';
+import { removePushSubscription } from '../lib/push';
 import type { User, Session } from '@supabase/supabase-js';
 
 interface AuthContextType {
@@ -89,8 +91,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
+    await removePushSubscription().catch((err) => console.error('Error removing push subscription:', err));
     const { error } = await supabase.auth.signOut({ scope: 'global' });
     if (error) throw error;
+    await clearCache();
 
     setUser(null);
     setSession(null);
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "../lib/supabase";
+import { useAuth } from "./AuthContext";
+import { fetchAppliedEvents, fetchSavedEventIds, restoreApplication } from "../lib/repository";
+import { performEventAction, withPending } from "../lib/eventActions";
+import { onQueueChange, pendingActions, type QueuedAction, type QueuedActionKind } from "../lib/offlineQueue";
+import { readCache, useOnlineStatus, writeCache } from "../lib/localCache";
+import { findScheduleClashes, type ScheduleClashes } from "../lib/timetable";
+import type { ApplicationRow } from "../lib/models";
+import { ClashDialog } from "../components/ClashDialog";
+import {
+  UserEventsContext,
+  type ApplyTarget,
+  type EventRef,
+  type UserEventsContextType,
+} from "./useUserEvents";
+
+/** Server-side ids, as stored in the local cache. */
+interface UserEventsCache {
+  saved: string[];
+  applied: string[];
+}
+
+type PendingChange = Pick<QueuedAction, "kind" | "event_id">;
+
+const withId = (ids: Set<string>, id: string, present: boolean) => {
+  if (ids.has(id) === present) return ids;
+  const next = new Set(ids);
+  if (present) next.add(id);
+  else next.delete(id);
+  return next;
+};
+
+/**
+ * The signed-in user's saves and applications, shared by every tab. Changes
+ * show immediately and are rolled back if the server refuses them; Realtime
+ * brings in changes made on other devices.
+ */
+export function UserEventsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const online = useOnlineStatus();
+  const [saved, setSavedIds] = useState<Set<string>>(new Set());
+  const [applied, setApplied] = useState<Set<string>>(new Set());
+  const [loaded, setLoaded] = useState(false);
+  // application id -> event id; Realtime deletes only carry the primary key
+  const applicationEvents = useRef(new Map<string, string>());
+  // Writes still waiting for the server, laid over reloads like queued actions
+  const inFlight = useRef<PendingChange[]>([]);
+  // Bumped per load so an older response can't replace a newer one
+  const loadRef = useRef(0);
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+    const request = ++loadRef.current;
+    const [server, queued] = await Promise.all([
+      Promise.all([fetchSavedEventIds(userId), fetchAppliedEvents(userId)]).catch((err) => {
+        console.error("Error loading saved and applied events:", err);
+        return null;
+      }),
+      pendingActions(userId).catch(() => []),
+    ]);
+
+    let state: UserEventsCache | undefined;
+    if (server) {
+      const [savedIds, applications] = server;
+      applicationEvents.current = new Map(applications.map((a) => [a.id, a.event_id]));
+      state = { saved: savedIds, applied: applications.map((a) => a.event_id) };
+      writeCache(userId, "user-events", state);
+    } else {
+      state = (await readCache<UserEventsCache>(userId, "user-events"))?.data;
+    }
+    if (request !== loadRef.current) return;
+
+    if (state) {
+      const changes = [...queued, ...inFlight.current];
+      setSavedIds(withPending(state.saved, changes, "save", "unsave"));
+      setApplied(withPending(state.applied, changes, "apply", "withdraw"));
+    }
+    setLoaded(true);
+  }, [userId]);
+
+  useEffect(() => {
+    setSavedIds(new Set());
+    setApplied(new Set());
+    setLoaded(false);
+    applicationEvents.current = new Map();
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+    // Replays (and conflicts dropped during them) change what the server has
+    return onQueueChange(load);
+  }, [load, online]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const filter = `user_id=eq.${userId}`;
+    const channel = supabase
+      .channel(`user-events:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "saved_events", filter },
+        ({ new: row }) => setSavedIds((ids) => withId(ids, row.event_id, true))
+      )
+      // Realtime can't filter deletes; a save's primary key includes user_id
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "saved_events" },
+        ({ old }) => {
+          if (old.user_id === userId) setSavedIds((ids) => withId(ids, old.event_id, false));
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "applications", filter },
+        ({ new: row }) => {
+          applicationEvents.current.set(row.id, row.event_id);
+          setApplied((ids) => withId(ids, row.event_id, true));
+        }
+      )
+      // Only the id arrives, so ids we don't know are someone else's
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "applications" },
+        ({ old }) => {
+          const eventId = applicationEvents.current.get(old.id);
+          if (!eventId) return;
+          applicationEvents.current.delete(old.id);
+          setApplied((ids) => withId(ids, eventId, false));
+        }
+      )
+      .subscribe((status) => {
+        // Catch up on anything missed while the channel was down
+        if (status === "SUBSCRIBED") load();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, load]);
+
+  const run = useCallback(
+    async (kind: QueuedActionKind, event: EventRef) => {
+      if (!userId) throw new Error("Not signed in");
+      const update = kind === "save" || kind === "unsave" ? setSavedIds : setApplied;
+      const present = kind === "save" || kind === "apply";
+      const change: PendingChange = { kind, event_id: event.id };
+
+      inFlight.current.push(change);
+      update((ids) => withId(ids, event.id, present));
+      try {
+        const result = await performEventAction({
+          kind,
+          user_id: userId,
+          event_id: event.id,
+          event_title: event.title,
+        });
+        if (!result.queued && result.application) {
+          if (kind === "apply") applicationEvents.current.set(result.application.id, event.id);
+          else applicationEvents.current.delete(result.application.id);
+        }
+        return result;
+      } catch (err) {
+        update((ids) => withId(ids, event.id, !present));
+        throw err;
+      } finally {
+        inFlight.current = inFlight.current.filter((c) => c !== change);
+      }
+    },
+    [userId]
+  );
+
+  const restore = useCallback(async (row: ApplicationRow) => {
+    const change: PendingChange = { kind: "apply", event_id: row.event_id };
+    inFlight.current.push(change);
+    setApplied((ids) => withId(ids, row.event_id, true));
+    try {
+      await restoreApplication(row);
+      applicationEvents.current.set(row.id, row.event_id);
+    } catch (err) {
+      setApplied((ids) => withId(ids, row.event_id, false));
+      throw err;
+    } finally {
+      inFlight.current = inFlight.current.filter((c) => c !== change);
+    }
+  }, []);
+
+  const setSaved = useCallback(
+    (event: EventRef, on: boolean) => run(on ? "save" : "unsave", event),
+    [run]
+  );
+
+  // An application waiting for the user to accept that it clashes with their schedule
+  const [clash, setClash] = useState<(ScheduleClashes & { title: string }) | null>(null);
+  const answerClash = useRef<((confirmed: boolean) => void) | null>(null);
+  // Read at apply time so `apply` keeps its identity as applications change
+  const appliedRef = useRef(applied);
+  useEffect(() => {
+    appliedRef.current = applied;
+  }, [applied]);
+
+  const applyChecked = useCallback(
+    async (event: ApplyTarget, options?: { checkClashes?: boolean }) => {
+      if (!userId) throw new Error("Not signed in");
+      if (options?.checkClashes !== false) {
+        const found = await findScheduleClashes(userId, event, appliedRef.current);
+        if (found.classes.length || found.applications.length) {
+          // A dialog still open for another event counts as declined
+          answerClash.current?.(false);
+          const confirmed = await new Promise<boolean>((resolve) => {
+            answerClash.current = resolve;
+            setClash({ title: event.title, ...found });
+          });
+          if (!confirmed) return null;
+        }
+      }
+      return run("apply", event);
+    },
+    [userId, run]
+  );
+
+  const settleClash = (confirmed: boolean) => {
+    answerClash.current?.(confirmed);
+    answerClash.current = null;
+    setClash(null);
+  };
+
+  const value = useMemo<UserEventsContextType>(
+    () => ({
+      saved,
+      applied,
+      loaded,
+      setSaved,
+      apply: applyChecked,
+      withdraw: (event) => run("withdraw", event),
+      restore,
+    }),
+    [saved, applied, loaded, setSaved, run, applyChecked, restore]
+  );
+
+  return (
+    <UserEventsContext.Provider value={value}>
+      {children}
+      <ClashDialog
+        clash={clash}
+        onConfirm={() => settleClash(true)}
+        onCancel={() => settleClash(false)}
+      />
+    </UserEventsContext.Provider>
+  );
+}
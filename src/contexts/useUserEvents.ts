@@ -0,0 +1,41 @@
+import { createContext, useContext } from "react";
+import type { EventTiming } from "../lib/datetime";
+import type { EventActionResult } from "../lib/eventActions";
+import type { ApplicationRow, Event } from "../lib/models";
+
+export type EventRef = Pick<Event, "id" | "title">;
+
+/** An event to apply to; its timing is what the schedule clash check compares. */
+export type ApplyTarget = EventRef & EventTiming;
+
+export interface UserEventsContextType {
+  /** Ids of the events the user saved, including saves still waiting to sync. */
+  saved: Set<string>;
+  /** Ids of the events the user applied to, including queued applications. */
+  applied: Set<string>;
+  /** False until the first load (from the network or the local cache) finishes. */
+  loaded: boolean;
+  setSaved: (event: EventRef, saved: boolean) => Promise<EventActionResult>;
+  /**
+   * Asks first when the event overlaps a class or another application, and
+   * resolves to null if the user backs out. Undo passes `checkClashes: false`.
+   */
+  apply: (
+    event: ApplyTarget,
+    options?: { checkClashes?: boolean }
+  ) => Promise<EventActionResult | null>;
+  withdraw: (event: EventRef) => Promise<EventActionResult>;
+  /** Puts a withdrawn application back, for undo. */
+  restore: (row: ApplicationRow) => Promise<void>;
+}
+
+export const UserEventsContext = createContext<UserEventsContextType | undefined>(undefined);
+
+/** The saved and applied state kept by UserEventsProvider. */
+export function useUserEvents() {
+  const context = useContext(UserEventsContext);
+  if (context === undefined) {
+    throw new Error("useUserEvents must be used within a UserEventsProvider");
+  }
+  return context;
+}
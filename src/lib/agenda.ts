@@ -0,0 +1,127 @@
+// Day grouping and overlap detection for the calendar view of the user's saved
+// and applied events. Days are keyed "YYYY-MM-DD" in the viewer's time zone,
+// except all-day events, which stay on their calendar dates.
+
+import { useState } from "react";
+import { eventEnd } from "./datetime";
+import type { Event } from "./models";
+
+export interface CalendarEntry {
+  event: Event;
+  saved: boolean;
+  applied: boolean;
+}
+
+// Longest stretch a single event is drawn across, so a bad end_date can't fill the calendar
+const MAX_DAYS = 31;
+
+/** "2025-11-20" for the day `date` falls on in `timeZone` (default: the viewer's). */
+export const dayKey = (date: Date, timeZone?: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+
+/** Local midnight of a day key. */
+export const keyDate = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+/** Every day the event is on, first to last. */
+export function eventDays(ev: Event) {
+  let first: string;
+  let last: string;
+  if (ev.all_day) {
+    const timeZone = ev.timezone || undefined;
+    first = dayKey(new Date(ev.date), timeZone);
+    last = ev.end_date ? dayKey(new Date(ev.end_date), timeZone) : first;
+  } else {
+    first = dayKey(new Date(ev.date));
+    // An event ending at midnight doesn't spill into the next day
+    last = dayKey(new Date(Math.max(new Date(ev.date).getTime(), eventEnd(ev).getTime() - 1)));
+  }
+
+  const days = [first];
+  const day = keyDate(first);
+  while (days[days.length - 1] < last && days.length < MAX_DAYS) {
+    day.setDate(day.getDate() + 1);
+    days.push(dayKey(day));
+  }
+  return days;
+}
+
+/** Entries by day key, each day ordered all-day first, then by start time. */
+export function groupByDay(entries: CalendarEntry[]) {
+  const byDay = new Map<string, CalendarEntry[]>();
+  for (const entry of entries) {
+    for (const key of eventDays(entry.event)) {
+      if (!byDay.has(key)) byDay.set(key, []);
+      byDay.get(key)!.push(entry);
+    }
+  }
+  for (const list of byDay.values()) {
+    list.sort(
+      (a, b) =>
+        Number(!a.event.all_day) - Number(!b.event.all_day) ||
+        new Date(a.event.date).getTime() - new Date(b.event.date).getTime()
+    );
+  }
+  return byDay;
+}
+
+/**
+ * Ids of timed events that overlap another one. All-day events are left out:
+ * a fair running all day doesn't clash with a workshop during it.
+ */
+export function findOverlaps(entries: CalendarEntry[]) {
+  const timed = entries
+    .filter((e) => !e.event.all_day)
+    .map((e) => ({
+      id: e.event.id,
+      start: new Date(e.event.date).getTime(),
+      end: eventEnd(e.event).getTime(),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const overlapping = new Set<string>();
+  for (let i = 0; i < timed.length; i++) {
+    for (let j = i + 1; j < timed.length && timed[j].start < timed[i].end; j++) {
+      overlapping.add(timed[i].id);
+      overlapping.add(timed[j].id);
+    }
+  }
+  return overlapping;
+}
+
+/** The six weeks shown for the month containing `month`, starting on Sunday. */
+export function monthGrid(month: Date) {
+  const start = new Date(month.getFullYear(), month.getMonth(), 1);
+  start.setDate(start.getDate() - start.getDay());
+  return Array.from({ length: 42 }, (_, i) => {
+    const day = new Date(start);
+    day.setDate(start.getDate() + i);
+    return day;
+  });
+}
+
+/** Whether `key` is before today, for dimming past days. */
+export const isPastDay = (key: string, now = Date.now()) => key < dayKey(new Date(now));
+
+export type EventsView = "list" | "calendar";
+
+const VIEW_KEY = "vybin:events-view";
+
+/**
+ * Whether the Applications and Saved tabs show their lists or the calendar.
+ * Remembered across tabs and visits.
+ */
+export function useEventsView() {
+  const [view, setView] = useState<EventsView>(() =>
+    localStorage.getItem(VIEW_KEY) === "calendar" ? "calendar" : "list"
+  );
+
+  const update = (next: EventsView) => {
+    localStorage.setItem(VIEW_KEY, next);
+    setView(next);
+  };
+
+  return [view, update] as const;
+}
@@ -0,0 +1,47 @@
+// Mirrors applications_status_check; listed in lifecycle order
+export const APPLICATION_STATUSES = [
+  "interested",
+  "applied",
+  "accepted",
+  "waitlisted",
+  "rejected",
+  "attended",
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  interested: "Interested",
+  applied: "Applied",
+  accepted: "Accepted",
+  waitlisted: "Waitlisted",
+  rejected: "Rejected",
+  attended: "Attended",
+};
+
+/** Text, background and border classes for each status badge. */
+export const APPLICATION_STATUS_STYLES: Record<ApplicationStatus, string> = {
+  interested: "text-gray-300 bg-white/5 border-white/15",
+  applied: "text-[#00BFFF] bg-[#00BFFF]/10 border-[#00BFFF]/40",
+  accepted: "text-emerald-400 bg-emerald-400/10 border-emerald-400/40",
+  waitlisted: "text-amber-400 bg-amber-400/10 border-amber-400/40",
+  rejected: "text-rose-400 bg-rose-400/10 border-rose-400/40",
+  attended: "text-[#A78BFA] bg-[#7C3AED]/15 border-[#7C3AED]/50",
+};
+
+export const isApplicationStatus = (v: unknown): v is ApplicationStatus =>
+  APPLICATION_STATUSES.includes(v as ApplicationStatus);
+
+// Mirrors application_status_transition_allowed(): a step forward, or back one to fix a mistake
+const STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  interested: ["applied"],
+  applied: ["interested", "waitlisted", "accepted", "rejected"],
+  waitlisted: ["applied", "accepted", "rejected"],
+  accepted: ["applied", "waitlisted", "attended"],
+  rejected: ["applied", "waitlisted"],
+  attended: ["accepted"],
+};
+
+/** The statuses an application in `status` can be set to, itself included, in lifecycle order. */
+export const reachableStatuses = (status: ApplicationStatus) =>
+  APPLICATION_STATUSES.filter((s) => s === status || STATUS_TRANSITIONS[status].includes(s));
@@ -0,0 +1,114 @@
+import { buildCalendar, type IcsEvent } from "./ics";
+import type { EventTiming } from "./datetime";
+import {
+  deleteCalendarFeedToken,
+  fetchApplicationCalendarEntries,
+  fetchApplicationCalendarEntry,
+  fetchCalendarFeedToken,
+  fetchEvents,
+} from "./repository";
+import { eventPath } from "./router";
+
+interface CalendarSource extends EventTiming {
+  id: string;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  link?: string | null;
+}
+
+const APP_URL = typeof window !== "undefined" ? window.location.origin : "";
+
+/** Maps an event row to an iCalendar entry. Applications pass their own UID and sequence. */
+export function toIcsEvent(
+  ev: CalendarSource,
+  entry?: { uid: string | null; sequence: number; updatedAt?: string | null }
+): IcsEvent {
+  return {
+    uid: entry?.uid || `${ev.id}@vybin.app`,
+    sequence: entry?.sequence ?? 0,
+    lastModified: entry?.updatedAt ? new Date(entry.updatedAt) : undefined,
+    title: ev.title,
+    start: new Date(ev.date),
+    end: ev.end_date ? new Date(ev.end_date) : undefined,
+    allDay: ev.all_day ?? false,
+    timeZone: ev.timezone ?? undefined,
+    description: ev.description,
+    location: ev.location,
+    url: ev.link || APP_URL + eventPath(ev.id),
+  };
+}
+
+const fileName = (title: string) =>
+  `${title.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-").toLowerCase() || "event"}.ics`;
+
+function download(name: string, ics: string) {
+  const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Some browsers read the blob after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 10 * 1000);
+}
+
+/** Pass the application's calendar entry so the file and the subscribed feed share a UID. */
+export function downloadEventIcs(
+  ev: CalendarSource,
+  entry?: { uid: string | null; sequence: number; updatedAt?: string | null }
+) {
+  download(fileName(ev.title), buildCalendar({ name: ev.title, events: [toIcsEvent(ev, entry)] }));
+}
+
+/**
+ * Downloads one event for the signed-in user. An event they applied to gets the
+ * application's UID, so calendars update the entry the subscribed feed made.
+ */
+export async function downloadUserEventIcs(userId: string, ev: CalendarSource) {
+  const app = await fetchApplicationCalendarEntry(userId, ev.id);
+  downloadEventIcs(
+    ev,
+    app
+      ? { uid: app.google_calendar_id, sequence: app.calendar_sequence, updatedAt: app.calendar_updated_at }
+      : undefined
+  );
+}
+
+/** Downloads every application as one .ics, using the same UIDs as the subscribed feed. */
+export async function downloadApplicationsIcs(userId: string) {
+  const apps = await fetchApplicationCalendarEntries(userId);
+  const rows = await fetchEvents(apps.map((a) => a.event_id));
+
+  const byId = new Map(rows.map((e) => [e.id, e]));
+  const events = apps.flatMap((a) => {
+    const ev = byId.get(a.event_id);
+    return ev
+      ? [
+          toIcsEvent(ev, {
+            uid: a.google_calendar_id,
+            sequence: a.calendar_sequence,
+            updatedAt: a.calendar_updated_at,
+          }),
+        ]
+      : [];
+  });
+  download("vybin-applications.ics", buildCalendar({ name: "vybin applications", events }));
+}
+
+const feedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+/** Returns the user's subscribable feed URL, creating the token on first use. */
+export async function getCalendarFeedUrl(userId: string) {
+  return feedUrl(await fetchCalendarFeedToken(userId));
+}
+
+/** Invalidates the old feed URL (e.g. after it was shared by mistake) and returns a new one. */
+export async function rotateCalendarFeedUrl(userId: string) {
+  await deleteCalendarFeedToken(userId);
+  return getCalendarFeedUrl(userId);
+}
+
+export const webcalUrl = (httpsUrl: string) => httpsUrl.replace(/^https?:\/\//, "webcal://");
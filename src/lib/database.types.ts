@@ -1,3 +1,11 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
 export type Database = {
   public: {
     Tables: {
@@ -5,27 +13,37 @@ export type Database = {
         Row: {
           id: string;
           email: string;
-          display_name: string;
-          avatar_url: string;
+          full_name: string | null;
+          display_name: string | null;
+          avatar_url: string | null;
+          banner_url: string | null;
           onboarded: boolean;
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id: string;
           email: string;
-          display_name?: string;
-          avatar_url?: string;
+          full_name?: string | null;
+          display_name?: string | null;
+          avatar_url?: string | null;
+          banner_url?: string | null;
           onboarded?: boolean;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: string;
           email?: string;
-          display_name?: string;
-          avatar_url?: string;
+          full_name?: string | null;
+          display_name?: string | null;
+          avatar_url?: string | null;
+          banner_url?: string | null;
           onboarded?: boolean;
           created_at?: string;
+          updated_at?: string;
         };
+        Relationships: [];
       };
       interests: {
         Row: {
@@ -46,6 +64,7 @@ export type Database = {
           icon?: string;
           created_at?: string;
         };
+        Relationships: [];
       };
       user_interests: {
         Row: {
@@ -63,50 +82,80 @@ export type Database = {
           interest_id?: string;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "user_interests_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_interests_interest_id_fkey";
+            columns: ["interest_id"];
+            isOneToOne: false;
+            referencedRelation: "interests";
+            referencedColumns: ["id"];
+          },
+        ];
       };
       events: {
         Row: {
           id: string;
           title: string;
-          description: string;
-          event_type: string;
-          organization: string;
-          location: string;
+          description: string | null;
+          event_type: string | null;
+          organization: string | null;
+          location: string | null;
           date: string;
           deadline: string | null;
-          image_url: string;
-          prize: string;
-          tags: string[];
+          image_url: string | null;
+          prize: string | null;
+          tags: string[] | null;
+          link: string | null;
+          end_date: string | null;
+          all_day: boolean;
+          timezone: string;
           created_at: string;
+          search_vector: string | null;
         };
         Insert: {
           id?: string;
           title: string;
-          description?: string;
-          event_type?: string;
-          organization?: string;
-          location?: string;
+          description?: string | null;
+          event_type?: string | null;
+          organization?: string | null;
+          location?: string | null;
           date: string;
           deadline?: string | null;
-          image_url?: string;
-          prize?: string;
-          tags?: string[];
+          image_url?: string | null;
+          prize?: string | null;
+          tags?: string[] | null;
+          link?: string | null;
+          end_date?: string | null;
+          all_day?: boolean;
+          timezone?: string;
           created_at?: string;
         };
         Update: {
           id?: string;
           title?: string;
-          description?: string;
-          event_type?: string;
-          organization?: string;
-          location?: string;
+          description?: string | null;
+          event_type?: string | null;
+          organization?: string | null;
+          location?: string | null;
           date?: string;
           deadline?: string | null;
-          image_url?: string;
-          prize?: string;
-          tags?: string[];
+          image_url?: string | null;
+          prize?: string | null;
+          tags?: string[] | null;
+          link?: string | null;
+          end_date?: string | null;
+          all_day?: boolean;
+          timezone?: string;
           created_at?: string;
         };
+        Relationships: [];
       };
       applications: {
         Row: {
@@ -114,7 +163,9 @@ export type Database = {
           user_id: string;
           event_id: string;
           status: string;
-          google_calendar_id: string;
+          google_calendar_id: string | null;
+          calendar_sequence: number;
+          calendar_updated_at: string;
           created_at: string;
           updated_at: string;
         };
@@ -123,7 +174,9 @@ export type Database = {
           user_id: string;
           event_id: string;
           status?: string;
-          google_calendar_id?: string;
+          google_calendar_id?: string | null;
+          calendar_sequence?: number;
+          calendar_updated_at?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -132,28 +185,606 @@ export type Database = {
           user_id?: string;
           event_id?: string;
           status?: string;
-          google_calendar_id?: string;
+          google_calendar_id?: string | null;
+          calendar_sequence?: number;
+          calendar_updated_at?: string;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "applications_event_id_fkey";
+            columns: ["event_id"];
+            isOneToOne: false;
+            referencedRelation: "events";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      application_status_history: {
+        Row: {
+          id: string;
+          application_id: string;
+          user_id: string;
+          from_status: string | null;
+          to_status: string;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          application_id: string;
+          user_id: string;
+          from_status?: string | null;
+          to_status: string;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          application_id?: string;
+          user_id?: string;
+          from_status?: string | null;
+          to_status?: string;
+          changed_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "application_status_history_application_id_fkey";
+            columns: ["application_id"];
+            isOneToOne: false;
+            referencedRelation: "applications";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      calendar_feeds: {
+        Row: {
+          user_id: string;
+          token: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          token?: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          token?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      calendar_cancellations: {
+        Row: {
+          user_id: string;
+          uid: string;
+          title: string;
+          starts_at: string;
+          sequence: number;
+          cancelled_at: string;
+        };
+        Insert: {
+          user_id: string;
+          uid: string;
+          title: string;
+          starts_at: string;
+          sequence?: number;
+          cancelled_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          uid?: string;
+          title?: string;
+          starts_at?: string;
+          sequence?: number;
+          cancelled_at?: string;
+        };
+        Relationships: [];
       };
       saved_events: {
         Row: {
           user_id: string;
           event_id: string;
+          collection_id: string | null;
+          note: string | null;
+          priority: string | null;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          event_id: string;
+          collection_id?: string | null;
+          note?: string | null;
+          priority?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          event_id?: string;
+          collection_id?: string | null;
+          note?: string | null;
+          priority?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "saved_events_collection_fkey";
+            columns: ["collection_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "collections";
+            referencedColumns: ["id", "user_id"];
+          },
+          {
+            foreignKeyName: "saved_events_event_id_fkey";
+            columns: ["event_id"];
+            isOneToOne: false;
+            referencedRelation: "events";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      collections: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      class_blocks: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string;
+          location: string | null;
+          weekday: number;
+          start_time: string;
+          end_time: string;
+          starts_on: string | null;
+          ends_on: string | null;
+          timezone: string;
+          source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title: string;
+          location?: string | null;
+          weekday: number;
+          start_time: string;
+          end_time: string;
+          starts_on?: string | null;
+          ends_on?: string | null;
+          timezone?: string;
+          source?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          title?: string;
+          location?: string | null;
+          weekday?: number;
+          start_time?: string;
+          end_time?: string;
+          starts_on?: string | null;
+          ends_on?: string | null;
+          timezone?: string;
+          source?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      user_feed_filters: {
+        Row: {
+          user_id: string;
+          filters: Json;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          filters?: Json;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          filters?: Json;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      user_preferences: {
+        Row: {
+          id: string;
+          user_id: string;
+          interest_name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          interest_name: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          interest_name?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      interest_keywords: {
+        Row: {
+          id: string;
+          interest_id: string;
+          keyword: string;
+          weight: number;
+          synonyms: string[];
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          interest_id: string;
+          keyword: string;
+          weight?: number;
+          synonyms?: string[];
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          interest_id?: string;
+          keyword?: string;
+          weight?: number;
+          synonyms?: string[];
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "interest_keywords_interest_id_fkey";
+            columns: ["interest_id"];
+            isOneToOne: false;
+            referencedRelation: "interests";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      event_interests: {
+        Row: {
+          event_id: string;
+          interest_id: string;
+          score: number;
+          confidence: number;
+          matched_keywords: string[];
+          created_at: string;
+        };
+        Insert: {
+          event_id: string;
+          interest_id: string;
+          score: number;
+          confidence: number;
+          matched_keywords?: string[];
+          created_at?: string;
+        };
+        Update: {
+          event_id?: string;
+          interest_id?: string;
+          score?: number;
+          confidence?: number;
+          matched_keywords?: string[];
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "event_interests_event_id_fkey";
+            columns: ["event_id"];
+            isOneToOne: false;
+            referencedRelation: "events";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "event_interests_interest_id_fkey";
+            columns: ["interest_id"];
+            isOneToOne: false;
+            referencedRelation: "interests";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      event_interactions: {
+        Row: {
+          id: string;
+          user_id: string;
+          event_id: string;
+          kind: "view" | "save" | "unsave" | "apply" | "withdraw";
           created_at: string;
         };
         Insert: {
+          id?: string;
           user_id: string;
           event_id: string;
+          kind: "view" | "save" | "unsave" | "apply" | "withdraw";
           created_at?: string;
         };
         Update: {
+          id?: string;
           user_id?: string;
           event_id?: string;
+          kind?: "view" | "save" | "unsave" | "apply" | "withdraw";
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "event_interactions_event_id_fkey";
+            columns: ["event_id"];
+            isOneToOne: false;
+            referencedRelation: "events";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      user_affinities: {
+        Row: {
+          user_id: string;
+          feature_type: "organization" | "event_type" | "tag" | "interest";
+          feature_value: string;
+          weight: number;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          feature_type: "organization" | "event_type" | "tag" | "interest";
+          feature_value: string;
+          weight?: number;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          feature_type?: "organization" | "event_type" | "tag" | "interest";
+          feature_value?: string;
+          weight?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent: string | null;
+          created_at: string;
+          updated_at: string;
+          last_sent_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          last_sent_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          endpoint?: string;
+          p256dh?: string;
+          auth?: string;
+          user_agent?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          last_sent_at?: string | null;
+        };
+        Relationships: [];
+      };
+      notification_preferences: {
+        Row: {
+          user_id: string;
+          channels: Json;
+          quiet_hours_start: string | null;
+          quiet_hours_end: string | null;
+          timezone: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          channels?: Json;
+          quiet_hours_start?: string | null;
+          quiet_hours_end?: string | null;
+          timezone?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          channels?: Json;
+          quiet_hours_start?: string | null;
+          quiet_hours_end?: string | null;
+          timezone?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          kind: string | null;
+          title: string;
+          body: string | null;
+          url: string | null;
+          event_id: string | null;
+          read: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          kind?: string | null;
+          title: string;
+          body?: string | null;
+          url?: string | null;
+          event_id?: string | null;
+          read?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          kind?: string | null;
+          title?: string;
+          body?: string | null;
+          url?: string | null;
+          event_id?: string | null;
+          read?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_event_id_fkey";
+            columns: ["event_id"];
+            isOneToOne: false;
+            referencedRelation: "events";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+    };
+    Views: Record<string, never>;
+    Functions: {
+      feed_events: {
+        Args: {
+          p_interests?: string[];
+          p_filters?: Json;
+          p_query?: string | null;
+          p_tz?: string;
+          p_after_score?: number | null;
+          p_after_date?: string | null;
+          p_after_id?: string | null;
+          p_limit?: number;
+          p_affinities?: Json | null;
+        };
+        Returns: {
+          id: string;
+          title: string;
+          description: string | null;
+          event_type: string | null;
+          organization: string | null;
+          location: string | null;
+          date: string;
+          deadline: string | null;
+          image_url: string | null;
+          prize: string | null;
+          tags: string[] | null;
+          link: string | null;
+          end_date: string | null;
+          all_day: boolean;
+          timezone: string;
+          score: number;
+          personal_score: number;
+          reason_kind: string | null;
+          reason_title: string | null;
+          title_highlight: string | null;
+          description_highlight: string | null;
+        }[];
+      };
+      feed_facets: {
+        Args: {
+          p_interests?: string[];
+          p_filters?: Json;
+          p_query?: string | null;
+          p_tz?: string;
+        };
+        Returns: Json;
+      };
+      similar_events: {
+        Args: {
+          p_event_id: string;
+          p_limit?: number;
+        };
+        Returns: {
+          id: string;
+          title: string;
+          description: string | null;
+          event_type: string | null;
+          organization: string | null;
+          location: string | null;
+          date: string;
+          deadline: string | null;
+          image_url: string | null;
+          prize: string | null;
+          tags: string[] | null;
+          link: string | null;
+          end_date: string | null;
+          all_day: boolean;
+          timezone: string;
+          similarity: number;
+          shared_tags: string[];
+        }[];
+      };
+      save_push_subscription: {
+        Args: {
+          p_endpoint: string;
+          p_p256dh: string;
+          p_auth: string;
+          p_user_agent?: string | null;
+          p_old_endpoint?: string | null;
+        };
+        Returns: undefined;
+      };
+      wants_notification: {
+        Args: {
+          p_user_id: string;
+          p_kind: string;
+          p_channel: string;
+          p_at?: string;
+        };
+        Returns: boolean;
+      };
+      create_notification: {
+        Args: {
+          p_user_id: string;
+          p_kind: string | null;
+          p_title: string;
+          p_body?: string | null;
+          p_url?: string | null;
+          p_event_id?: string | null;
+        };
+        Returns: string | null;
+      };
+      claim_deadline_reminders: {
+        Args: {
+          p_days?: number;
+        };
+        Returns: {
+          user_id: string;
+          event_id: string;
+          title: string;
+          body: string;
+          push: boolean;
+        }[];
       };
     };
+    Enums: Record<string, never>;
+    CompositeTypes: Record<string, never>;
   };
 };
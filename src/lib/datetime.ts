@@ -0,0 +1,131 @@
+// Shared date/time formatting. Everything renders in the viewer's time zone and
+// locale; ranges name that zone when the event is organized in a different one.
+
+export interface EventTiming {
+  date: string;
+  end_date?: string | null;
+  all_day?: boolean | null;
+  timezone?: string | null;
+}
+
+// Used wherever an event has no end_date
+export const DEFAULT_EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+export const userTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const userLocale = () =>
+  (typeof navigator !== "undefined" && navigator.languages?.[0]) || undefined;
+
+const format = (iso: string | Date, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat(userLocale(), options).format(new Date(iso));
+
+/** "Nov 20, 2025" */
+export const formatDate = (iso: string) =>
+  format(iso, { month: "short", day: "numeric", year: "numeric" });
+
+/** "Nov 20" */
+export const formatShortDate = (iso: string) => format(iso, { month: "short", day: "numeric" });
+
+/** "Nov 20, 3:00 PM" */
+export const formatDateTime = (iso: string) =>
+  format(iso, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+/** "Thu, Nov 20, 3:00 PM" */
+export const formatLongDateTime = (iso: string) =>
+  format(iso, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/** "3:00 PM" */
+export const formatTime = (iso: string) => format(iso, { hour: "numeric", minute: "2-digit" });
+
+/** "Thursday, Nov 20" */
+export const formatDayHeading = (date: Date) =>
+  format(date, { weekday: "long", month: "short", day: "numeric" });
+
+/** "November 2025" */
+export const formatMonth = (date: Date) => format(date, { month: "long", year: "numeric" });
+
+/** "T" for Thursday, for calendar column headings. */
+export const formatWeekdayInitial = (date: Date) => format(date, { weekday: "narrow" });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * End of the event, falling back to DEFAULT_EVENT_DURATION_MS (or the whole day)
+ * when unknown. An all-day `end_date` is the inclusive last day, so the event
+ * ends when that day does.
+ */
+export function eventEnd(ev: EventTiming) {
+  if (ev.end_date) {
+    const end = new Date(ev.end_date);
+    return ev.all_day ? new Date(end.getTime() + DAY_MS) : end;
+  }
+  const start = new Date(ev.date);
+  if (ev.all_day) return new Date(start.getTime() + DAY_MS);
+  return new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS);
+}
+
+const sameDay = (a: Date, b: Date, timeZone?: string) => {
+  const day = (d: Date) =>
+    new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(d);
+  return day(a) === day(b);
+};
+
+/**
+ * Full range for detail views, e.g. "Thu, Nov 20, 3:00 – 5:00 PM" or
+ * "Thu, Nov 20 – Sat, Nov 22" for all-day events. All-day dates are calendar
+ * dates in the event's zone, so they are shown in that zone rather than shifted.
+ */
+export function formatEventRange(ev: EventTiming) {
+  const start = new Date(ev.date);
+  const locale = userLocale();
+
+  if (ev.all_day) {
+    const timeZone = ev.timezone || undefined;
+    const day = new Intl.DateTimeFormat(locale, {
+      timeZone,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+    const end = ev.end_date ? new Date(ev.end_date) : null;
+    return end && !sameDay(start, end, timeZone)
+      ? `${day.format(start)} – ${day.format(end)} · All day`
+      : `${day.format(start)} · All day`;
+  }
+
+  const end = eventEnd(ev);
+  const range = sameDay(start, end)
+    ? `${formatLongDateTime(ev.date)} – ${format(end, { hour: "numeric", minute: "2-digit" })}`
+    : `${formatLongDateTime(ev.date)} – ${formatLongDateTime(end.toISOString())}`;
+
+  const viewerZone = userTimeZone();
+  if (!ev.timezone || ev.timezone === viewerZone) return range;
+  const zone = new Intl.DateTimeFormat(locale, { timeZoneName: "short" })
+    .formatToParts(start)
+    .find((p) => p.type === "timeZoneName")?.value;
+  return zone ? `${range} (${zone})` : range;
+}
+
+/** Compact label for cards: the date, plus the start time unless the event is all-day. */
+export const formatEventStart = (ev: EventTiming) =>
+  ev.all_day
+    ? format(ev.date, { timeZone: ev.timezone || undefined, month: "short", day: "numeric", year: "numeric" })
+    : formatLongDateTime(ev.date);
+
+/** "5 minutes ago", "yesterday"; falls back to the date after a week. */
+export function formatTimeAgo(iso: string, now = Date.now()) {
+  const seconds = Math.round((new Date(iso).getTime() - now) / 1000);
+  const rtf = new Intl.RelativeTimeFormat(userLocale(), { numeric: "auto" });
+  if (Math.abs(seconds) < 60) return rtf.format(0, "second");
+  if (Math.abs(seconds) < 3600) return rtf.format(Math.round(seconds / 60), "minute");
+  if (Math.abs(seconds) < 86400) return rtf.format(Math.round(seconds / 3600), "hour");
+  if (Math.abs(seconds) < 7 * 86400) return rtf.format(Math.round(seconds / 86400), "day");
+  return formatDate(iso);
+}
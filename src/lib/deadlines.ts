@@ -0,0 +1,101 @@
+import { formatLongDateTime } from "./datetime";
+import { eventPath } from "./router";
+import { loadNotificationPreferences, wantsNotification } from "./notificationPreferences";
+import { hasPushSubscription } from "./push";
+import { fetchEventsClosingBetween, fetchSavedEventIds } from "./repository";
+
+// Matches feed_deadline_matches('closing_soon') on the server
+export const CLOSING_SOON_DAYS = 7;
+// Saved events get a reminder this many days before their deadline; matches
+// REMINDER_DAYS in the deadline-reminders edge function
+export const DEADLINE_REMINDER_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DeadlineState = "none" | "open" | "closing" | "closed";
+
+export interface DeadlineInfo {
+  state: DeadlineState;
+  /** Short countdown for badges, e.g. "Closes in 3 days"; empty when there is no deadline. */
+  label: string;
+}
+
+export function deadlineInfo(deadline: string | null | undefined, now = Date.now()): DeadlineInfo {
+  if (!deadline) return { state: "none", label: "" };
+  const left = new Date(deadline).getTime() - now;
+  if (left <= 0) return { state: "closed", label: "Applications closed" };
+
+  const hours = Math.floor(left / (60 * 60 * 1000));
+  const days = Math.floor(left / DAY_MS);
+  const label =
+    hours < 1
+      ? "Closes in under an hour"
+      : hours < 24
+        ? `Closes in ${hours} ${hours === 1 ? "hour" : "hours"}`
+        : `Closes in ${days} ${days === 1 ? "day" : "days"}`;
+  return { state: left <= CLOSING_SOON_DAYS * DAY_MS ? "closing" : "open", label };
+}
+
+/** Tailwind classes for a deadline badge in each state. */
+export const DEADLINE_STYLES: Record<DeadlineState, string> = {
+  none: "",
+  open: "text-gray-300 bg-white/10",
+  closing: "text-amber-300 bg-amber-400/15",
+  closed: "text-rose-300 bg-rose-500/15",
+};
+
+const REMINDED_KEY = "vybin-deadline-reminders";
+
+// Map of event id -> the deadline last announced; unreadable values start over
+function readReminded(): Record<string, string> {
+  try {
+    const value = JSON.parse(localStorage.getItem(REMINDED_KEY) ?? "{}");
+    return value && typeof value === "object" ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reminders are pushed by the deadline-reminders edge function, closed app or
+ * not. Devices without a push subscription fall back to this: a local
+ * notification, while the app is open, for each saved event whose deadline
+ * falls within the next DEADLINE_REMINDER_DAYS. Each (event, deadline) pair is
+ * only announced once per device, so a moved deadline is announced again.
+ * Reminders held back by quiet hours go out on the first check after they end.
+ */
+export async function notifyUpcomingDeadlines(userId: string) {
+  if (!("serviceWorker" in navigator) || !("Notification" in window)) return;
+  if (Notification.permission !== "granted" || (await hasPushSubscription())) return;
+
+  const prefs = await loadNotificationPreferences(userId);
+  if (!wantsNotification(prefs, "deadline", "push")) return;
+
+  const now = new Date();
+  const events = await fetchSavedEventIds(userId)
+    .then((ids) =>
+      fetchEventsClosingBetween(ids, now, new Date(now.getTime() + DEADLINE_REMINDER_DAYS * DAY_MS))
+    )
+    .catch((err) => {
+      console.error("Error loading deadlines for reminders:", err);
+      return null;
+    });
+  if (!events) return;
+
+  const reminded = readReminded();
+  const due = events.filter((e) => e.deadline && reminded[e.id] !== e.deadline);
+  if (!due.length) return;
+
+  const registration = await navigator.serviceWorker.ready;
+  for (const ev of due) {
+    await registration.showNotification(`${ev.title} closes soon`, {
+      body: `${deadlineInfo(ev.deadline).label} · ${formatLongDateTime(ev.deadline!)}`,
+      tag: `deadline-${ev.id}`,
+      data: { url: eventPath(ev.id), event_id: ev.id, actions: { apply: true } },
+    });
+    reminded[ev.id] = ev.deadline!;
+  }
+  // Past deadlines can't come round again, so drop them rather than keep every event ever reminded
+  const current = Object.entries(reminded).filter(([, deadline]) => new Date(deadline) > now);
+  localStorage.setItem(REMINDED_KEY, JSON.stringify(Object.fromEntries(current)));
+}
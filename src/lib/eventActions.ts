@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { supabase } from "./supabase";
+import type { ApplicationRow } from "./models";
+import { addApplication, addSavedEvent, removeApplication, removeSavedEvent } from "./repository";
+import {
+  QUEUE_LOCK,
+  notifyQueueChanged,
+  onQueueChange,
+  pendingActions,
+  queueAction,
+  removeAction,
+  saveSyncSession,
+  type QueuedAction,
+  type QueuedActionKind,
+} from "./offlineQueue";
+
+export interface EventAction {
+  kind: QueuedActionKind;
+  user_id: string;
+  event_id: string;
+  event_title?: string | null;
+}
+
+export type EventActionResult =
+  | { queued: true }
+  /** `application` is the inserted or deleted row for apply/withdraw, when there was one. */
+  | { queued: false; application: ApplicationRow | null };
+
+/** An action the server refused during replay; it is dropped from the queue. */
+export interface ReplayRejection {
+  kind: QueuedActionKind;
+  event_id: string;
+  event_title: string | null;
+  reason: string;
+}
+
+// Postgres error codes that replaying again can never fix. Keep in sync with
+// sendQueuedAction in service-worker.js
+const ALREADY_DONE = "23505";
+const REJECTIONS: Record<string, string> = {
+  "23503": "the event was removed",
+  "23514": "applications have closed",
+};
+
+type Outcome = { application: ApplicationRow | null } | { rejected: string } | { retry: true };
+
+const isNetworkError = (message = "") =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed|fetch failed/i.test(message);
+
+// Sends one action. A duplicate save/apply or a delete of a row that is already
+// gone counts as done, since the server already matches what the user wanted.
+async function send(action: EventAction): Promise<Outcome> {
+  const { user_id: userId, event_id: eventId } = action;
+  try {
+    switch (action.kind) {
+      case "save":
+        await addSavedEvent(userId, eventId);
+        return { application: null };
+      case "unsave":
+        await removeSavedEvent(userId, eventId);
+        return { application: null };
+      case "apply":
+        return { application: await addApplication(userId, eventId) };
+      case "withdraw":
+        return { application: await removeApplication(userId, eventId) };
+    }
+  } catch (err) {
+    // Supabase errors are plain objects with a code; fetch failures are TypeErrors
+    const { code, message } = err as { code?: string; message?: string };
+    if (code === ALREADY_DONE) return { application: null };
+    if (code && REJECTIONS[code]) return { rejected: REJECTIONS[code] };
+    if (isNetworkError(message)) return { retry: true };
+    throw err;
+  }
+}
+
+const withQueueLock = <T>(fn: () => Promise<T>) =>
+  navigator.locks ? navigator.locks.request(QUEUE_LOCK, fn) : fn();
+
+let flushing: Promise<ReplayRejection[]> | null = null;
+
+/**
+ * Replays the user's queued actions in order. Stops at the first action that
+ * can't reach the server; refused actions are dropped and returned.
+ */
+export function flushQueue(userId: string) {
+  flushing ??= withQueueLock(async () => {
+    const rejected: ReplayRejection[] = [];
+    let changed = false;
+    try {
+      for (const action of await pendingActions(userId)) {
+        const outcome = await send(action);
+        if ("retry" in outcome) break;
+        if ("rejected" in outcome) {
+          rejected.push({
+            kind: action.kind,
+            event_id: action.event_id,
+            event_title: action.event_title,
+            reason: outcome.rejected,
+          });
+        }
+        await removeAction(action.id!);
+        changed = true;
+      }
+    } catch (err) {
+      console.error("Error replaying offline actions:", err);
+    }
+    if (changed) notifyQueueChanged();
+    return rejected;
+  }).finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
+
+/**
+ * Saves, unsaves, applies or withdraws right away when online, and queues the
+ * action for replay when the network is unavailable.
+ */
+export async function performEventAction(action: EventAction): Promise<EventActionResult> {
+  const enqueue = async () => {
+    await queueAction({ ...action, event_title: action.event_title ?? null });
+    return { queued: true } as const;
+  };
+
+  if (!navigator.onLine) return enqueue();
+  // Earlier offline actions must land first, or e.g. a queued withdraw would undo this apply
+  if ((await pendingActions(action.user_id)).length) await flushQueue(action.user_id);
+
+  const outcome = await send(action);
+  if ("retry" in outcome) return enqueue();
+  if ("rejected" in outcome) throw new Error(`Couldn't ${action.kind}: ${outcome.rejected}`);
+  return { queued: false, application: outcome.application };
+}
+
+/**
+ * Keeps the queue moving while the app is open: stores the session the service
+ * worker replays with, flushes on start, whenever the browser comes back online
+ * and when the worker couldn't finish a replay, and reports actions the server
+ * refused.
+ */
+export function startQueueSync(userId: string, onRejected: (rejections: ReplayRejection[]) => void) {
+  const flush = () =>
+    flushQueue(userId).then((rejected) => {
+      if (rejected.length) onRejected(rejected);
+    });
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    saveSyncSession(
+      session
+        ? {
+            url: import.meta.env.VITE_SUPABASE_URL,
+            anon_key: import.meta.env.VITE_SUPABASE_ANON_KEY,
+            access_token: session.access_token,
+            expires_at: session.expires_at ?? null,
+            user_id: session.user.id,
+          }
+        : null
+    ).catch(console.error);
+  });
+
+  // Sent by service-worker.js during a Background Sync replay. The worker can't
+  // refresh an expired session, so it leaves what it couldn't send to this tab
+  const onMessage = (e: MessageEvent) => {
+    if (e.data?.type === "QUEUE_SYNC_NEEDED") flush();
+    if (e.data?.type !== "QUEUE_REPLAYED") return;
+    notifyQueueChanged();
+    if (e.data.rejected?.length) onRejected(e.data.rejected);
+  };
+
+  flush();
+  window.addEventListener("online", flush);
+  navigator.serviceWorker?.addEventListener("message", onMessage);
+  return () => {
+    data.subscription.unsubscribe();
+    window.removeEventListener("online", flush);
+    navigator.serviceWorker?.removeEventListener("message", onMessage);
+  };
+}
+
+/** The user's queued actions, kept current as they are added and replayed. */
+export function usePendingActions(userId: string | undefined) {
+  const [pending, setPending] = useState<QueuedAction[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    const load = () =>
+      pendingActions(userId)
+        .then((p) => !cancelled && setPending(p))
+        .catch(console.error);
+    load();
+    const unsubscribe = onQueueChange(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return pending;
+}
+
+/**
+ * Server-side ids with still-queued actions applied on top, so reloading after
+ * a replay or conflict doesn't drop what the user did offline.
+ */
+export function withPending(
+  ids: Iterable<string>,
+  pending: Pick<QueuedAction, "kind" | "event_id">[],
+  add: QueuedActionKind,
+  remove: QueuedActionKind
+) {
+  const result = new Set(ids);
+  for (const a of pending) {
+    if (a.kind === add) result.add(a.event_id);
+    if (a.kind === remove) result.delete(a.event_id);
+  }
+  return result;
+}
+
+/** Latest queued action per event, for "waiting to sync" markers. */
+export const pendingByEvent = (pending: QueuedAction[]) =>
+  new Map(pending.map((a) => [a.event_id, a.kind]));
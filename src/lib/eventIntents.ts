@@ -0,0 +1,106 @@
+import type { EventActionResult } from "./eventActions";
+import { fetchEvent } from "./repository";
+import type { ApplicationRow, Event } from "./models";
+import { eventIdFromUrl, eventPath } from "./router";
+
+/** Something outside the app asked for: a notification tap, its Save/Apply button, or a link. */
+export interface EventIntent {
+  eventId: string;
+  action: "open" | "save" | "apply";
+}
+
+/** The saved/applied store's actions, which runEventIntent performs save/apply through. */
+export interface EventIntentActions {
+  setSaved: (event: Event, saved: boolean) => Promise<EventActionResult>;
+  /** Resolves to null when the user backs out of a schedule clash. */
+  apply: (event: Event) => Promise<EventActionResult | null>;
+}
+
+export interface EventIntentResult {
+  event: Event;
+  /** Confirmation (or the reason it failed) for save/apply; null for open. */
+  message: string | null;
+  /** The new application, for offering "Add to calendar". */
+  application: ApplicationRow | null;
+}
+
+// Posted by notificationclick in service-worker.js
+const MESSAGE_ACTIONS: Record<string, EventIntent["action"]> = {
+  OPEN_EVENT: "open",
+  SAVE_EVENT: "save",
+  APPLY_EVENT: "apply",
+};
+
+/**
+ * Reads `?event=<id>[&action=save|apply]`, what the service worker opens when
+ * no window is running, and removes it from the URL so a reload doesn't repeat
+ * the action. A plain `?event=` link is rewritten to /events/:id, which the
+ * router opens; only save/apply are returned.
+ */
+export function takeLaunchIntent(): EventIntent | null {
+  const url = new URL(window.location.href);
+  const eventId = url.searchParams.get("event");
+  if (!eventId) return null;
+
+  const action = url.searchParams.get("action");
+  url.searchParams.delete("event");
+  url.searchParams.delete("action");
+  const isAction = action === "save" || action === "apply";
+  const path = isAction ? url.pathname : eventPath(eventId);
+  window.history.replaceState(window.history.state, "", path + url.search + url.hash);
+
+  return isAction ? { eventId, action } : null;
+}
+
+/** Calls handler for each notification action the service worker forwards to this window. */
+export function onServiceWorkerIntent(handler: (intent: EventIntent) => void) {
+  if (!("serviceWorker" in navigator)) return () => {};
+
+  const listener = (e: MessageEvent) => {
+    const action = MESSAGE_ACTIONS[e.data?.type];
+    if (!action) return;
+    const payload = e.data.payload ?? {};
+    const eventId = payload.event_id ?? (payload.url ? eventIdFromUrl(payload.url) : null);
+    if (eventId) handler({ eventId, action });
+  };
+  navigator.serviceWorker.addEventListener("message", listener);
+  return () => navigator.serviceWorker.removeEventListener("message", listener);
+}
+
+/**
+ * Loads the event and performs the save/apply through the store's actions, the
+ * same path the feed buttons use, so it is queued when offline and an apply
+ * asks first about schedule clashes. Returns null when the event no longer exists.
+ */
+export async function runEventIntent(
+  intent: EventIntent,
+  actions: EventIntentActions
+): Promise<EventIntentResult | null> {
+  const event = await fetchEvent(intent.eventId);
+  if (!event) return null;
+  if (intent.action === "open") return { event, message: null, application: null };
+
+  try {
+    const result =
+      intent.action === "apply" ? await actions.apply(event) : await actions.setSaved(event, true);
+    if (!result) return { event, message: null, application: null };
+    if (result.queued) {
+      return {
+        event,
+        message:
+          intent.action === "apply"
+            ? `You're offline. Your application to ${event.title} will be sent when you reconnect`
+            : `You're offline. ${event.title} will be saved when you reconnect`,
+        application: null,
+      };
+    }
+    return {
+      event,
+      message: intent.action === "apply" ? `Applied to ${event.title}` : `Saved ${event.title}`,
+      application: result.application,
+    };
+  } catch (err) {
+    console.error(`Error running ${intent.action} from notification:`, err);
+    return { event, message: err instanceof Error ? err.message : `Couldn't ${intent.action}`, application: null };
+  }
+}
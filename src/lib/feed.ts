@@ -0,0 +1,36 @@
+import type { FeedFilters } from "./feedFilters";
+import type { AffinitySnapshot } from "./models";
+import { fetchAffinitySnapshot, fetchFeedEvents } from "./repository";
+
+/**
+ * Keyset position: the (score, date, id) of the last row already shown, plus the
+ * weights the first page was scored with so later pages rank the same way.
+ */
+export interface FeedCursor {
+  score: number;
+  date: string;
+  id: string;
+  affinities: AffinitySnapshot;
+}
+
+export interface FeedQuery {
+  /** Interest names from user_preferences; keywords are resolved in the database. */
+  interests: string[];
+  filters: FeedFilters;
+  query: string;
+}
+
+export const FEED_PAGE_SIZE = 10;
+
+export async function fetchFeedPage(q: FeedQuery, cursor: FeedCursor | null) {
+  const affinities = cursor?.affinities ?? (await fetchAffinitySnapshot());
+  const events = await fetchFeedEvents(q, cursor, affinities, FEED_PAGE_SIZE);
+  const last = events[events.length - 1];
+  return {
+    events,
+    nextCursor:
+      events.length === FEED_PAGE_SIZE && last
+        ? { score: last.score, date: last.date, id: last.id, affinities }
+        : null,
+  };
+}
@@ -0,0 +1,102 @@
+import type { Json } from "./database.types";
+
+export type DatePreset = "today" | "week" | "month";
+export type DeadlineOption = "open" | "closing_soon" | "none";
+
+// Interpreted server-side by feed_event_matches(). A type alias (not an interface)
+// so it stays assignable to Json for the jsonb column and RPC arguments.
+export type FeedFilters = {
+  datePreset: DatePreset | null;
+  dateFrom: string | null; // yyyy-mm-dd, inclusive
+  dateTo: string | null; // yyyy-mm-dd, inclusive
+  deadline: DeadlineOption | null;
+  eventTypes: string[];
+  organizations: string[];
+  locations: string[];
+  tags: string[];
+  /** Leave out events that overlap a class in the user's timetable. */
+  hideClashes: boolean;
+};
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface FacetCounts {
+  total: number;
+  eventTypes: FacetValue[];
+  organizations: FacetValue[];
+  locations: FacetValue[];
+  tags: FacetValue[];
+  datePresets: Record<DatePreset, number>;
+  deadlines: Record<DeadlineOption, number>;
+}
+
+export const EMPTY_FACETS: FacetCounts = {
+  total: 0,
+  eventTypes: [],
+  organizations: [],
+  locations: [],
+  tags: [],
+  datePresets: { today: 0, week: 0, month: 0 },
+  deadlines: { open: 0, closing_soon: 0, none: 0 },
+};
+
+export const EMPTY_FILTERS: FeedFilters = {
+  datePreset: null,
+  dateFrom: null,
+  dateTo: null,
+  deadline: null,
+  eventTypes: [],
+  organizations: [],
+  locations: [],
+  tags: [],
+  hideClashes: false,
+};
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  today: "Today",
+  week: "Next 7 days",
+  month: "Next 30 days",
+};
+
+export const DEADLINE_LABELS: Record<DeadlineOption, string> = {
+  open: "Still open",
+  closing_soon: "Closing within 7 days",
+  none: "No deadline",
+};
+
+export function activeFilterCount(f: FeedFilters) {
+  return (
+    (f.datePreset || f.dateFrom || f.dateTo ? 1 : 0) +
+    (f.deadline ? 1 : 0) +
+    f.eventTypes.length +
+    f.organizations.length +
+    f.locations.length +
+    f.tags.length +
+    (f.hideClashes ? 1 : 0)
+  );
+}
+
+const strings = (v: unknown) =>
+  Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : [];
+
+const oneOf = <T extends string>(v: unknown, allowed: readonly T[]) =>
+  allowed.includes(v as T) ? (v as T) : null;
+
+/** Reads filters saved in `user_feed_filters`, dropping anything malformed. */
+export function parseFilters(json: Json | null | undefined): FeedFilters {
+  if (!json || typeof json !== "object" || Array.isArray(json)) return EMPTY_FILTERS;
+  return {
+    datePreset: oneOf(json.datePreset, ["today", "week", "month"] as const),
+    dateFrom: typeof json.dateFrom === "string" ? json.dateFrom : null,
+    dateTo: typeof json.dateTo === "string" ? json.dateTo : null,
+    deadline: oneOf(json.deadline, ["open", "closing_soon", "none"] as const),
+    eventTypes: strings(json.eventTypes),
+    organizations: strings(json.organizations),
+    locations: strings(json.locations),
+    tags: strings(json.tags),
+    hideClashes: json.hideClashes === true,
+  };
+}
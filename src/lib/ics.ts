@@ -0,0 +1,246 @@
+// iCalendar (RFC 5545) generation and parsing for the app. The calendar-feed
+// edge function keeps its own copy of the generator in
+// supabase/functions/_shared/ics.ts; change both together so downloaded files
+// and the subscribed feed stay alike.
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  start: Date;
+  /** Defaults to two hours after `start` (or one day for all-day events). */
+  end?: Date;
+  /** Emit DATE values instead of times; `end` is then the inclusive last day. */
+  allDay?: boolean;
+  /** IANA zone used to pick the calendar date of all-day events. */
+  timeZone?: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  /** Bump whenever the entry changes so calendar apps replace their copy. */
+  sequence?: number;
+  lastModified?: Date;
+  status?: "CONFIRMED" | "CANCELLED";
+}
+
+export interface IcsCalendar {
+  name: string;
+  events: IcsEvent[];
+  /** Suggested refresh interval for subscribed feeds, in minutes. */
+  refreshMinutes?: number;
+}
+
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatUtc = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// yyyymmdd of the instant as seen in timeZone
+const formatDay = (d: Date, timeZone?: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+    .format(d)
+    .replace(/-/g, "");
+
+// DTEND of an all-day event is exclusive: the day after the last day
+const nextDay = (yyyymmdd: string) => {
+  const d = new Date(Date.UTC(+yyyymmdd.slice(0, 4), +yyyymmdd.slice(4, 6) - 1, +yyyymmdd.slice(6, 8)));
+  return formatUtc(new Date(d.getTime() + DAY_MS)).slice(0, 8);
+};
+
+const escapeText = (s: string) =>
+  s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<br\s*\/?>|<\/p>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+
+// Lines longer than 75 octets are folded with CRLF + space (RFC 5545 §3.1)
+function fold(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const chSize = new TextEncoder().encode(ch).length;
+    const limit = parts.length ? 74 : 75; // continuation lines start with a space
+    if (size + chSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += chSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(ev: IcsEvent, stamp: string) {
+  const lines = ["BEGIN:VEVENT", `UID:${ev.uid}`, `DTSTAMP:${stamp}`];
+  if (ev.allDay) {
+    const first = formatDay(ev.start, ev.timeZone);
+    const last = ev.end ? formatDay(ev.end, ev.timeZone) : first;
+    lines.push(`DTSTART;VALUE=DATE:${first}`, `DTEND;VALUE=DATE:${nextDay(last < first ? first : last)}`);
+  } else {
+    const end = ev.end ?? new Date(ev.start.getTime() + DEFAULT_DURATION_MS);
+    lines.push(`DTSTART:${formatUtc(ev.start)}`, `DTEND:${formatUtc(end)}`);
+  }
+  lines.push(
+    `SEQUENCE:${ev.sequence ?? 0}`,
+    `STATUS:${ev.status ?? "CONFIRMED"}`,
+    `SUMMARY:${escapeText(ev.title)}`
+  );
+  if (ev.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(ev.lastModified)}`);
+  if (ev.location) lines.push(`LOCATION:${escapeText(ev.location)}`);
+  if (ev.description) lines.push(`DESCRIPTION:${escapeText(stripHtml(ev.description))}`);
+  if (ev.url) lines.push(`URL:${ev.url}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar({ name, events, refreshMinutes }: IcsCalendar) {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//vybin//Events//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  if (refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${refreshMinutes}M`);
+  }
+  for (const ev of events) lines.push(...eventLines(ev, stamp));
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/** A DTSTART/DTEND value as written in the file. */
+export interface IcsDateValue {
+  /** "20250903" for dates, "20250903T083500" or "20250903T133500Z" for times. */
+  value: string;
+  /** TZID parameter; null for UTC, floating times and dates. */
+  tzid: string | null;
+}
+
+export interface ParsedIcsEvent {
+  summary: string;
+  location: string | null;
+  start: IcsDateValue;
+  end: IcsDateValue | null;
+  /** DURATION, e.g. "PT1H20M", when there is no DTEND. */
+  duration: string | null;
+  /** RRULE parts, e.g. { FREQ: "WEEKLY", BYDAY: "MO,WE", UNTIL: "20251205T235959Z" }. */
+  rrule: Record<string, string> | null;
+}
+
+const unescapeText = (s: string) =>
+  s.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+
+// "DTSTART;TZID=America/Montreal:20250903T083500" -> name, params, value.
+// Quoted parameter values may contain ':' and ';'.
+function parseLine(line: string) {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf("=");
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * The events of an .ics file. Cancelled events and overrides of single
+ * occurrences (RECURRENCE-ID) are skipped, as are components nested inside
+ * events such as alarms.
+ */
+export function parseCalendar(text: string): ParsedIcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let current: (Partial<ParsedIcsEvent> & { skip?: boolean }) | null = null;
+  let depth = 0;
+
+  for (const raw of lines) {
+    const line = parseLine(raw.trim());
+    if (!line) continue;
+    const { name, params, value } = line;
+
+    if (name === "BEGIN") {
+      if (current) depth++;
+      else if (value.toUpperCase() === "VEVENT") current = {};
+      continue;
+    }
+    if (name === "END") {
+      if (current && depth) depth--;
+      else if (current && value.toUpperCase() === "VEVENT") {
+        if (!current.skip && current.start) {
+          events.push({
+            summary: current.summary || "Untitled",
+            location: current.location ?? null,
+            start: current.start,
+            end: current.end ?? null,
+            duration: current.duration ?? null,
+            rrule: current.rrule ?? null,
+          });
+        }
+        current = null;
+      }
+      continue;
+    }
+    if (!current || depth) continue;
+
+    switch (name) {
+      case "SUMMARY":
+        current.summary = unescapeText(value).trim();
+        break;
+      case "LOCATION":
+        current.location = unescapeText(value).trim() || null;
+        break;
+      case "DTSTART":
+      case "DTEND":
+        current[name === "DTSTART" ? "start" : "end"] = {
+          value: value.trim(),
+          tzid: params.TZID ?? null,
+        };
+        break;
+      case "DURATION":
+        current.duration = value.trim();
+        break;
+      case "RRULE":
+        current.rrule = Object.fromEntries(
+          value.split(";").map((part) => {
+            const [k, v = ""] = part.split("=");
+            return [k.toUpperCase(), v];
+          })
+        );
+        break;
+      case "STATUS":
+        if (value.trim().toUpperCase() === "CANCELLED") current.skip = true;
+        break;
+      case "RECURRENCE-ID":
+        current.skip = true;
+        break;
+    }
+  }
+  return events;
+}
@@ -0,0 +1,10 @@
+import { addEventView } from "./repository";
+
+/** Records that the user opened an event, for the personal feed ranking. */
+export async function logEventView(userId: string, eventId: string) {
+  try {
+    await addEventView(userId, eventId);
+  } catch (err) {
+    console.error("Error logging event view:", err);
+  }
+}
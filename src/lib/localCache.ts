@@ -0,0 +1,86 @@
+// Last-fetched copies of what the tabs show, kept in IndexedDB so they render
+// immediately on open and stay readable offline. Each tab replaces its entry
+// whenever a network refresh succeeds.
+
+import { useEffect, useState } from "react";
+import { openDatabase, transact } from "./idb";
+
+export type CacheKey =
+  | "feed"
+  | "user-events"
+  | "saved"
+  | "applications"
+  | "calendar"
+  | "timetable";
+
+export interface CacheEntry<T> {
+  data: T;
+  /** When the data was fetched, shown as "last updated". */
+  updated_at: string;
+}
+
+const DB_NAME = "vybin-cache";
+const DB_VERSION = 1;
+const ENTRIES = "entries";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= openDatabase(DB_NAME, DB_VERSION, (db) => db.createObjectStore(ENTRIES)).catch(
+    (err) => {
+      dbPromise = null;
+      throw err;
+    }
+  );
+  return dbPromise;
+}
+
+const entryKey = (userId: string, key: CacheKey) => `${userId}:${key}`;
+
+/** Resolves to null when nothing is cached or IndexedDB is unavailable. */
+export async function readCache<T>(userId: string, key: CacheKey) {
+  try {
+    const entry = await transact<CacheEntry<T>>(await openDb(), ENTRIES, "readonly", (s) =>
+      s.get(entryKey(userId, key))
+    );
+    return entry ?? null;
+  } catch (err) {
+    console.error("Error reading local cache:", err);
+    return null;
+  }
+}
+
+export async function writeCache<T>(userId: string, key: CacheKey, data: T) {
+  const entry: CacheEntry<T> = { data, updated_at: new Date().toISOString() };
+  try {
+    await transact(await openDb(), ENTRIES, "readwrite", (s) => s.put(entry, entryKey(userId, key)));
+  } catch (err) {
+    console.error("Error writing local cache:", err);
+  }
+}
+
+/** Drops every cached entry, e.g. on sign-out so the next user can't read them. */
+export async function clearCache() {
+  try {
+    await transact(await openDb(), ENTRIES, "readwrite", (s) => s.clear());
+  } catch (err) {
+    console.error("Error clearing local cache:", err);
+  }
+}
+
+/** navigator.onLine, updated on the browser's online/offline events. */
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return online;
+}
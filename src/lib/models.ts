@@ -0,0 +1,73 @@
+import type { Database } from "./database.types";
+
+// Shared shapes for the rows the UI works with. Components import these instead
+// of declaring their own, so an event from the feed, the saved list or an
+// application can be handed to the same modal.
+
+type Tables<T extends keyof Database["public"]["Tables"]> =
+  Database["public"]["Tables"][T]["Row"];
+
+/** An event as the app displays it. Feed and similar-event rows are supersets. */
+export type Event = Omit<Tables<"events">, "created_at" | "search_vector">;
+
+/** A feed row: the event plus its score, the reason it was boosted and search highlights. */
+export type FeedEvent = Database["public"]["Functions"]["feed_events"]["Returns"][number];
+
+export type SimilarEvent = Database["public"]["Functions"]["similar_events"]["Returns"][number];
+
+/** Learned weights keyed "<feature_type>:<feature_value>", as feed_snapshot_score reads them. */
+export type AffinitySnapshot = Record<string, number>;
+
+export type ApplicationRow = Tables<"applications">;
+
+/** An application with the event it is for, as listed on the applications tab. */
+export type Application = Pick<
+  ApplicationRow,
+  "id" | "event_id" | "status" | "created_at" | "updated_at"
+> & {
+  events: Event;
+};
+
+/** What an application contributes to .ics files and the subscribed feed. */
+export type ApplicationCalendarEntry = Pick<
+  ApplicationRow,
+  "event_id" | "google_calendar_id" | "calendar_sequence" | "calendar_updated_at"
+>;
+
+export type StatusChange = Omit<Tables<"application_status_history">, "user_id">;
+
+/** A saved event with the user's collection, note and priority for it. */
+export type SavedItem = Pick<
+  Tables<"saved_events">,
+  "event_id" | "collection_id" | "note" | "priority" | "created_at"
+> & {
+  events: Event;
+};
+
+/** The parts of a saved event the user can edit. */
+export type SavedItemChanges = Partial<Pick<SavedItem, "collection_id" | "note" | "priority">>;
+
+export type Collection = Pick<Tables<"collections">, "id" | "name" | "created_at">;
+
+/** A weekly class from the user's timetable; times are wall-clock in `timezone`. */
+export type ClassBlock = Omit<Tables<"class_blocks">, "user_id" | "created_at">;
+
+export type NewClassBlock = Omit<ClassBlock, "id">;
+
+export type Profile = Pick<
+  Tables<"profiles">,
+  "id" | "display_name" | "avatar_url" | "banner_url" | "onboarded"
+>;
+
+export type Interest = Pick<Tables<"interests">, "id" | "name" | "icon">;
+
+/** An event's place in an interest category, from event_interests. */
+export type CategoryLink = Pick<Tables<"event_interests">, "event_id" | "interest_id">;
+
+export type AppNotification = Tables<"notifications">;
+
+/** The stored row; notificationPreferences.ts turns it into NotificationPreferences. */
+export type NotificationPreferencesRow = Pick<
+  Tables<"notification_preferences">,
+  "channels" | "quiet_hours_start" | "quiet_hours_end" | "timezone"
+>;
@@ -0,0 +1,116 @@
+import type { Json } from "./database.types";
+import { fetchNotificationPreferences, upsertNotificationPreferences } from "./repository";
+import { userTimeZone } from "./datetime";
+
+export type NotificationKind = "new_match" | "deadline" | "event_day" | "status_change";
+export type NotificationChannel = "push" | "in_app" | "email";
+
+export type ChannelSettings = Record<NotificationKind, Record<NotificationChannel, boolean>>;
+
+export interface NotificationPreferences {
+  channels: ChannelSettings;
+  quietHoursStart: string | null; // HH:MM in timezone
+  quietHoursEnd: string | null; // HH:MM; earlier than the start when spanning midnight
+  timezone: string;
+}
+
+export const NOTIFICATION_KINDS: readonly NotificationKind[] = [
+  "new_match",
+  "deadline",
+  "event_day",
+  "status_change",
+];
+
+export const NOTIFICATION_CHANNELS: readonly NotificationChannel[] = ["push", "in_app", "email"];
+
+export const KIND_LABELS: Record<NotificationKind, { title: string; description: string }> = {
+  new_match: { title: "New matching events", description: "Events that fit your interests" },
+  deadline: { title: "Deadline reminders", description: "Saved events closing soon" },
+  event_day: { title: "Event-day reminders", description: "On the day of events you applied to" },
+  status_change: { title: "Application updates", description: "When an application changes status" },
+};
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  push: "Push",
+  in_app: "In-app",
+  email: "Email digest",
+};
+
+// Must match default_notification_channels() on the server
+export const DEFAULT_CHANNELS: ChannelSettings = {
+  new_match: { push: false, in_app: true, email: true },
+  deadline: { push: true, in_app: true, email: false },
+  event_day: { push: true, in_app: true, email: false },
+  status_change: { push: false, in_app: true, email: false },
+};
+
+export const defaultPreferences = (): NotificationPreferences => ({
+  channels: DEFAULT_CHANNELS,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: userTimeZone(),
+});
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+/** Reads `notification_preferences.channels`, filling gaps with the defaults. */
+export function parseChannels(json: Json | null | undefined): ChannelSettings {
+  const saved = isObject(json) ? json : {};
+  const result = {} as ChannelSettings;
+  for (const kind of NOTIFICATION_KINDS) {
+    const entry = isObject(saved[kind]) ? saved[kind] : {};
+    result[kind] = { ...DEFAULT_CHANNELS[kind] };
+    for (const channel of NOTIFICATION_CHANNELS) {
+      if (typeof entry[channel] === "boolean") result[kind][channel] = entry[channel];
+    }
+  }
+  return result;
+}
+
+// Postgres returns time columns as HH:MM:SS
+const toMinutes = (time: string | null) => (time ? time.slice(0, 5) : null);
+
+export async function loadNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const data = await fetchNotificationPreferences(userId);
+  if (!data) return defaultPreferences();
+  return {
+    channels: parseChannels(data.channels),
+    quietHoursStart: toMinutes(data.quiet_hours_start),
+    quietHoursEnd: toMinutes(data.quiet_hours_end),
+    timezone: data.timezone,
+  };
+}
+
+export async function saveNotificationPreferences(userId: string, prefs: NotificationPreferences) {
+  await upsertNotificationPreferences(userId, {
+    channels: prefs.channels,
+    quiet_hours_start: prefs.quietHoursStart,
+    quiet_hours_end: prefs.quietHoursEnd,
+    timezone: prefs.timezone,
+  });
+}
+
+/** Whether `at` falls inside the quiet hours, evaluated in the preferences' time zone. */
+export function isQuietTime(prefs: NotificationPreferences, at = new Date()) {
+  const { quietHoursStart: start, quietHoursEnd: end } = prefs;
+  if (!start || !end || start === end) return false;
+  const now = new Intl.DateTimeFormat("en-GB", {
+    timeZone: prefs.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(at);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** Client-side mirror of wants_notification(): push also respects quiet hours. */
+export function wantsNotification(
+  prefs: NotificationPreferences,
+  kind: NotificationKind,
+  channel: NotificationChannel,
+  at = new Date()
+) {
+  if (!prefs.channels[kind][channel]) return false;
+  return channel !== "push" || !isQuietTime(prefs, at);
+}
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "./supabase";
+import {
+  deleteNotification,
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "./repository";
+import type { AppNotification } from "./models";
+import { eventIdFromUrl } from "./router";
+
+export interface NotificationInbox {
+  notifications: AppNotification[];
+  unreadCount: number;
+  loading: boolean;
+  markRead: (id: string) => void;
+  markAllRead: () => void;
+  remove: (id: string) => void;
+}
+
+// Older notifications stay in the table but aren't shown
+const INBOX_LIMIT = 50;
+
+const newestFirst = (a: AppNotification, b: AppNotification) =>
+  b.created_at.localeCompare(a.created_at);
+
+/** Event a notification opens: its event_id, or the event its in-app url links to. */
+export function notificationEventId(n: Pick<AppNotification, "event_id" | "url">) {
+  return n.event_id ?? (n.url ? eventIdFromUrl(n.url) : null);
+}
+
+/**
+ * The user's notifications, kept current through Supabase Realtime so ones
+ * created server-side show up without a reload. Actions update the list
+ * immediately and reload the list if the write fails.
+ */
+export function useNotifications(userId: string | undefined): NotificationInbox {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setNotifications(await fetchNotifications(userId, INBOX_LIMIT));
+    } catch (err) {
+      console.error("Error fetching notifications:", err);
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
+    setLoading(true);
+    load();
+
+    const filter = `user_id=eq.${userId}`;
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter },
+        ({ new: row }) =>
+          setNotifications((prev) =>
+            prev.some((n) => n.id === row.id)
+              ? prev
+              : [row as AppNotification, ...prev].sort(newestFirst).slice(0, INBOX_LIMIT)
+          )
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "notifications", filter },
+        ({ new: row }) =>
+          setNotifications((prev) =>
+            prev.map((n) => (n.id === row.id ? (row as AppNotification) : n))
+          )
+      )
+      // Realtime can't filter deletes; ids we don't have are ignored anyway
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "notifications" },
+        ({ old }) => setNotifications((prev) => prev.filter((n) => n.id !== old.id))
+      )
+      .subscribe((status) => {
+        // Catch up on anything missed while the channel was down
+        if (status === "SUBSCRIBED") load();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, load]);
+
+  const markRead = useCallback(
+    async (id: string) => {
+      setNotifications((prev) => prev.map((n) => (n.id === id ? { ...n, read: true } : n)));
+      try {
+        await markNotificationRead(id);
+      } catch (err) {
+        console.error("Error marking notification read:", err);
+        load();
+      }
+    },
+    [load]
+  );
+
+  // Also covers unread notifications older than the ones loaded
+  const markAllRead = useCallback(async () => {
+    if (!userId) return;
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    try {
+      await markAllNotificationsRead(userId);
+    } catch (err) {
+      console.error("Error marking notifications read:", err);
+      load();
+    }
+  }, [userId, load]);
+
+  const remove = useCallback(
+    async (id: string) => {
+      setNotifications((prev) => prev.filter((n) => n.id !== id));
+      try {
+        await deleteNotification(id);
+      } catch (err) {
+        console.error("Error deleting notification:", err);
+        load();
+      }
+    },
+    [load]
+  );
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.read).length,
+    loading,
+    markRead,
+    markAllRead,
+    remove,
+  };
+}
@@ -0,0 +1,130 @@
+// IndexedDB queue of save/apply actions made while offline. The service worker
+// (service-worker.js) reads the same database when the `vybin-sync` Background
+// Sync fires, so the store names and record shapes here are shared with it.
+
+import { openDatabase, transact } from "./idb";
+
+export type QueuedActionKind = "save" | "unsave" | "apply" | "withdraw";
+
+export interface QueuedAction {
+  /** Auto-incremented key; actions are replayed in key order. */
+  id?: number;
+  kind: QueuedActionKind;
+  user_id: string;
+  event_id: string;
+  /** Shown when the action is rejected during replay. */
+  event_title: string | null;
+  queued_at: string;
+}
+
+/** What the service worker needs to call the REST API on the user's behalf. */
+export interface SyncSession {
+  url: string;
+  anon_key: string;
+  access_token: string;
+  /** When access_token expires, in seconds since the epoch; the worker won't use it after. */
+  expires_at: number | null;
+  user_id: string;
+}
+
+export const SYNC_TAG = "vybin-sync";
+/** Web Lock held by whoever is replaying the queue (a tab or the service worker). */
+export const QUEUE_LOCK = "vybin-queue";
+
+const DB_NAME = "vybin-queue";
+const DB_VERSION = 1;
+const ACTIONS = "actions";
+const META = "meta";
+
+// Queuing the opposite of a still-pending action cancels both
+const OPPOSITE: Record<QueuedActionKind, QueuedActionKind> = {
+  save: "unsave",
+  unsave: "save",
+  apply: "withdraw",
+  withdraw: "apply",
+};
+
+const listeners = new Set<() => void>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= openDatabase(DB_NAME, DB_VERSION, (db) => {
+    db.createObjectStore(ACTIONS, { keyPath: "id", autoIncrement: true });
+    db.createObjectStore(META);
+  }).catch((err) => {
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+async function run<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => IDBRequest<T> | void
+) {
+  return transact(await openDb(), store, mode, fn);
+}
+
+export function notifyQueueChanged() {
+  listeners.forEach((l) => l());
+}
+
+/** Subscribes to queue changes from this tab and from service worker replays. */
+export function onQueueChange(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function pendingActions(userId?: string) {
+  const all = ((await run<QueuedAction[]>(ACTIONS, "readonly", (s) => s.getAll())) ?? []).sort(
+    (a, b) => a.id! - b.id!
+  );
+  return userId ? all.filter((a) => a.user_id === userId) : all;
+}
+
+/**
+ * Adds an action to the queue, or drops the pending opposite action for the
+ * same event (e.g. saving then unsaving offline leaves nothing to replay).
+ */
+export async function queueAction(action: Omit<QueuedAction, "id" | "queued_at">) {
+  const pending = await pendingActions(action.user_id);
+  const forEvent = pending.filter((a) => a.event_id === action.event_id);
+  const last = forEvent[forEvent.length - 1];
+
+  if (last?.kind === OPPOSITE[action.kind]) {
+    await removeAction(last.id!);
+  } else if (last?.kind !== action.kind) {
+    await run(ACTIONS, "readwrite", (s) => s.add({ ...action, queued_at: new Date().toISOString() }));
+  }
+  notifyQueueChanged();
+  await requestSync();
+}
+
+export async function removeAction(id: number) {
+  await run(ACTIONS, "readwrite", (s) => s.delete(id));
+}
+
+export async function saveSyncSession(session: SyncSession | null) {
+  await run(META, "readwrite", (s) => {
+    if (session) s.put(session, "session");
+    else s.delete("session");
+  });
+}
+
+// Background Sync isn't in the DOM typings and only exists in Chromium browsers;
+// elsewhere the queue is flushed by the app when it comes back online
+async function requestSync() {
+  if (!("serviceWorker" in navigator)) return;
+  try {
+    const reg = (await navigator.serviceWorker.getRegistration()) as
+      | (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } })
+      | undefined;
+    await reg?.sync?.register(SYNC_TAG);
+  } catch (err) {
+    console.error("Background sync registration failed:", err);
+  }
+}
@@ -0,0 +1,124 @@
+import { deletePushSubscription, savePushSubscription } from "./repository";
+
+// Public half of the VAPID key pair; the private half is a secret of the
+// send-push edge function
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const pushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+// Raised by save_push_subscription for an endpoint another account saved
+const ENDPOINT_TAKEN = "23505";
+
+function base64UrlToBytes(value: string) {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// Subscriptions made with an old VAPID key can't receive our pushes any more
+function usesKey(sub: PushSubscription, key: Uint8Array) {
+  const current = sub.options.applicationServerKey;
+  if (!current) return false;
+  const bytes = new Uint8Array(current);
+  return bytes.length === key.length && bytes.every((b, i) => b === key[i]);
+}
+
+async function saveSubscription(sub: PushSubscription, oldEndpoint: string | null) {
+  const { keys } = sub.toJSON();
+  await savePushSubscription({
+    endpoint: sub.endpoint,
+    p256dh: keys?.p256dh ?? "",
+    auth: keys?.auth ?? "",
+    userAgent: navigator.userAgent,
+    oldEndpoint,
+  });
+}
+
+/**
+ * Makes sure this device is subscribed with the current VAPID key and that the
+ * server has the subscription. Does nothing until notifications are allowed.
+ */
+export async function syncPushSubscription() {
+  if (!pushSupported() || Notification.permission !== "granted") return;
+  if (!VAPID_PUBLIC_KEY) return console.error("VITE_VAPID_PUBLIC_KEY is not set; push is disabled");
+
+  const key = base64UrlToBytes(VAPID_PUBLIC_KEY);
+  const registration = await navigator.serviceWorker.ready;
+  let sub = await registration.pushManager.getSubscription();
+  let oldEndpoint: string | null = null;
+
+  if (sub && !usesKey(sub, key)) {
+    oldEndpoint = sub.endpoint;
+    await sub.unsubscribe();
+    sub = null;
+  }
+  const subscribe = () =>
+    registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: key });
+  sub ??= await subscribe();
+  try {
+    await saveSubscription(sub, oldEndpoint);
+  } catch (err) {
+    // The endpoint is still saved under the account last signed in on this
+    // device (e.g. its sign-out was offline); only a fresh subscription is ours
+    if ((err as { code?: string }).code !== ENDPOINT_TAKEN) throw err;
+    await sub.unsubscribe();
+    await saveSubscription(await subscribe(), null);
+  }
+}
+
+/**
+ * Saves subscriptions the browser rotated while the service worker's session
+ * had expired (see pushsubscriptionchange in service-worker.js).
+ */
+export function watchPushSubscriptionChanges() {
+  if (!pushSupported()) return () => {};
+  const onMessage = async (e: MessageEvent) => {
+    if (e.data?.type !== "PUSH_SUBSCRIPTION_CHANGED") return;
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const sub = await registration.pushManager.getSubscription();
+      if (sub) await saveSubscription(sub, e.data.old_endpoint ?? null);
+    } catch (err) {
+      console.error("Error saving rotated push subscription:", err);
+    }
+  };
+  navigator.serviceWorker.addEventListener("message", onMessage);
+  return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+}
+
+/** Whether this device has a push subscription, so server-sent reminders reach it. */
+export async function hasPushSubscription() {
+  if (!pushSupported()) return false;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return !!(await registration?.pushManager.getSubscription());
+}
+
+/** Asks for notification permission if it hasn't been decided, then subscribes. */
+export async function enablePushNotifications(): Promise<NotificationPermission> {
+  if (!pushSupported()) return "denied";
+  const permission =
+    Notification.permission === "default"
+      ? await Notification.requestPermission()
+      : Notification.permission;
+  if (permission === "granted") await syncPushSubscription();
+  return permission;
+}
+
+/**
+ * Unsubscribes this device and deletes its row. Called before sign-out, while
+ * the session can still delete it, so the next account on the device doesn't
+ * receive the previous user's pushes.
+ */
+export async function removePushSubscription() {
+  if (!pushSupported()) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  const sub = await registration?.pushManager.getSubscription();
+  if (!sub) return;
+
+  await deletePushSubscription(sub.endpoint).catch((err) =>
+    console.error("Error removing push subscription:", err)
+  );
+  await sub.unsubscribe();
+}
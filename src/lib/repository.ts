@@ -0,0 +1,611 @@
+import { supabase } from "./supabase";
+import { userTimeZone } from "./datetime";
+import type { FeedCursor, FeedQuery } from "./feed";
+import { EMPTY_FACETS, parseFilters, type FacetCounts, type FeedFilters } from "./feedFilters";
+import type {
+  AffinitySnapshot,
+  AppNotification,
+  Application,
+  ApplicationCalendarEntry,
+  ApplicationRow,
+  CategoryLink,
+  ClassBlock,
+  Collection,
+  Event,
+  FeedEvent,
+  Interest,
+  NewClassBlock,
+  NotificationPreferencesRow,
+  Profile,
+  SavedItem,
+  SavedItemChanges,
+  SimilarEvent,
+} from "./models";
+
+// Reads and writes behind the tabs. Each function throws the Supabase error so
+// callers decide whether to fall back to the local cache.
+
+const EVENT_COLUMNS =
+  "id, title, description, event_type, organization, location, date, end_date, all_day, timezone, deadline, image_url, prize, tags, link";
+
+// Events
+
+/** Null when the event no longer exists. */
+export async function fetchEvent(eventId: string): Promise<Event | null> {
+  const { data, error } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .eq("id", eventId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/** Soonest first. */
+export async function fetchEvents(eventIds: string[]): Promise<Event[]> {
+  if (!eventIds.length) return [];
+  const { data, error } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .in("id", eventIds)
+    .order("date", { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Of the given events, those whose deadline falls after `from` and by `until`. */
+export async function fetchEventsClosingBetween(
+  eventIds: string[],
+  from: Date,
+  until: Date
+): Promise<Pick<Event, "id" | "title" | "deadline">[]> {
+  if (!eventIds.length) return [];
+  const { data, error } = await supabase
+    .from("events")
+    .select("id, title, deadline")
+    .in("id", eventIds)
+    .gt("deadline", from.toISOString())
+    .lte("deadline", until.toISOString());
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Upcoming events still taking applications whose deadline is by `until`, soonest deadline first. */
+export async function fetchEventsClosingBy(until: Date, limit = 10): Promise<Event[]> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .gt("deadline", now)
+    .lte("deadline", until.toISOString())
+    .gte("date", now)
+    .order("deadline", { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Feed
+
+/** The user's learned weights, which the feed ranks a whole scroll session with. */
+export async function fetchAffinitySnapshot(): Promise<AffinitySnapshot> {
+  const { data, error } = await supabase
+    .from("user_affinities")
+    .select("feature_type, feature_value, weight");
+  if (error) throw error;
+  return Object.fromEntries(
+    (data ?? []).map((a) => [`${a.feature_type}:${a.feature_value}`, a.weight])
+  );
+}
+
+/** Up to `limit` feed rows after the keyset position `after`, best first. */
+export async function fetchFeedEvents(
+  q: FeedQuery,
+  after: Omit<FeedCursor, "affinities"> | null,
+  affinities: AffinitySnapshot,
+  limit: number
+): Promise<FeedEvent[]> {
+  const { data, error } = await supabase.rpc("feed_events", {
+    p_interests: q.interests,
+    p_filters: q.filters,
+    p_query: q.query || null,
+    p_tz: userTimeZone(),
+    p_after_score: after?.score ?? null,
+    p_after_date: after?.date ?? null,
+    p_after_id: after?.id ?? null,
+    p_limit: limit,
+    p_affinities: affinities,
+  });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchFeedFacets(q: FeedQuery): Promise<FacetCounts> {
+  const { data, error } = await supabase.rpc("feed_facets", {
+    p_interests: q.interests,
+    p_filters: q.filters,
+    p_query: q.query || null,
+    p_tz: userTimeZone(),
+  });
+  if (error) throw error;
+  // feed_facets always returns the full object; fall back only if the RPC shape drifts
+  return { ...EMPTY_FACETS, ...(data as Partial<FacetCounts> | null) };
+}
+
+export async function fetchSimilarEvents(eventId: string, limit = 8): Promise<SimilarEvent[]> {
+  const { data, error } = await supabase.rpc("similar_events", {
+    p_event_id: eventId,
+    p_limit: limit,
+  });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Saves and applications are logged by triggers; views are the only signal the client sends. */
+export async function addEventView(userId: string, eventId: string) {
+  const { error } = await supabase
+    .from("event_interactions")
+    .insert({ user_id: userId, event_id: eventId, kind: "view" });
+  if (error) throw error;
+}
+
+// Saves
+
+/** Ids of the events the user saved. */
+export async function fetchSavedEventIds(userId: string) {
+  const { data, error } = await supabase
+    .from("saved_events")
+    .select("event_id")
+    .eq("user_id", userId);
+  if (error) throw error;
+  return (data ?? []).map((r) => r.event_id);
+}
+
+/** Newest first, each with its event, collection, note and priority. */
+export async function fetchSavedItems(userId: string): Promise<SavedItem[]> {
+  const { data, error } = await supabase
+    .from("saved_events")
+    .select(`event_id, collection_id, note, priority, created_at, events (${EVENT_COLUMNS})`)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function updateSavedItem(userId: string, eventId: string, changes: SavedItemChanges) {
+  const { error } = await supabase
+    .from("saved_events")
+    .update(changes)
+    .eq("user_id", userId)
+    .eq("event_id", eventId);
+  if (error) throw error;
+}
+
+export async function addSavedEvent(userId: string, eventId: string) {
+  const { error } = await supabase
+    .from("saved_events")
+    .insert({ user_id: userId, event_id: eventId });
+  if (error) throw error;
+}
+
+export async function removeSavedEvent(userId: string, eventId: string) {
+  const { error } = await supabase
+    .from("saved_events")
+    .delete()
+    .eq("user_id", userId)
+    .eq("event_id", eventId);
+  if (error) throw error;
+}
+
+// Collections
+
+/** Oldest first, so new collections are added at the end. */
+export async function fetchCollections(userId: string): Promise<Collection[]> {
+  const { data, error } = await supabase
+    .from("collections")
+    .select("id, name, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function createCollection(userId: string, name: string): Promise<Collection> {
+  const { data, error } = await supabase
+    .from("collections")
+    .insert({ user_id: userId, name: name.trim() })
+    .select("id, name, created_at")
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function renameCollection(collectionId: string, name: string) {
+  const { error } = await supabase
+    .from("collections")
+    .update({ name: name.trim() })
+    .eq("id", collectionId);
+  if (error) throw error;
+}
+
+/** Its saved events stay saved and become unsorted. */
+export async function deleteCollection(collectionId: string) {
+  const { error } = await supabase.from("collections").delete().eq("id", collectionId);
+  if (error) throw error;
+}
+
+// Applications
+
+/** The user's application ids and the events they are for. */
+export async function fetchAppliedEvents(userId: string) {
+  const { data, error } = await supabase
+    .from("applications")
+    .select("id, event_id")
+    .eq("user_id", userId);
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** The calendar entry of the user's application to one event, or null if they haven't applied. */
+export async function fetchApplicationCalendarEntry(
+  userId: string,
+  eventId: string
+): Promise<ApplicationCalendarEntry | null> {
+  const { data, error } = await supabase
+    .from("applications")
+    .select("event_id, google_calendar_id, calendar_sequence, calendar_updated_at")
+    .eq("user_id", userId)
+    .eq("event_id", eventId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function addApplication(userId: string, eventId: string): Promise<ApplicationRow> {
+  const { data, error } = await supabase
+    .from("applications")
+    .insert({ user_id: userId, event_id: eventId })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Returns the deleted row, or null when there was nothing to withdraw. */
+export async function removeApplication(
+  userId: string,
+  eventId: string
+): Promise<ApplicationRow | null> {
+  const { data, error } = await supabase
+    .from("applications")
+    .delete()
+    .eq("user_id", userId)
+    .eq("event_id", eventId)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/** Newest first, each with its event. */
+export async function fetchApplications(userId: string): Promise<Application[]> {
+  const { data, error } = await supabase
+    .from("applications")
+    .select(`id, event_id, status, created_at, updated_at, events (${EVENT_COLUMNS})`)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Status changes of the given applications, oldest first. */
+export async function fetchStatusHistory(applicationIds: string[]) {
+  if (!applicationIds.length) return [];
+  const { data, error } = await supabase
+    .from("application_status_history")
+    .select("id, application_id, from_status, to_status, changed_at")
+    .in("application_id", applicationIds)
+    .order("changed_at", { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Returns the new updated_at, which the applications_set_updated_at trigger sets. */
+export async function updateApplicationStatus(applicationId: string, status: string) {
+  const { data, error } = await supabase
+    .from("applications")
+    .update({ status })
+    .eq("id", applicationId)
+    .select("updated_at")
+    .single();
+  if (error) throw error;
+  return data.updated_at;
+}
+
+/**
+ * Puts a withdrawn application back with its original id, status, dates and
+ * calendar UID. The status timeline restarts from the restored status, since
+ * history rows are deleted with the application. The deadline check lets the
+ * same application back within an hour of withdrawing, so undo works after
+ * applications close.
+ */
+export async function restoreApplication(row: ApplicationRow) {
+  const { error } = await supabase.from("applications").insert({
+    id: row.id,
+    user_id: row.user_id,
+    event_id: row.event_id,
+    status: row.status,
+    google_calendar_id: row.google_calendar_id,
+    created_at: row.created_at,
+  });
+  if (error) throw error;
+}
+
+// Calendar
+
+/** The UID and sequence of each of the user's applications. */
+export async function fetchApplicationCalendarEntries(
+  userId: string
+): Promise<ApplicationCalendarEntry[]> {
+  const { data, error } = await supabase
+    .from("applications")
+    .select("event_id, google_calendar_id, calendar_sequence, calendar_updated_at")
+    .eq("user_id", userId);
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** The token in the user's feed URL, created on first use. */
+export async function fetchCalendarFeedToken(userId: string) {
+  const { data, error } = await supabase
+    .from("calendar_feeds")
+    .select("token")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (data) return data.token;
+
+  const { data: created, error: createErr } = await supabase
+    .from("calendar_feeds")
+    .insert({ user_id: userId })
+    .select("token")
+    .single();
+  if (createErr) throw createErr;
+  return created.token;
+}
+
+/** The old feed URL stops working; the next fetch creates a new token. */
+export async function deleteCalendarFeedToken(userId: string) {
+  const { error } = await supabase.from("calendar_feeds").delete().eq("user_id", userId);
+  if (error) throw error;
+}
+
+// Interests & preferences
+
+/** All interest categories, by name. */
+export async function fetchInterests(): Promise<Interest[]> {
+  const { data, error } = await supabase.from("interests").select("id, name, icon").order("name");
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Which interest categories the given events fall into. */
+export async function fetchEventCategories(eventIds: string[]): Promise<CategoryLink[]> {
+  if (!eventIds.length) return [];
+  const { data, error } = await supabase
+    .from("event_interests")
+    .select("event_id, interest_id")
+    .in("event_id", eventIds);
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Names of the interests the user picked during onboarding. */
+export async function fetchInterestNames(userId: string) {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("interest_name")
+    .eq("user_id", userId);
+  if (error) throw error;
+  return (data ?? []).map((p) => p.interest_name);
+}
+
+/** Replaces the user's interests with `names`. */
+export async function replaceInterestNames(userId: string, names: string[]) {
+  const { error: deleteError } = await supabase
+    .from("user_preferences")
+    .delete()
+    .eq("user_id", userId);
+  if (deleteError) throw deleteError;
+  if (!names.length) return;
+
+  const { error } = await supabase
+    .from("user_preferences")
+    .insert(names.map((name) => ({ user_id: userId, interest_name: name })));
+  if (error) throw error;
+}
+
+/** The feed filters the user last had on, or none. */
+export async function fetchFeedFilters(userId: string) {
+  const { data, error } = await supabase
+    .from("user_feed_filters")
+    .select("filters")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return parseFilters(data?.filters);
+}
+
+export async function saveFeedFilters(userId: string, filters: FeedFilters) {
+  const { error } = await supabase
+    .from("user_feed_filters")
+    .upsert({ user_id: userId, filters, updated_at: new Date().toISOString() });
+  if (error) throw error;
+}
+
+// Timetable
+
+const CLASS_BLOCK_COLUMNS =
+  "id, title, location, weekday, start_time, end_time, starts_on, ends_on, timezone, source";
+
+/** By weekday, then start time. */
+export async function fetchClassBlocks(userId: string): Promise<ClassBlock[]> {
+  const { data, error } = await supabase
+    .from("class_blocks")
+    .select(CLASS_BLOCK_COLUMNS)
+    .eq("user_id", userId)
+    .order("weekday")
+    .order("start_time");
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function addClassBlocks(userId: string, blocks: NewClassBlock[]) {
+  if (!blocks.length) return;
+  const { error } = await supabase
+    .from("class_blocks")
+    .insert(blocks.map((b) => ({ ...b, user_id: userId })));
+  if (error) throw error;
+}
+
+/** Replaces everything a previous .ics import added; manual blocks are kept. */
+export async function replaceImportedClassBlocks(userId: string, blocks: NewClassBlock[]) {
+  const { error } = await supabase
+    .from("class_blocks")
+    .delete()
+    .eq("user_id", userId)
+    .eq("source", "ics");
+  if (error) throw error;
+  await addClassBlocks(userId, blocks);
+}
+
+export async function deleteClassBlock(blockId: string) {
+  const { error } = await supabase.from("class_blocks").delete().eq("id", blockId);
+  if (error) throw error;
+}
+
+// Notifications
+
+/** Newest first. */
+export async function fetchNotifications(userId: string, limit: number): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function markNotificationRead(notificationId: string) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read: true })
+    .eq("id", notificationId);
+  if (error) throw error;
+}
+
+/** Also covers unread notifications older than the ones loaded. */
+export async function markAllNotificationsRead(userId: string) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read: true })
+    .eq("user_id", userId)
+    .eq("read", false);
+  if (error) throw error;
+}
+
+export async function deleteNotification(notificationId: string) {
+  const { error } = await supabase.from("notifications").delete().eq("id", notificationId);
+  if (error) throw error;
+}
+
+/** Null until the user first saves their preferences. */
+export async function fetchNotificationPreferences(
+  userId: string
+): Promise<NotificationPreferencesRow | null> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("channels, quiet_hours_start, quiet_hours_end, timezone")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function upsertNotificationPreferences(
+  userId: string,
+  row: NotificationPreferencesRow
+) {
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert({ ...row, user_id: userId, updated_at: new Date().toISOString() });
+  if (error) throw error;
+}
+
+/** `oldEndpoint` is the subscription this one replaces on the same device, if any. */
+export async function savePushSubscription(sub: {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent: string;
+  oldEndpoint: string | null;
+}) {
+  const { error } = await supabase.rpc("save_push_subscription", {
+    p_endpoint: sub.endpoint,
+    p_p256dh: sub.p256dh,
+    p_auth: sub.auth,
+    p_user_agent: sub.userAgent,
+    p_old_endpoint: sub.oldEndpoint,
+  });
+  if (error) throw error;
+}
+
+export async function deletePushSubscription(endpoint: string) {
+  const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", endpoint);
+  if (error) throw error;
+}
+
+// Profile
+
+/** Null when the signup trigger hasn't created the row (yet). */
+export async function fetchProfile(userId: string): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, display_name, avatar_url, banner_url, onboarded")
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function createProfile(userId: string, email: string, displayName: string) {
+  const { error } = await supabase
+    .from("profiles")
+    .insert({ id: userId, email, display_name: displayName });
+  if (error) throw error;
+}
+
+export async function updateProfile(
+  userId: string,
+  changes: Partial<Pick<Profile, "display_name" | "avatar_url" | "banner_url" | "onboarded">>
+) {
+  const { error } = await supabase.from("profiles").update(changes).eq("id", userId);
+  if (error) throw error;
+}
+
+/** Uploads a new avatar and returns its public URL; the profile isn't changed. */
+export async function uploadAvatar(userId: string, file: File) {
+  const fileExt = file.name.split(".").pop();
+  const filePath = `avatars/${userId}-${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from("avatars").upload(filePath, file, {
+    cacheControl: "3600",
+    upsert: true,
+    contentType: file.type,
+  });
+  if (error) throw error;
+
+  return supabase.storage.from("avatars").getPublicUrl(filePath).data.publicUrl;
+}
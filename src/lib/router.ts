@@ -0,0 +1,133 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+
+export type Tab = "feed" | "applications" | "saved" | "profile";
+
+export interface Route {
+  tab: Tab;
+  /** Set on /events/:id. */
+  eventId: string | null;
+}
+
+// What this app keeps in history.state
+interface HistoryState {
+  /** Tab an event was opened over, so closing it (or a reload) returns there. */
+  tab?: Tab;
+}
+
+const TAB_PATHS: Record<Tab, string> = {
+  feed: "/",
+  applications: "/applications",
+  saved: "/saved",
+  profile: "/profile",
+};
+
+const EVENT_PATH = /^\/events\/([^/]+)\/?$/;
+
+export const tabPath = (tab: Tab) => TAB_PATHS[tab];
+export const eventPath = (eventId: string) => `/events/${encodeURIComponent(eventId)}`;
+export const eventUrl = (eventId: string) => window.location.origin + eventPath(eventId);
+
+const historyState = (): HistoryState => window.history.state ?? {};
+
+export function parseRoute(pathname: string, state: HistoryState = {}): Route {
+  const match = EVENT_PATH.exec(pathname);
+  if (match) return { tab: state.tab ?? "feed", eventId: decodeURIComponent(match[1]) };
+  const tab = (Object.keys(TAB_PATHS) as Tab[]).find((t) => TAB_PATHS[t] === pathname);
+  return { tab: tab ?? "feed", eventId: null };
+}
+
+// pushState/replaceState don't fire popstate, so our own navigations announce themselves
+const NAVIGATE_EVENT = "vybin:navigate";
+
+function setHistory(path: string, state: HistoryState, replace: boolean) {
+  if (replace) window.history.replaceState(state, "", path);
+  else window.history.pushState(state, "", path);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+export function navigate(path: string, { replace = false } = {}) {
+  if (path !== window.location.pathname) setHistory(path, {}, replace);
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+let current = parseRoute(window.location.pathname, historyState());
+
+// useSyncExternalStore needs the same object back while nothing changed
+function getRoute() {
+  const next = parseRoute(window.location.pathname, historyState());
+  if (next.tab !== current.tab || next.eventId !== current.eventId) current = next;
+  return current;
+}
+
+/** The current route, re-rendering on navigation and back/forward. */
+export const useRoute = () => useSyncExternalStore(subscribe, getRoute);
+
+/** Event id of an in-app link, either /events/:id or the older /?event=:id. */
+export function eventIdFromUrl(href: string) {
+  const url = new URL(href, window.location.origin);
+  if (url.origin !== window.location.origin) return null;
+  return parseRoute(url.pathname).eventId ?? url.searchParams.get("event");
+}
+
+let openModal: string | null = null;
+
+/** Event whose modal is currently open, if any. */
+export const openModalEventId = () => openModal;
+
+/**
+ * Gives an open event modal its own history entry at /events/:id, so the back
+ * button closes it and the address bar can be shared. Closing the modal from
+ * the UI goes back again. Switching events inside the modal replaces the entry.
+ */
+export function useEventHistory(eventId: string | null | undefined, isOpen: boolean, onClose: () => void) {
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  const idRef = useRef(eventId);
+  idRef.current = eventId;
+  const open = isOpen && !!eventId;
+
+  useEffect(() => {
+    const id = idRef.current;
+    if (!open || !id) return;
+
+    const path = eventPath(id);
+    const tab = parseRoute(window.location.pathname, historyState()).tab;
+    // A link straight to the event already has the entry; closing then swaps it for the tab
+    const pushed = window.location.pathname !== path;
+    openModal = id;
+    setHistory(path, { tab }, !pushed);
+
+    let closedByHistory = false;
+    const onPop = () => {
+      if (EVENT_PATH.test(window.location.pathname)) return;
+      closedByHistory = true;
+      onCloseRef.current();
+    };
+    window.addEventListener("popstate", onPop);
+
+    return () => {
+      window.removeEventListener("popstate", onPop);
+      openModal = null;
+      if (closedByHistory || !EVENT_PATH.test(window.location.pathname)) return;
+      if (pushed) window.history.back();
+      else setHistory(tabPath(tab), {}, true);
+    };
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !eventId || window.location.pathname === eventPath(eventId)) return;
+    openModal = eventId;
+    setHistory(eventPath(eventId), historyState(), true);
+  }, [open, eventId]);
+}
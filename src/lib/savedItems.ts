@@ -0,0 +1,33 @@
+// Mirrors saved_events_priority_check; most important first
+export const SAVED_PRIORITIES = ["high", "medium", "low"] as const;
+
+export type SavedPriority = (typeof SAVED_PRIORITIES)[number];
+
+export const SAVED_PRIORITY_LABELS: Record<SavedPriority, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+/** Text, background and border classes for each priority badge. */
+export const SAVED_PRIORITY_STYLES: Record<SavedPriority, string> = {
+  high: "text-rose-400 bg-rose-400/10 border-rose-400/40",
+  medium: "text-amber-400 bg-amber-400/10 border-amber-400/40",
+  low: "text-gray-300 bg-white/5 border-white/15",
+};
+
+export const isSavedPriority = (v: unknown): v is SavedPriority =>
+  SAVED_PRIORITIES.includes(v as SavedPriority);
+
+/** Sort key: high first, then medium, low, and events without a priority last. */
+export const priorityRank = (v: string | null | undefined) =>
+  isSavedPriority(v) ? SAVED_PRIORITIES.indexOf(v) : SAVED_PRIORITIES.length;
+
+export const COLLECTION_NAME_MAX = 60;
+export const NOTE_MAX = 2000;
+
+/** What to tell the user when creating or renaming a collection fails. */
+export const collectionErrorMessage = (err: unknown) =>
+  (err as { code?: string } | null)?.code === "23505"
+    ? "You already have a collection with that name."
+    : "Couldn't save the collection. Check your connection and try again.";
@@ -0,0 +1,66 @@
+// Service worker registration and update handoff. A new build installs in the
+// background and waits; the app offers a reload, which tells it to take over.
+
+type UpdateListener = (worker: ServiceWorker) => void;
+
+const listeners = new Set<UpdateListener>();
+let waiting: ServiceWorker | null = null;
+let updateAccepted = false;
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+function setWaiting(worker: ServiceWorker) {
+  waiting = worker;
+  listeners.forEach((l) => l(worker));
+}
+
+/** Registers the worker in production builds; the dev server runs without one. */
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+  // Without a controller this is the first install, whose clients.claim() also
+  // fires controllerchange; only a worker replacing another one needs a reload
+  const hadController = !!navigator.serviceWorker.controller;
+
+  window.addEventListener("load", async () => {
+    try {
+      const reg = await navigator.serviceWorker.register("/service-worker.js");
+
+      // Only an update if a previous worker controls the page; the first install isn't
+      if (reg.waiting && navigator.serviceWorker.controller) setWaiting(reg.waiting);
+      reg.addEventListener("updatefound", () => {
+        const worker = reg.installing;
+        worker?.addEventListener("statechange", () => {
+          if (worker.state === "installed" && navigator.serviceWorker.controller) setWaiting(worker);
+        });
+      });
+
+      // Long-lived tabs (installed PWAs) otherwise only check on navigation
+      setInterval(() => reg.update().catch(() => {}), UPDATE_CHECK_MS);
+    } catch (err) {
+      console.error("Service worker registration failed:", err);
+    }
+  });
+
+  // Fires once the waiting worker has taken over, in this and every other tab
+  let reloading = false;
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (reloading || !(hadController || updateAccepted)) return;
+    reloading = true;
+    window.location.reload();
+  });
+}
+
+/** Calls listener with the waiting worker, now if one is already waiting. */
+export function onUpdateAvailable(listener: UpdateListener) {
+  listeners.add(listener);
+  if (waiting) listener(waiting);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Activates the waiting worker; the page reloads on controllerchange. */
+export function applyUpdate(worker: ServiceWorker) {
+  updateAccepted = true;
+  worker.postMessage({ type: "SKIP_WAITING" });
+}
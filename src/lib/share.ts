@@ -0,0 +1,26 @@
+import { eventUrl } from "./router";
+
+export type ShareOutcome = "shared" | "copied" | "cancelled";
+
+/**
+ * Shares a link to the event with the Web Share API, or copies it to the
+ * clipboard where sharing isn't available (most desktop browsers).
+ */
+export async function shareEvent(event: { id: string; title: string }): Promise<ShareOutcome> {
+  const url = eventUrl(event.id);
+  const data = { title: event.title, text: `${event.title} on vybin`, url };
+
+  if (navigator.share && (!navigator.canShare || navigator.canShare(data))) {
+    try {
+      await navigator.share(data);
+      return "shared";
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError
+      if (err instanceof DOMException && err.name === "AbortError") return "cancelled";
+      console.error("Web Share failed, copying the link instead:", err);
+    }
+  }
+
+  await navigator.clipboard.writeText(url);
+  return "copied";
+}
@@ -0,0 +1,288 @@
+// The user's class timetable: turning an imported calendar into weekly blocks
+// and checking events against them. `classClashes` mirrors
+// event_clashes_with_classes() in the database, which the feed's "hide clashes"
+// filter uses.
+
+import { eventEnd, formatTime, userTimeZone, type EventTiming } from "./datetime";
+import type { IcsDateValue, ParsedIcsEvent } from "./ics";
+import { readCache, writeCache } from "./localCache";
+import type { ClassBlock, Event, NewClassBlock } from "./models";
+import { fetchClassBlocks, fetchEvents } from "./repository";
+
+/** Indexed by `weekday` (0 = Sunday), like extract(dow ...) in Postgres. */
+export const WEEKDAY_LABELS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/** Lists weekdays starting on Monday, the way a timetable reads. */
+export const TIMETABLE_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+// A course calendar has a few dozen entries; a whole personal calendar is not a timetable
+export const MAX_IMPORTED_BLOCKS = 300;
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Days walked per event or block before giving up, so a bad end date can't loop for long
+const MAX_DAYS = 31;
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Building a formatter is slow and the feed checks every card, so keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// "2025-09-03" and "08:35" for an instant as seen in timeZone
+function wallClock(at: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(at).map((p) => [p.type, p.value]));
+  return { day: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+const dayUtc = (day: string) => {
+  const [y, m, d] = day.split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+const addDays = (day: string, n: number) =>
+  new Date(dayUtc(day) + n * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const weekdayOf = (day: string) => new Date(dayUtc(day)).getUTCDay();
+
+const minutesOf = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+const timeOf = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+// The instant `time` on `day` happens in timeZone. The offset is looked up twice
+// so times next to a DST change land on the right side of it.
+function zonedInstant(day: string, time: string, timeZone: string) {
+  const wall = dayUtc(day) + minutesOf(time) * 60 * 1000;
+  const offset = (at: number) => {
+    const w = wallClock(new Date(at), timeZone);
+    return dayUtc(w.day) + minutesOf(w.time) * 60 * 1000 - Math.floor(at / 60000) * 60000;
+  };
+  return wall - offset(wall - offset(wall));
+}
+
+/** "8:35 AM", from a Postgres time ("08:35:00") or a time input ("08:35"). */
+export const formatClassTime = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return formatTime(new Date(2000, 0, 1, h, m).toISOString());
+};
+
+/** The classes a timed event overlaps. All-day events never clash. */
+export function classClashes(ev: EventTiming, blocks: ClassBlock[]) {
+  if (ev.all_day || !blocks.length) return [];
+  const start = new Date(ev.date).getTime();
+  const end = eventEnd(ev).getTime();
+
+  return blocks.filter((b) => {
+    const last = wallClock(new Date(end), b.timezone).day;
+    let day = wallClock(new Date(start), b.timezone).day;
+    for (let n = 0; day <= last && n < MAX_DAYS; n++, day = addDays(day, 1)) {
+      if (weekdayOf(day) !== b.weekday) continue;
+      if ((b.starts_on && day < b.starts_on) || (b.ends_on && day > b.ends_on)) continue;
+      if (
+        zonedInstant(day, b.start_time, b.timezone) < end &&
+        zonedInstant(day, b.end_time, b.timezone) > start
+      )
+        return true;
+    }
+    return false;
+  });
+}
+
+/** Whether two timed events overlap; all-day events don't count. */
+export const eventsOverlap = (a: EventTiming, b: EventTiming) =>
+  !a.all_day &&
+  !b.all_day &&
+  new Date(a.date) < eventEnd(b) &&
+  new Date(b.date) < eventEnd(a);
+
+/** The user's classes, or the copy cached from the last successful load when offline. */
+export async function loadClassBlocks(userId: string) {
+  try {
+    const blocks = await fetchClassBlocks(userId);
+    writeCache(userId, "timetable", blocks);
+    return blocks;
+  } catch (err) {
+    const cached = await readCache<ClassBlock[]>(userId, "timetable");
+    if (!cached) throw err;
+    return cached.data;
+  }
+}
+
+export interface ScheduleClashes {
+  classes: ClassBlock[];
+  /** Other events the user applied to. */
+  applications: Event[];
+}
+
+/**
+ * What applying to `ev` would overlap. Other applications are looked up fresh,
+ * so offline only classes are checked; a failed lookup never blocks applying.
+ */
+export async function findScheduleClashes(
+  userId: string,
+  ev: EventTiming & { id: string },
+  appliedIds: Iterable<string>
+): Promise<ScheduleClashes> {
+  if (ev.all_day) return { classes: [], applications: [] };
+  const [blocks, others] = await Promise.all([
+    loadClassBlocks(userId).catch(() => []),
+    fetchEvents([...appliedIds].filter((id) => id !== ev.id)).catch(() => []),
+  ]);
+  return {
+    classes: classClashes(ev, blocks),
+    applications: others.filter((other) => eventsOverlap(ev, other)),
+  };
+}
+
+interface WallTime {
+  day: string;
+  time: string;
+  /** Days the wall-clock date moved when converting from UTC; RRULE weekdays move with it. */
+  shift: number;
+}
+
+// Dates (all-day entries) and unreadable values give null
+function readDateTime(v: IcsDateValue, timeZone: string): WallTime | null {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z)?$/.exec(v.value);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, , utc] = m;
+  const day = `${y}-${mo}-${d}`;
+  if (!utc) return { day, time: `${h}:${mi}`, shift: 0 };
+  const local = wallClock(new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi)), timeZone);
+  return { ...local, shift: (dayUtc(local.day) - dayUtc(day)) / (24 * 60 * 60 * 1000) };
+}
+
+// "PT1H20M" -> 80; null for anything spanning days
+function durationMinutes(duration: string) {
+  const m = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/.exec(duration);
+  if (!m || m[1] || m[2]) return null;
+  return Number(m[3] ?? 0) * 60 + Number(m[4] ?? 0);
+}
+
+// UNTIL is a date or a date-time; either way we keep the last day
+function untilDay(until: string, timeZone: string) {
+  if (/^\d{8}$/.test(until)) return `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  return readDateTime({ value: until, tzid: null }, timeZone)?.day ?? null;
+}
+
+/**
+ * Weekly class blocks from the events of an .ics file. Weekly and daily
+ * repeats become one block per weekday, bounded by UNTIL or COUNT; one-off
+ * events become a block on their own date. All-day, multi-day, monthly and
+ * already-finished entries are skipped. Exceptions (EXDATE) aren't kept, so a
+ * cancelled class still counts as busy.
+ */
+export function blocksFromCalendar(
+  events: ParsedIcsEvent[],
+  fallbackZone = userTimeZone(),
+  today = new Date().toISOString().slice(0, 10)
+) {
+  const blocks = new Map<string, NewClassBlock>();
+  let skipped = 0;
+
+  for (const ev of events) {
+    const timeZone =
+      ev.start.value.endsWith("Z") || !ev.start.tzid || !isValidTimeZone(ev.start.tzid)
+        ? fallbackZone
+        : ev.start.tzid;
+    const start = readDateTime(ev.start, timeZone);
+    if (!start) {
+      skipped++;
+      continue;
+    }
+
+    let endMinutes: number | null = null;
+    if (ev.end) {
+      const end = readDateTime(ev.end, timeZone);
+      if (end?.day === start.day) endMinutes = minutesOf(end.time);
+    } else if (ev.duration) {
+      const minutes = durationMinutes(ev.duration);
+      if (minutes !== null) endMinutes = minutesOf(start.time) + minutes;
+    }
+    if (endMinutes === null || endMinutes <= minutesOf(start.time) || endMinutes >= 24 * 60) {
+      skipped++;
+      continue;
+    }
+
+    const freq = ev.rrule?.FREQ?.toUpperCase();
+    let weekdays: number[];
+    let endsOn: string | null;
+    if (freq === "WEEKLY" || freq === "DAILY") {
+      const byDay = (ev.rrule?.BYDAY ?? "")
+        .split(",")
+        .map((d) => ICS_WEEKDAYS.indexOf(d.replace(/^[+-]?\d+/, "").toUpperCase()))
+        .filter((d) => d >= 0)
+        .map((d) => (d + start.shift + 7) % 7);
+      weekdays = byDay.length
+        ? byDay
+        : freq === "DAILY"
+        ? [0, 1, 2, 3, 4, 5, 6]
+        : [weekdayOf(start.day)];
+      const count = Number(ev.rrule?.COUNT);
+      endsOn = ev.rrule?.UNTIL
+        ? untilDay(ev.rrule.UNTIL, timeZone)
+        : count > 0
+        ? addDays(start.day, freq === "DAILY" ? count - 1 : 7 * Math.ceil(count / weekdays.length) - 1)
+        : null;
+    } else if (!freq) {
+      weekdays = [weekdayOf(start.day)];
+      endsOn = start.day;
+    } else {
+      skipped++;
+      continue;
+    }
+    if (endsOn && endsOn < today) {
+      skipped++;
+      continue;
+    }
+
+    for (const weekday of weekdays) {
+      const block: NewClassBlock = {
+        title: ev.summary.slice(0, 200),
+        location: ev.location,
+        weekday,
+        start_time: start.time,
+        end_time: timeOf(endMinutes),
+        starts_on: start.day,
+        ends_on: endsOn,
+        timezone: timeZone,
+        source: "ics",
+      };
+      const key = [block.title, weekday, block.start_time, block.end_time, block.starts_on, endsOn].join("|");
+      blocks.set(key, block);
+    }
+  }
+
+  return { blocks: [...blocks.values()], skipped };
+}
@@ -0,0 +1,125 @@
+// iCalendar (RFC 5545) generation for the calendar-feed edge function. A copy of
+// the generator in src/lib/ics.ts, which the app uses for .ics downloads; change
+// both together so downloaded files and the subscribed feed stay alike.
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  start: Date;
+  /** Defaults to two hours after `start` (or one day for all-day events). */
+  end?: Date;
+  /** Emit DATE values instead of times; `end` is then the inclusive last day. */
+  allDay?: boolean;
+  /** IANA zone used to pick the calendar date of all-day events. */
+  timeZone?: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  /** Bump whenever the entry changes so calendar apps replace their copy. */
+  sequence?: number;
+  lastModified?: Date;
+  status?: "CONFIRMED" | "CANCELLED";
+}
+
+export interface IcsCalendar {
+  name: string;
+  events: IcsEvent[];
+  /** Suggested refresh interval for subscribed feeds, in minutes. */
+  refreshMinutes?: number;
+}
+
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatUtc = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// yyyymmdd of the instant as seen in timeZone
+const formatDay = (d: Date, timeZone?: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+    .format(d)
+    .replace(/-/g, "");
+
+// DTEND of an all-day event is exclusive: the day after the last day
+const nextDay = (yyyymmdd: string) => {
+  const d = new Date(Date.UTC(+yyyymmdd.slice(0, 4), +yyyymmdd.slice(4, 6) - 1, +yyyymmdd.slice(6, 8)));
+  return formatUtc(new Date(d.getTime() + DAY_MS)).slice(0, 8);
+};
+
+const escapeText = (s: string) =>
+  s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<br\s*\/?>|<\/p>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+
+// Lines longer than 75 octets are folded with CRLF + space (RFC 5545 §3.1)
+function fold(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const chSize = new TextEncoder().encode(ch).length;
+    const limit = parts.length ? 74 : 75; // continuation lines start with a space
+    if (size + chSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += chSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(ev: IcsEvent, stamp: string) {
+  const lines = ["BEGIN:VEVENT", `UID:${ev.uid}`, `DTSTAMP:${stamp}`];
+  if (ev.allDay) {
+    const first = formatDay(ev.start, ev.timeZone);
+    const last = ev.end ? formatDay(ev.end, ev.timeZone) : first;
+    lines.push(`DTSTART;VALUE=DATE:${first}`, `DTEND;VALUE=DATE:${nextDay(last < first ? first : last)}`);
+  } else {
+    const end = ev.end ?? new Date(ev.start.getTime() + DEFAULT_DURATION_MS);
+    lines.push(`DTSTART:${formatUtc(ev.start)}`, `DTEND:${formatUtc(end)}`);
+  }
+  lines.push(
+    `SEQUENCE:${ev.sequence ?? 0}`,
+    `STATUS:${ev.status ?? "CONFIRMED"}`,
+    `SUMMARY:${escapeText(ev.title)}`
+  );
+  if (ev.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(ev.lastModified)}`);
+  if (ev.location) lines.push(`LOCATION:${escapeText(ev.location)}`);
+  if (ev.description) lines.push(`DESCRIPTION:${escapeText(stripHtml(ev.description))}`);
+  if (ev.url) lines.push(`URL:${ev.url}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar({ name, events, refreshMinutes }: IcsCalendar) {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//vybin//Events//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  if (refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${refreshMinutes}M`);
+  }
+  for (const ev of events) lines.push(...eventLines(ev, stamp));
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
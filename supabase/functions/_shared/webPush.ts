@@ -0,0 +1,98 @@
+// VAPID-signed Web Push delivery to all of a user's subscribed devices.
+//
+// Env:
+//   VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY - from `npx web-push generate-vapid-keys`;
+//     the public key is also the app's VITE_VAPID_PUBLIC_KEY
+//   VAPID_SUBJECT - mailto: or https: contact for push services
+import webpush from "npm:web-push@3.6.7";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+
+/** What the `push` handler in service-worker.js reads. */
+export interface PushPayload {
+  title: string;
+  body?: string;
+  /** Opened when the notification is clicked. */
+  url?: string;
+  event_id?: string;
+  actions?: { apply?: boolean; save?: boolean };
+  /** Notifications with the same tag replace each other. */
+  tag?: string;
+  /**
+   * Notification type (`notification_preferences`). When set, nothing is sent
+   * unless the user wants this type by push and it isn't their quiet hours.
+   */
+  kind?: "new_match" | "deadline" | "event_day" | "status_change";
+}
+
+export interface PushResult {
+  sent: number;
+  /** Subscriptions the push service reported as expired; they are deleted. */
+  removed: number;
+  failed: number;
+  /** True when the user's notification preferences held the push back. */
+  suppressed: boolean;
+}
+
+webpush.setVapidDetails(
+  Deno.env.get("VAPID_SUBJECT") ?? "mailto:hello@vybin.app",
+  Deno.env.get("VAPID_PUBLIC_KEY")!,
+  Deno.env.get("VAPID_PRIVATE_KEY")!
+);
+
+// Undelivered pushes are dropped after a day; a stale reminder is worse than none
+const TTL_SECONDS = 24 * 60 * 60;
+
+/** Sends payload to every device of userId. `supabase` must use the service role. */
+export async function sendPushToUser(
+  supabase: SupabaseClient,
+  userId: string,
+  payload: PushPayload
+): Promise<PushResult> {
+  const result: PushResult = { sent: 0, removed: 0, failed: 0, suppressed: false };
+
+  if (payload.kind) {
+    const { data: wanted, error } = await supabase.rpc("wants_notification", {
+      p_user_id: userId,
+      p_kind: payload.kind,
+      p_channel: "push",
+    });
+    if (error) throw error;
+    if (!wanted) return { ...result, suppressed: true };
+  }
+
+  const { data: subs, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const body = JSON.stringify(payload);
+
+  await Promise.all(
+    (subs ?? []).map(async (sub) => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+          body,
+          { TTL: TTL_SECONDS }
+        );
+        result.sent++;
+        await supabase
+          .from("push_subscriptions")
+          .update({ last_sent_at: new Date().toISOString() })
+          .eq("id", sub.id);
+      } catch (err) {
+        const status = (err as { statusCode?: number }).statusCode;
+        if (status === 404 || status === 410) {
+          result.removed++;
+          await supabase.from("push_subscriptions").delete().eq("id", sub.id);
+        } else {
+          result.failed++;
+          console.error(`Push to ${sub.endpoint} failed:`, err);
+        }
+      }
+    })
+  );
+
+  return result;
+}
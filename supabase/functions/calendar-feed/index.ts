@@ -0,0 +1,93 @@
+// Per-user iCalendar feed of a user's applications.
+//
+//   GET /functions/v1/calendar-feed?token=<calendar_feeds.token>
+//
+// Calendar apps can't send a Supabase JWT, so the secret token in the URL is the
+// credential: deploy with `supabase functions deploy calendar-feed --no-verify-jwt`.
+// Withdrawn applications and deleted events are published as CANCELLED for
+// CANCELLATION_DAYS so subscribed calendars drop them on their next refresh.
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { buildCalendar, type IcsEvent } from "../_shared/ics.ts";
+
+const CANCELLATION_DAYS = 30;
+const REFRESH_MINUTES = 60;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } }
+);
+
+const appUrl = Deno.env.get("APP_URL") ?? "";
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) return new Response("Missing token", { status: 400 });
+
+  const { data: feed, error: feedErr } = await supabase
+    .from("calendar_feeds")
+    .select("user_id")
+    .eq("token", token)
+    .maybeSingle();
+  if (feedErr) return new Response("Error loading feed", { status: 500 });
+  if (!feed) return new Response("Unknown calendar feed", { status: 404 });
+
+  const since = new Date(Date.now() - CANCELLATION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const [apps, cancellations] = await Promise.all([
+    supabase
+      .from("applications")
+      .select(
+        "google_calendar_id, calendar_sequence, calendar_updated_at, events (id, title, date, end_date, all_day, timezone, description, location, link)"
+      )
+      .eq("user_id", feed.user_id),
+    supabase
+      .from("calendar_cancellations")
+      .select("uid, title, starts_at, sequence, cancelled_at")
+      .eq("user_id", feed.user_id)
+      .gte("cancelled_at", since),
+  ]);
+  if (apps.error || cancellations.error) {
+    console.error("calendar-feed query failed:", apps.error ?? cancellations.error);
+    return new Response("Error loading feed", { status: 500 });
+  }
+
+  const events: IcsEvent[] = [];
+  for (const app of apps.data ?? []) {
+    const ev = Array.isArray(app.events) ? app.events[0] : app.events;
+    if (!ev) continue;
+    events.push({
+      uid: app.google_calendar_id,
+      sequence: app.calendar_sequence,
+      lastModified: new Date(app.calendar_updated_at),
+      title: ev.title,
+      start: new Date(ev.date),
+      end: ev.end_date ? new Date(ev.end_date) : undefined,
+      allDay: ev.all_day,
+      timeZone: ev.timezone,
+      description: ev.description,
+      location: ev.location,
+      url: ev.link || (appUrl && `${appUrl}/events/${ev.id}`),
+    });
+  }
+  for (const c of cancellations.data ?? []) {
+    events.push({
+      uid: c.uid,
+      sequence: c.sequence,
+      lastModified: new Date(c.cancelled_at),
+      status: "CANCELLED",
+      title: c.title,
+      start: new Date(c.starts_at),
+    });
+  }
+
+  return new Response(
+    buildCalendar({ name: "vybin applications", events, refreshMinutes: REFRESH_MINUTES }),
+    {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="vybin.ics"',
+        "Cache-Control": `private, max-age=${REFRESH_MINUTES * 60}`,
+      },
+    }
+  );
+});
@@ -0,0 +1,63 @@
+// Pushes "closes soon" reminders for saved events, whether or not the app is open.
+//
+//   POST /functions/v1/deadline-reminders
+//   Authorization: Bearer <service role key>
+//
+// Meant to run hourly from a cron job, e.g. with pg_cron and pg_net:
+//
+//   select cron.schedule('deadline-reminders', '0 * * * *', $$
+//     select net.http_post(
+//       url := '<project url>/functions/v1/deadline-reminders',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>')
+//     )
+//   $$);
+//
+// claim_deadline_reminders() picks what is due, records it and adds it to the
+// in-app inbox; this function delivers the push. Responds with { reminded, sent }.
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { sendPushToUser } from "../_shared/webPush.ts";
+
+// Matches DEADLINE_REMINDER_DAYS in src/lib/deadlines.ts
+const REMINDER_DAYS = 2;
+
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return new Response("Method not allowed", { status: 405 });
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  const { data: due, error } = await supabase.rpc("claim_deadline_reminders", {
+    p_days: REMINDER_DAYS,
+  });
+  if (error) {
+    console.error("Error claiming deadline reminders:", error);
+    return new Response("Couldn't load reminders", { status: 500 });
+  }
+
+  let sent = 0;
+  for (const reminder of due ?? []) {
+    if (!reminder.push) continue;
+    try {
+      // Preferences and quiet hours were applied when the reminder was claimed
+      const result = await sendPushToUser(supabase, reminder.user_id, {
+        title: reminder.title,
+        body: reminder.body,
+        url: `/events/${reminder.event_id}`,
+        event_id: reminder.event_id,
+        actions: { apply: true },
+        tag: `deadline-${reminder.event_id}`,
+      });
+      sent += result.sent;
+    } catch (err) {
+      console.error(`Error pushing deadline reminder to ${reminder.user_id}:`, err);
+    }
+  }
+
+  return Response.json({ reminded: due?.length ?? 0, sent });
+});
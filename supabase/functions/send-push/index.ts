@@ -0,0 +1,48 @@
+// Sends a Web Push notification to every device a user has subscribed.
+//
+//   POST /functions/v1/send-push
+//   Authorization: Bearer <service role key>
+//   { "user_id": "...", "title": "...", "body": "...", "url": "/events/...", "event_id": "..." }
+//
+// Only server-side callers (other functions, database webhooks, cron jobs) hold
+// the service role key, so users can't push to each other. Responds with
+// { sent, removed, failed, suppressed }. Pass "kind" (e.g. "deadline") to apply
+// the user's notification preferences and quiet hours. Env is documented in
+// ../_shared/webPush.ts.
+//
+// To try it without a browser, run mock-push-server.ts next to `supabase
+// functions serve`; it prints a subscription to insert and decrypts what it receives.
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { sendPushToUser, type PushPayload } from "../_shared/webPush.ts";
+
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return new Response("Method not allowed", { status: 405 });
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  let input: PushPayload & { user_id?: string };
+  try {
+    input = await req.json();
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+  const { user_id, ...payload } = input;
+  if (!user_id || !payload.title) {
+    return new Response("user_id and title are required", { status: 400 });
+  }
+
+  try {
+    const result = await sendPushToUser(supabase, user_id, payload);
+    return Response.json(result);
+  } catch (err) {
+    console.error("Error sending push:", err);
+    return new Response("Push failed", { status: 500 });
+  }
+});
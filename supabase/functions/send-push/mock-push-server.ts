@@ -0,0 +1,102 @@
+// Local stand-in for a browser push service, for testing send-push end to end.
+//
+//   deno run --allow-net supabase/functions/send-push/mock-push-server.ts [port]
+//
+// On start it creates a subscription key pair and prints SQL to register it for
+// a user. Insert that, call send-push for the user, and every push received is
+// checked for a VAPID Authorization header, decrypted (RFC 8291, aes128gcm) and
+// printed. Pushes to /push/gone get 410 Gone, so send-push should delete that
+// subscription.
+//
+// `supabase functions serve` runs in Docker, so the printed endpoints use
+// host.docker.internal to reach this server on the host.
+
+const port = Number(Deno.args[0] ?? 8787);
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, bytes: number) {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  return new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info }, key, bytes * 8)
+  );
+}
+
+// The user agent's side of the subscription: what a browser keeps private
+const uaKeys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, [
+  "deriveBits",
+]);
+const uaPublic = new Uint8Array(await crypto.subtle.exportKey("raw", uaKeys.publicKey));
+const authSecret = crypto.getRandomValues(new Uint8Array(16));
+
+/** Decrypts a single-record aes128gcm push message body. */
+export async function decryptPush(body: Uint8Array) {
+  const salt = body.slice(0, 16);
+  const idLength = body[20];
+  const asPublic = body.slice(21, 21 + idLength);
+  const ciphertext = body.slice(21 + idLength);
+
+  const asKey = await crypto.subtle.importKey("raw", asPublic, { name: "ECDH", namedCurve: "P-256" }, false, []);
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: asKey }, uaKeys.privateKey, 256)
+  );
+
+  const keyInfo = concat(encoder.encode("WebPush: info\0"), uaPublic, asPublic);
+  const ikm = await hkdf(authSecret, ecdhSecret, keyInfo, 32);
+  const cek = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12);
+
+  const aesKey = await crypto.subtle.importKey("raw", cek, "AES-GCM", false, ["decrypt"]);
+  const padded = new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce }, aesKey, ciphertext));
+
+  // The plaintext ends with a 0x02 delimiter followed by optional zero padding
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  return new TextDecoder().decode(padded.slice(0, end));
+}
+
+const endpoint = (path: string) => `http://host.docker.internal:${port}${path}`;
+const keys = `'${toBase64Url(uaPublic)}', '${toBase64Url(authSecret)}'`;
+
+console.log(`Mock push service on http://localhost:${port}
+Register it for a user (replace <user id>):
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent) VALUES
+    ('<user id>', '${endpoint("/push/ok")}', ${keys}, 'mock'),
+    ('<user id>', '${endpoint("/push/gone")}', ${keys}, 'mock (expired)');
+`);
+
+Deno.serve({ port }, async (req) => {
+  const { pathname } = new URL(req.url);
+  const authorization = req.headers.get("Authorization") ?? "";
+  console.log(`${req.method} ${pathname} TTL=${req.headers.get("TTL")} ${req.headers.get("Content-Encoding")}`);
+
+  if (!/^vapid t=[\w-]+\.[\w-]+\.[\w-]+, k=[\w-]+$/.test(authorization)) {
+    console.log("  missing or malformed VAPID Authorization header");
+    return new Response("Unauthorized", { status: 401 });
+  }
+  if (pathname === "/push/gone") {
+    console.log("  -> 410 Gone");
+    return new Response(null, { status: 410 });
+  }
+
+  try {
+    console.log("  payload:", await decryptPush(new Uint8Array(await req.arrayBuffer())));
+  } catch (err) {
+    console.log("  could not decrypt:", err);
+    return new Response("Bad encryption", { status: 400 });
+  }
+  return new Response(null, { status: 201 });
+});
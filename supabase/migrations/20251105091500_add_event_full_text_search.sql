@@ -0,0 +1,142 @@
+/*
+  # Full-text search over events
+
+  1. Changes
+    - Add `strip_html(text)` helper mirroring the client-side `stripHTML`
+    - Restore `events.link` (text), dropped in an earlier migration but returned by
+      `search_events` and shown in the event modal
+    - Add `search_vector` (tsvector) column to `events`, weighted:
+      - A: `title`
+      - B: `organization` and `tags`
+      - C: `description` with HTML removed
+    - Keep `search_vector` current with a BEFORE INSERT/UPDATE trigger and backfill existing rows
+    - Add GIN index on `search_vector`
+    - Add `event_search_query(q)` to turn free text into a prefix-matching tsquery
+    - Add `search_events(q, max_results)` RPC returning upcoming matches ranked with
+      `ts_rank_cd`, plus highlighted title and description snippets
+
+  2. Notes
+    - A trigger is used instead of a generated column because `array_to_string` is not immutable
+    - Highlights are wrapped in ⟦ ⟧ markers rather than HTML so the client never has to
+      inject markup coming from event descriptions
+    - Every search term is prefix-matched, so "resu" already finds "resume"
+*/
+
+CREATE OR REPLACE FUNCTION strip_html(input text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(regexp_replace(coalesce(input, ''), '<[^>]*>', ' ', 'g'), '\s+', ' ', 'g'));
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE events ADD COLUMN search_vector tsvector;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'link'
+  ) THEN
+    ALTER TABLE events ADD COLUMN link text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION events_search_vector_update()
+RETURNS TRIGGER
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.organization, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', strip_html(NEW.description)), 'C');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS events_search_vector_trigger ON events;
+
+CREATE TRIGGER events_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, organization, tags, description ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION events_search_vector_update();
+
+-- Backfill existing rows through the trigger
+UPDATE events SET title = title;
+
+CREATE INDEX IF NOT EXISTS events_search_vector_idx ON events USING GIN (search_vector);
+
+-- Build "term1:* & term2:*" from whatever the user typed
+CREATE OR REPLACE FUNCTION event_search_query(q text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN count(*) = 0 THEN NULL
+    ELSE to_tsquery('english', string_agg(quote_literal(term) || ':*', ' & '))
+  END
+  FROM regexp_split_to_table(
+    lower(regexp_replace(coalesce(q, ''), '[^[:alnum:][:space:]]', ' ', 'g')),
+    '\s+'
+  ) AS term
+  WHERE term <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION search_events(q text, max_results integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  event_type text,
+  organization text,
+  location text,
+  date timestamptz,
+  deadline timestamptz,
+  image_url text,
+  prize text,
+  tags text[],
+  link text,
+  rank real,
+  title_highlight text,
+  description_highlight text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT event_search_query(q) AS tsq
+  )
+  SELECT
+    e.id,
+    e.title,
+    e.description,
+    e.event_type,
+    e.organization,
+    e.location,
+    e.date,
+    e.deadline,
+    e.image_url,
+    e.prize,
+    e.tags,
+    e.link,
+    ts_rank_cd(e.search_vector, query.tsq) AS rank,
+    ts_headline('english', e.title, query.tsq,
+      'StartSel=⟦, StopSel=⟧, HighlightAll=true') AS title_highlight,
+    ts_headline('english', strip_html(e.description), query.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "') AS description_highlight
+  FROM events e, query
+  WHERE query.tsq IS NOT NULL
+    AND e.search_vector @@ query.tsq
+    AND e.date >= now()
+  ORDER BY rank DESC, e.date ASC
+  LIMIT least(greatest(max_results, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_events(text, integer) TO authenticated;
@@ -0,0 +1,40 @@
+/*
+  # Persist Discover feed filters per user
+
+  ## New Tables
+
+  ### `user_feed_filters`
+  The filter sheet selection on FeedTab, restored across sessions and devices
+  - `user_id` (uuid, primary key) - References auth.users
+  - `filters` (jsonb) - Selected facets: date preset/range, deadline option,
+    event types, organizations, locations and tags
+  - `updated_at` (timestamptz) - Last time the selection changed
+
+  ## Security
+  - RLS enabled
+  - Users can only read and write their own row
+*/
+
+CREATE TABLE IF NOT EXISTS user_feed_filters (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_feed_filters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own feed filters"
+  ON user_feed_filters FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own feed filters"
+  ON user_feed_filters FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own feed filters"
+  ON user_feed_filters FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,297 @@
+/*
+  # Server-side feed ranking, filtering and keyset pagination
+
+  ## Overview
+  FeedTab used to download every event, then match interests, drop past events,
+  score and page in the browser. This moves all of that into the database.
+
+  ## New Functions
+
+  ### `feed_normalize(text)`
+  Same normalization as the client used: lowercase, non-alphanumerics to spaces
+
+  ### `feed_keyword_hits(events, text[])`
+  Number of (already normalized) keywords found in title, stripped description,
+  event type and organization
+
+  ### `feed_date_preset_matches` / `feed_deadline_matches`
+  The "When" and "Deadline" facet options; day boundaries use the caller's time zone
+
+  ### `feed_event_matches(events, filters, tz, skip)`
+  Applies the filter sheet selection (`FeedFilters` on the client, stored as jsonb).
+  `skip` leaves one facet out so facet counts can be computed disjunctively.
+
+  ### `feed_candidates(keywords, query)`
+  Upcoming events that match at least one interest keyword (or everything when the
+  user has no interests). With a search query, the text match replaces the interest match.
+
+  ### `feed_events(...)`
+  One ranked page of the feed. Order is `score DESC, date ASC, id ASC`, where
+  score = 3 per keyword hit + 10 × ts_rank_cd when searching. Pass the last row's
+  (score, date, id) back to get the next page.
+
+  ### `feed_facets(...)`
+  Per-value counts for every facet plus the total number of matching events, as jsonb
+
+  ## Changes
+  - Drops `search_events`; searching is now the `p_query` argument of `feed_events`
+    so search results are filtered and paginated the same way as the feed
+
+  ## Notes
+  - Ties on score now go to the sooner event. The client-side date term favoured
+    later events by a fraction of a point, which was never the intent.
+*/
+
+DROP FUNCTION IF EXISTS search_events(text, integer);
+
+CREATE OR REPLACE FUNCTION feed_normalize(input text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(regexp_replace(lower(coalesce(input, '')), '[^a-z0-9\s]', ' ', 'g'), '\s+', ' ', 'g'));
+$$;
+
+CREATE OR REPLACE FUNCTION feed_keyword_hits(e events, keywords text[])
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*)::integer
+  FROM (
+    SELECT feed_normalize(concat_ws(' ', e.title, strip_html(e.description), e.event_type, e.organization)) AS body
+  ) t,
+  unnest(keywords) AS kw
+  WHERE position(kw IN t.body) > 0;
+$$;
+
+CREATE OR REPLACE FUNCTION feed_date_preset_matches(d timestamptz, preset text, tz text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT d >= s.day_start
+    AND d < s.day_start + make_interval(days => CASE preset WHEN 'today' THEN 1 WHEN 'week' THEN 7 ELSE 30 END)
+  FROM (SELECT date_trunc('day', now() AT TIME ZONE tz) AT TIME ZONE tz AS day_start) s;
+$$;
+
+CREATE OR REPLACE FUNCTION feed_deadline_matches(deadline timestamptz, opt text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE opt
+    WHEN 'none' THEN deadline IS NULL
+    WHEN 'open' THEN deadline IS NOT NULL AND deadline >= now()
+    WHEN 'closing_soon' THEN deadline IS NOT NULL AND deadline >= now() AND deadline <= now() + interval '7 days'
+    ELSE true
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION feed_event_matches(e events, f jsonb, tz text, skip text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (coalesce(skip, '') = 'date' OR CASE
+      WHEN coalesce(f->>'dateFrom', '') <> '' OR coalesce(f->>'dateTo', '') <> '' THEN
+        (coalesce(f->>'dateFrom', '') = '' OR e.date >= ((f->>'dateFrom')::date::timestamp AT TIME ZONE tz))
+        AND (coalesce(f->>'dateTo', '') = '' OR e.date < (((f->>'dateTo')::date + 1)::timestamp AT TIME ZONE tz))
+      WHEN coalesce(f->>'datePreset', '') <> '' THEN feed_date_preset_matches(e.date, f->>'datePreset', tz)
+      ELSE true
+    END)
+    AND (coalesce(skip, '') = 'deadline' OR coalesce(f->>'deadline', '') = ''
+      OR feed_deadline_matches(e.deadline, f->>'deadline'))
+    AND (coalesce(skip, '') = 'eventTypes' OR jsonb_array_length(coalesce(f->'eventTypes', '[]')) = 0
+      OR btrim(coalesce(e.event_type, '')) IN (SELECT jsonb_array_elements_text(f->'eventTypes')))
+    AND (coalesce(skip, '') = 'organizations' OR jsonb_array_length(coalesce(f->'organizations', '[]')) = 0
+      OR btrim(coalesce(e.organization, '')) IN (SELECT jsonb_array_elements_text(f->'organizations')))
+    AND (coalesce(skip, '') = 'locations' OR jsonb_array_length(coalesce(f->'locations', '[]')) = 0
+      OR btrim(coalesce(e.location, '')) IN (SELECT jsonb_array_elements_text(f->'locations')))
+    AND (coalesce(skip, '') = 'tags' OR jsonb_array_length(coalesce(f->'tags', '[]')) = 0
+      OR EXISTS (
+        SELECT 1 FROM unnest(coalesce(e.tags, '{}')) t
+        WHERE btrim(t) IN (SELECT jsonb_array_elements_text(f->'tags'))
+      ));
+$$;
+
+CREATE OR REPLACE FUNCTION feed_candidates(p_keywords text[], p_query text)
+RETURNS TABLE (event events, hits integer, rank real)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH params AS (
+    SELECT
+      event_search_query(p_query) AS tsq,
+      ARRAY(
+        SELECT DISTINCT n
+        FROM unnest(coalesce(p_keywords, '{}')) k, feed_normalize(k) n
+        WHERE n <> ''
+      ) AS kws
+  ),
+  scored AS (
+    SELECT
+      e AS event,
+      feed_keyword_hits(e, params.kws) AS hits,
+      CASE WHEN params.tsq IS NULL THEN 0 ELSE ts_rank_cd(e.search_vector, params.tsq) END AS rank,
+      params.tsq,
+      params.kws
+    FROM events e, params
+    WHERE e.date >= now()
+      AND (params.tsq IS NULL OR e.search_vector @@ params.tsq)
+  )
+  SELECT s.event, s.hits, s.rank
+  FROM scored s
+  WHERE s.tsq IS NOT NULL OR cardinality(s.kws) = 0 OR s.hits > 0;
+$$;
+
+CREATE OR REPLACE FUNCTION feed_events(
+  p_keywords text[] DEFAULT '{}',
+  p_filters jsonb DEFAULT '{}',
+  p_query text DEFAULT NULL,
+  p_tz text DEFAULT 'UTC',
+  p_after_score double precision DEFAULT NULL,
+  p_after_date timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  event_type text,
+  organization text,
+  location text,
+  date timestamptz,
+  deadline timestamptz,
+  image_url text,
+  prize text,
+  tags text[],
+  link text,
+  score double precision,
+  title_highlight text,
+  description_highlight text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (c.event).id,
+    (c.event).title,
+    (c.event).description,
+    (c.event).event_type,
+    (c.event).organization,
+    (c.event).location,
+    (c.event).date,
+    (c.event).deadline,
+    (c.event).image_url,
+    (c.event).prize,
+    (c.event).tags,
+    (c.event).link,
+    s.score,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', (c.event).title, q.tsq, 'StartSel=⟦, StopSel=⟧, HighlightAll=true')
+    END,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', strip_html((c.event).description), q.tsq,
+        'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END
+  FROM feed_candidates(p_keywords, p_query) c
+  CROSS JOIN LATERAL (SELECT (3 * c.hits + 10 * c.rank)::double precision AS score) s
+  CROSS JOIN (SELECT event_search_query(p_query) AS tsq) q
+  WHERE feed_event_matches(c.event, coalesce(p_filters, '{}'), p_tz)
+    AND (
+      p_after_id IS NULL
+      OR s.score < p_after_score
+      OR (s.score = p_after_score AND (c.event).date > p_after_date)
+      OR (s.score = p_after_score AND (c.event).date = p_after_date AND (c.event).id > p_after_id)
+    )
+  ORDER BY s.score DESC, (c.event).date ASC, (c.event).id ASC
+  LIMIT least(greatest(p_limit, 1), 50);
+$$;
+
+CREATE OR REPLACE FUNCTION feed_facets(
+  p_keywords text[] DEFAULT '{}',
+  p_filters jsonb DEFAULT '{}',
+  p_query text DEFAULT NULL,
+  p_tz text DEFAULT 'UTC'
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH base AS (
+    SELECT c.event FROM feed_candidates(p_keywords, p_query) c
+  ),
+  f AS (
+    SELECT coalesce(p_filters, '{}'::jsonb) AS filters
+  )
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT count(*) FROM base, f WHERE feed_event_matches(base.event, f.filters, p_tz)
+    ),
+    'eventTypes', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', v, 'count', n) ORDER BY n DESC, v), '[]')
+      FROM (
+        SELECT btrim((base.event).event_type) AS v, count(*) AS n
+        FROM base, f
+        WHERE feed_event_matches(base.event, f.filters, p_tz, 'eventTypes')
+          AND btrim(coalesce((base.event).event_type, '')) <> ''
+        GROUP BY 1
+      ) x
+    ),
+    'organizations', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', v, 'count', n) ORDER BY n DESC, v), '[]')
+      FROM (
+        SELECT btrim((base.event).organization) AS v, count(*) AS n
+        FROM base, f
+        WHERE feed_event_matches(base.event, f.filters, p_tz, 'organizations')
+          AND btrim(coalesce((base.event).organization, '')) <> ''
+        GROUP BY 1
+      ) x
+    ),
+    'locations', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', v, 'count', n) ORDER BY n DESC, v), '[]')
+      FROM (
+        SELECT btrim((base.event).location) AS v, count(*) AS n
+        FROM base, f
+        WHERE feed_event_matches(base.event, f.filters, p_tz, 'locations')
+          AND btrim(coalesce((base.event).location, '')) <> ''
+        GROUP BY 1
+      ) x
+    ),
+    'tags', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', v, 'count', n) ORDER BY n DESC, v), '[]')
+      FROM (
+        SELECT t.v, count(*) AS n
+        FROM base, f,
+          LATERAL (SELECT DISTINCT btrim(tag) AS v FROM unnest(coalesce((base.event).tags, '{}')) tag) t
+        WHERE feed_event_matches(base.event, f.filters, p_tz, 'tags')
+          AND t.v <> ''
+        GROUP BY 1
+      ) x
+    ),
+    'datePresets', (
+      SELECT jsonb_build_object(
+        'today', count(*) FILTER (WHERE feed_date_preset_matches((base.event).date, 'today', p_tz)),
+        'week', count(*) FILTER (WHERE feed_date_preset_matches((base.event).date, 'week', p_tz)),
+        'month', count(*) FILTER (WHERE feed_date_preset_matches((base.event).date, 'month', p_tz))
+      )
+      FROM base, f
+      WHERE feed_event_matches(base.event, f.filters, p_tz, 'date')
+    ),
+    'deadlines', (
+      SELECT jsonb_build_object(
+        'open', count(*) FILTER (WHERE feed_deadline_matches((base.event).deadline, 'open')),
+        'closing_soon', count(*) FILTER (WHERE feed_deadline_matches((base.event).deadline, 'closing_soon')),
+        'none', count(*) FILTER (WHERE feed_deadline_matches((base.event).deadline, 'none'))
+      )
+      FROM base, f
+      WHERE feed_event_matches(base.event, f.filters, p_tz, 'deadline')
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION feed_facets(text[], jsonb, text, text) TO authenticated;
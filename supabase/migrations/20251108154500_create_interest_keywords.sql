@@ -0,0 +1,321 @@
+/*
+  # Data-driven interest keyword taxonomy
+
+  ## Overview
+  The interest → keyword map used to be hard-coded as `CATEGORY_KEYWORDS` in FeedTab
+  and had drifted from the `interests` table ("Arts & Creative Activities" and
+  "Academic Support & Research" had no keywords, so choosing them hid every event).
+  Keywords now live next to `interests` and can be edited without a new build.
+
+  ## New Tables
+
+  ### `interest_keywords`
+  - `id` (uuid, primary key)
+  - `interest_id` (uuid) - References interests
+  - `keyword` (text) - Term matched against title, description, event type and organization
+  - `weight` (numeric) - Score multiplier for a hit (1 = the old flat score)
+  - `synonyms` (text[]) - Alternative spellings; any of them counts as one hit for the keyword
+  - `created_at` (timestamptz)
+  - Unique on (interest_id, keyword)
+
+  ## Changes
+  - Seed keywords for all eight McGill interests, including the two that had none
+  - `feed_candidates`, `feed_events` and `feed_facets` now take `p_interests`
+    (interest names, as stored in `user_preferences`) instead of a client-built
+    keyword list, and look the keywords up themselves
+  - Drops `feed_keyword_hits`, replaced by the weighted lookup in `feed_candidates`
+
+  ## Security
+  - RLS enabled; keywords are readable by authenticated users
+  - No write policies: edit through the dashboard or service role
+*/
+
+CREATE TABLE IF NOT EXISTS interest_keywords (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  interest_id uuid REFERENCES interests(id) ON DELETE CASCADE NOT NULL,
+  keyword text NOT NULL,
+  weight numeric(4, 2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+  synonyms text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (interest_id, keyword)
+);
+
+CREATE INDEX IF NOT EXISTS interest_keywords_interest_id_idx ON interest_keywords (interest_id);
+
+ALTER TABLE interest_keywords ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Interest keywords are viewable by authenticated users"
+  ON interest_keywords FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Seed from the former CATEGORY_KEYWORDS, plus the two missing interests
+INSERT INTO interest_keywords (interest_id, keyword, weight, synonyms)
+SELECT i.id, k.keyword, k.weight, k.synonyms
+FROM (VALUES
+  ('Career & Professional Development', 'career', 1.0, '{}'::text[]),
+  ('Career & Professional Development', 'job', 1.0, '{jobs,hiring}'),
+  ('Career & Professional Development', 'internship', 1.5, '{intern,co-op}'),
+  ('Career & Professional Development', 'resume', 1.5, '{cv,cover letter}'),
+  ('Career & Professional Development', 'linkedin', 1.0, '{}'),
+  ('Career & Professional Development', 'network', 1.0, '{}'),
+  ('Career & Professional Development', 'employer', 1.0, '{recruiter,recruitment}'),
+  ('Career & Professional Development', 'career planning', 1.0, '{}'),
+  ('Wellness & Mental Health', 'wellness', 1.5, '{well-being,wellbeing}'),
+  ('Wellness & Mental Health', 'mental', 1.0, '{}'),
+  ('Wellness & Mental Health', 'therapy', 1.0, '{counselling,counseling}'),
+  ('Wellness & Mental Health', 'stress', 1.0, '{anxiety}'),
+  ('Wellness & Mental Health', 'health', 1.0, '{}'),
+  ('Wellness & Mental Health', 'mindfulness', 1.0, '{meditation,yoga}'),
+  ('Wellness & Mental Health', 'support', 0.5, '{}'),
+  ('Wellness & Mental Health', 'care', 0.5, '{}'),
+  ('Workshops & Skill Building', 'workshop', 1.5, '{}'),
+  ('Workshops & Skill Building', 'training', 1.0, '{}'),
+  ('Workshops & Skill Building', 'learn', 1.0, '{}'),
+  ('Workshops & Skill Building', 'skillsets', 1.0, '{skills}'),
+  ('Workshops & Skill Building', 'tutorial', 1.0, '{}'),
+  ('Workshops & Skill Building', 'seminar', 1.0, '{webinar}'),
+  ('Workshops & Skill Building', 'session', 0.5, '{}'),
+  ('Social & Community Events', 'social', 1.0, '{}'),
+  ('Social & Community Events', 'community', 1.0, '{}'),
+  ('Social & Community Events', 'mixer', 1.0, '{}'),
+  ('Social & Community Events', 'connect', 1.0, '{}'),
+  ('Social & Community Events', 'meetup', 1.0, '{meet-up}'),
+  ('Social & Community Events', 'hangout', 1.0, '{}'),
+  ('Arts & Creative Activities', 'art', 1.5, '{arts,artist}'),
+  ('Arts & Creative Activities', 'art hive', 1.5, '{}'),
+  ('Arts & Creative Activities', 'creative', 1.0, '{creativity}'),
+  ('Arts & Creative Activities', 'crochet', 1.0, '{knitting}'),
+  ('Arts & Creative Activities', 'craft', 1.0, '{crafts}'),
+  ('Arts & Creative Activities', 'music', 1.0, '{concert,choir}'),
+  ('Arts & Creative Activities', 'painting', 1.0, '{drawing}'),
+  ('Arts & Creative Activities', 'photography', 1.0, '{}'),
+  ('Academic Support & Research', 'library', 1.5, '{libraries}'),
+  ('Academic Support & Research', 'research', 1.5, '{}'),
+  ('Academic Support & Research', 'citation', 1.0, '{zotero,endnote}'),
+  ('Academic Support & Research', 'phd', 1.0, '{doctoral,graduate}'),
+  ('Academic Support & Research', 'thesis', 1.0, '{dissertation}'),
+  ('Academic Support & Research', 'writing', 1.0, '{}'),
+  ('Academic Support & Research', 'study', 1.0, '{studying}'),
+  ('Academic Support & Research', 'tutoring', 1.0, '{}'),
+  ('International Student Services', 'international', 1.5, '{}'),
+  ('International Student Services', 'immigration', 1.0, '{}'),
+  ('International Student Services', 'iss', 1.0, '{}'),
+  ('International Student Services', 'visa', 1.0, '{caq,study permit}'),
+  ('International Student Services', 'global', 1.0, '{}'),
+  ('International Student Services', 'orientation', 1.0, '{}'),
+  ('Leadership & Personal Growth', 'leadership', 1.5, '{leaders}'),
+  ('Leadership & Personal Growth', 'mindset', 1.0, '{}'),
+  ('Leadership & Personal Growth', 'growth', 1.0, '{}'),
+  ('Leadership & Personal Growth', 'development', 1.0, '{}'),
+  ('Leadership & Personal Growth', 'imposter', 1.0, '{impostor}')
+) AS k(interest_name, keyword, weight, synonyms)
+JOIN interests i ON i.name = k.interest_name
+ON CONFLICT (interest_id, keyword) DO NOTHING;
+
+DROP FUNCTION IF EXISTS feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer);
+DROP FUNCTION IF EXISTS feed_facets(text[], jsonb, text, text);
+DROP FUNCTION IF EXISTS feed_candidates(text[], text);
+DROP FUNCTION IF EXISTS feed_keyword_hits(events, text[]);
+
+-- Each keyword counts once (by its weight) if it or any synonym appears in the event text.
+-- Users whose interests have no keywords at all see every upcoming event instead of none.
+CREATE OR REPLACE FUNCTION feed_candidates(p_interests text[], p_query text)
+RETURNS TABLE (event events, interest_score numeric, rank real)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH params AS (
+    SELECT event_search_query(p_query) AS tsq
+  ),
+  terms AS (
+    SELECT k.id AS keyword_id, k.weight, feed_normalize(t) AS term
+    FROM interest_keywords k
+    JOIN interests i ON i.id = k.interest_id
+    CROSS JOIN LATERAL unnest(array_prepend(k.keyword, k.synonyms)) AS t
+    WHERE lower(btrim(i.name)) IN (
+      SELECT lower(btrim(n)) FROM unnest(coalesce(p_interests, '{}')) AS n
+    )
+      AND feed_normalize(t) <> ''
+  ),
+  candidates AS (
+    SELECT
+      e AS event,
+      feed_normalize(concat_ws(' ', e.title, strip_html(e.description), e.event_type, e.organization)) AS body,
+      CASE WHEN params.tsq IS NULL THEN 0 ELSE ts_rank_cd(e.search_vector, params.tsq) END AS rank,
+      params.tsq
+    FROM events e, params
+    WHERE e.date >= now()
+      AND (params.tsq IS NULL OR e.search_vector @@ params.tsq)
+  ),
+  scored AS (
+    SELECT
+      c.event,
+      c.rank,
+      c.tsq,
+      coalesce((
+        SELECT sum(m.weight)
+        FROM (
+          SELECT DISTINCT t.keyword_id, t.weight
+          FROM terms t
+          WHERE position(t.term IN c.body) > 0
+        ) m
+      ), 0) AS interest_score
+    FROM candidates c
+  )
+  SELECT s.event, s.interest_score, s.rank
+  FROM scored s
+  WHERE s.tsq IS NOT NULL
+    OR s.interest_score > 0
+    OR NOT EXISTS (SELECT 1 FROM terms);
+$$;
+
+CREATE OR REPLACE FUNCTION feed_events(
+  p_interests text[] DEFAULT '{}',
+  p_filters jsonb DEFAULT '{}',
+  p_query text DEFAULT NULL,
+  p_tz text DEFAULT 'UTC',
+  p_after_score double precision DEFAULT NULL,
+  p_after_date timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  event_type text,
+  organization text,
+  location text,
+  date timestamptz,
+  deadline timestamptz,
+  image_url text,
+  prize text,
+  tags text[],
+  link text,
+  score double precision,
+  title_highlight text,
+  description_highlight text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (c.event).id,
+    (c.event).title,
+    (c.event).description,
+    (c.event).event_type,
+    (c.event).organization,
+    (c.event).location,
+    (c.event).date,
+    (c.event).deadline,
+    (c.event).image_url,
+    (c.event).prize,
+    (c.event).tags,
+    (c.event).link,
+    s.score,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', (c.event).title, q.tsq, 'StartSel=⟦, StopSel=⟧, HighlightAll=true')
+    END,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', strip_html((c.event).description), q.tsq,
+        'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END
+  FROM feed_candidates(p_interests, p_query) c
+  CROSS JOIN LATERAL (SELECT (3 * c.interest_score + 10 * c.rank)::double precision AS score) s
+  CROSS JOIN (SELECT event_search_query(p_query) AS tsq) q
+  WHERE feed_event_matches(c.event, coalesce(p_filters, '{}'), p_tz)
+    AND (
+      p_after_id IS NULL
+      OR s.score < p_after_score
+      OR (s.score = p_after_score AND (c.event).date > p_after_date)
+      OR (s.score = p_after_score AND (c.event).date = p_after_date AND (c.event).id > p_after_id)
+    )
+  ORDER BY s.score DESC, (c.event).date ASC, (c.event).id ASC
+  LIMIT least(greatest(p_limit, 1), 50);
+$$;
+
+CREATE OR REPLACE FUNCTION feed_facets(
+  p_interests text[] DEFAULT '{}',
+  p_filters jsonb DEFAULT '{}',
+  p_query text DEFAULT NULL,
+  p_tz text DEFAULT 'UTC'
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH base AS (
+    SELECT c.event FROM feed_candidates(p_interests, p_query) c
+  ),
+  f AS (
+    SELECT coalesce(p_filters, '{}'::jsonb) AS filters
+  )
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT count(*) FROM base, f WHERE feed_event_matches(base.event, f.filters, p_tz)
+    ),
+    'eventTypes', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', v, 'count', n) ORDER BY n DESC, v), '[]')
+      FROM (
+        SELECT btrim((base.event).event_type) AS v, count(*) AS n
+        FROM base, f
+        WHERE feed_event_matches(base.event, f.filters, p_tz, 'eventTypes')
+          AND btrim(coalesce((base.event).event_type, '')) <> ''
+        GROUP BY 1
+      ) x
+    ),
+    'organizations', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', v, 'count', n) ORDER BY n DESC, v), '[]')
+      FROM (
+        SELECT btrim((base.event).organization) AS v, count(*) AS n
+        FROM base, f
+        WHERE feed_event_matches(base.event, f.filters, p_tz, 'organizations')
+          AND btrim(coalesce((base.event).organization, '')) <> ''
+        GROUP BY 1
+      ) x
+    ),
+    'locations', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', v, 'count', n) ORDER BY n DESC, v), '[]')
+      FROM (
+        SELECT btrim((base.event).location) AS v, count(*) AS n
+        FROM base, f
+        WHERE feed_event_matches(base.event, f.filters, p_tz, 'locations')
+          AND btrim(coalesce((base.event).location, '')) <> ''
+        GROUP BY 1
+      ) x
+    ),
+    'tags', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', v, 'count', n) ORDER BY n DESC, v), '[]')
+      FROM (
+        SELECT t.v, count(*) AS n
+        FROM base, f,
+          LATERAL (SELECT DISTINCT btrim(tag) AS v FROM unnest(coalesce((base.event).tags, '{}')) tag) t
+        WHERE feed_event_matches(base.event, f.filters, p_tz, 'tags')
+          AND t.v <> ''
+        GROUP BY 1
+      ) x
+    ),
+    'datePresets', (
+      SELECT jsonb_build_object(
+        'today', count(*) FILTER (WHERE feed_date_preset_matches((base.event).date, 'today', p_tz)),
+        'week', count(*) FILTER (WHERE feed_date_preset_matches((base.event).date, 'week', p_tz)),
+        'month', count(*) FILTER (WHERE feed_date_preset_matches((base.event).date, 'month', p_tz))
+      )
+      FROM base, f
+      WHERE feed_event_matches(base.event, f.filters, p_tz, 'date')
+    ),
+    'deadlines', (
+      SELECT jsonb_build_object(
+        'open', count(*) FILTER (WHERE feed_deadline_matches((base.event).deadline, 'open')),
+        'closing_soon', count(*) FILTER (WHERE feed_deadline_matches((base.event).deadline, 'closing_soon')),
+        'none', count(*) FILTER (WHERE feed_deadline_matches((base.event).deadline, 'none'))
+      )
+      FROM base, f
+      WHERE feed_event_matches(base.event, f.filters, p_tz, 'deadline')
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION feed_facets(text[], jsonb, text, text) TO authenticated;
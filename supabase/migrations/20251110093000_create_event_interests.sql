@@ -0,0 +1,173 @@
+/*
+  # Categorize events at ingest time
+
+  ## Overview
+  The feed used to normalize and keyword-scan every event for every interest on
+  every load. Events are now categorized once, when they are inserted or updated,
+  and the result is stored in a join table that any screen can query.
+
+  ## New Tables
+
+  ### `event_interests`
+  Join table between `events` and `interests`
+  - `event_id` (uuid) - References events
+  - `interest_id` (uuid) - References interests
+  - `score` (numeric) - Sum of the weights of the matched keywords
+  - `confidence` (numeric) - `score / 3`, capped at 1 (three full-weight hits = certain)
+  - `matched_keywords` (text[]) - Keywords that matched, for debugging the taxonomy
+  - `created_at` (timestamptz)
+  - Primary key is (event_id, interest_id)
+
+  ## New Functions
+  - `categorize_event(event_id)` - Recomputes the rows for one event from `interest_keywords`.
+    Matches title, stripped description, event type, organization and tags. Terms must
+    start at a word boundary, so "art" matches "arts" but no longer "startup".
+  - `recategorize_events()` - Reruns `categorize_event` for every event
+
+  ## Triggers
+  - After insert/update of the text columns on `events`: categorize that event
+  - After any change to `interest_keywords`: recategorize all events
+
+  ## Changes
+  - `feed_candidates` scores interests from `event_interests` instead of scanning text
+  - Backfills `event_interests` for existing events
+
+  ## Security
+  - RLS enabled; rows are readable by authenticated users
+  - Rows are only written by the SECURITY DEFINER functions above
+*/
+
+CREATE TABLE IF NOT EXISTS event_interests (
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  interest_id uuid REFERENCES interests(id) ON DELETE CASCADE NOT NULL,
+  score numeric(6, 2) NOT NULL,
+  confidence numeric(3, 2) NOT NULL CHECK (confidence > 0 AND confidence <= 1),
+  matched_keywords text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (event_id, interest_id)
+);
+
+CREATE INDEX IF NOT EXISTS event_interests_interest_id_idx ON event_interests (interest_id);
+
+ALTER TABLE event_interests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event interests are viewable by authenticated users"
+  ON event_interests FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION categorize_event(p_event_id uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM event_interests WHERE event_id = p_event_id;
+
+  INSERT INTO event_interests (event_id, interest_id, score, confidence, matched_keywords)
+  SELECT
+    p_event_id,
+    m.interest_id,
+    sum(m.weight),
+    least(1, round(sum(m.weight) / 3.0, 2)),
+    array_agg(m.keyword ORDER BY m.keyword)
+  FROM (
+    SELECT DISTINCT k.id, k.interest_id, k.keyword, k.weight
+    FROM events e
+    CROSS JOIN LATERAL (
+      SELECT feed_normalize(concat_ws(' ',
+        e.title, strip_html(e.description), e.event_type, e.organization, array_to_string(e.tags, ' ')
+      )) AS body
+    ) b
+    CROSS JOIN interest_keywords k
+    CROSS JOIN LATERAL unnest(array_prepend(k.keyword, k.synonyms)) AS t
+    WHERE e.id = p_event_id
+      AND feed_normalize(t) <> ''
+      AND position(' ' || feed_normalize(t) IN ' ' || b.body) > 0
+  ) m
+  GROUP BY m.interest_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recategorize_events()
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM categorize_event(id) FROM events;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION handle_event_categorize()
+RETURNS TRIGGER
+AS $$
+BEGIN
+  PERFORM categorize_event(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION handle_interest_keywords_change()
+RETURNS TRIGGER
+AS $$
+BEGIN
+  PERFORM recategorize_events();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS events_categorize_trigger ON events;
+
+CREATE TRIGGER events_categorize_trigger
+  AFTER INSERT OR UPDATE OF title, description, event_type, organization, tags ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_event_categorize();
+
+DROP TRIGGER IF EXISTS interest_keywords_recategorize_trigger ON interest_keywords;
+
+CREATE TRIGGER interest_keywords_recategorize_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON interest_keywords
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION handle_interest_keywords_change();
+
+-- Backfill
+SELECT recategorize_events();
+
+-- Same contract as before; interest scores now come from event_interests
+CREATE OR REPLACE FUNCTION feed_candidates(p_interests text[], p_query text)
+RETURNS TABLE (event events, interest_score numeric, rank real)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH params AS (
+    SELECT event_search_query(p_query) AS tsq
+  ),
+  chosen AS (
+    SELECT i.id
+    FROM interests i
+    WHERE lower(btrim(i.name)) IN (
+      SELECT lower(btrim(n)) FROM unnest(coalesce(p_interests, '{}')) AS n
+    )
+      AND EXISTS (SELECT 1 FROM interest_keywords k WHERE k.interest_id = i.id)
+  ),
+  scored AS (
+    SELECT
+      e AS event,
+      coalesce((
+        SELECT sum(ei.score)
+        FROM event_interests ei
+        WHERE ei.event_id = e.id AND ei.interest_id IN (SELECT id FROM chosen)
+      ), 0) AS interest_score,
+      CASE WHEN params.tsq IS NULL THEN 0 ELSE ts_rank_cd(e.search_vector, params.tsq) END AS rank,
+      params.tsq
+    FROM events e, params
+    WHERE e.date >= now()
+      AND (params.tsq IS NULL OR e.search_vector @@ params.tsq)
+  )
+  SELECT s.event, s.interest_score, s.rank
+  FROM scored s
+  WHERE s.tsq IS NOT NULL
+    OR s.interest_score > 0
+    OR NOT EXISTS (SELECT 1 FROM chosen);
+$$;
@@ -0,0 +1,327 @@
+/*
+  # Personalized feed ranking from user behaviour
+
+  ## Overview
+  The feed score only knew about interest keywords and search rank. It now also
+  learns per-user weights from what the user saves, applies to and opens, and
+  explains the boost on the card ("Because you saved X").
+
+  ## New Tables
+
+  ### `event_interactions`
+  Append-only log of user signals
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - References auth.users
+  - `event_id` (uuid) - References events
+  - `kind` (text) - view, save, unsave, apply or withdraw
+  - `created_at` (timestamptz)
+
+  ### `user_affinities`
+  The per-user model: one weight per event feature
+  - `user_id` (uuid) - References auth.users
+  - `feature_type` (text) - organization, event_type, tag or interest
+  - `feature_value` (text) - Organization/type name, lowercased tag, or interest id
+  - `weight` (double precision) - Clamped to [-10, 20]
+  - `updated_at` (timestamptz)
+  - Primary key is (user_id, feature_type, feature_value)
+
+  ## New Functions
+  - `event_features(event_id)` - The features of one event the model learns over
+  - `feed_personal_score(event_id, user_id)` - Sum of the user's weights for those
+    features, clamped to [-5, 10] so it nudges rather than overrides interest matches
+
+  ## Triggers
+  - Inserting into `saved_events`/`applications` logs save/apply, deleting logs unsave/withdraw
+  - Every logged interaction adds its signal to each feature of the event:
+    view +0.5, save +2, unsave -2, apply +3, withdraw -3. Repeat views of the same
+    event within 12 hours are logged but not counted again.
+
+  ## Changes
+  - `feed_events` adds `personal_score` to the ranking score and returns
+    `reason_kind` / `reason_title`: the saved or applied event that shares the
+    strongest learned features with each boosted row
+
+  ## Security
+  - RLS enabled on both tables
+  - Users can insert (views only) and read their own interactions, and read their own affinities
+  - Save/apply signals and affinity updates are written by SECURITY DEFINER triggers
+*/
+
+CREATE TABLE IF NOT EXISTS event_interactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('view', 'save', 'unsave', 'apply', 'withdraw')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS event_interactions_user_event_idx
+  ON event_interactions (user_id, event_id, created_at DESC);
+
+ALTER TABLE event_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own interactions"
+  ON event_interactions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can log own views"
+  ON event_interactions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND kind = 'view');
+
+CREATE TABLE IF NOT EXISTS user_affinities (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  feature_type text NOT NULL CHECK (feature_type IN ('organization', 'event_type', 'tag', 'interest')),
+  feature_value text NOT NULL,
+  weight double precision NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, feature_type, feature_value)
+);
+
+ALTER TABLE user_affinities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own affinities"
+  ON user_affinities FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION event_features(p_event_id uuid)
+RETURNS TABLE (feature_type text, feature_value text)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 'organization', btrim(e.organization)
+  FROM events e
+  WHERE e.id = p_event_id AND btrim(coalesce(e.organization, '')) <> ''
+  UNION
+  SELECT 'event_type', btrim(e.event_type)
+  FROM events e
+  WHERE e.id = p_event_id AND btrim(coalesce(e.event_type, '')) <> ''
+  UNION
+  SELECT 'tag', lower(btrim(t))
+  FROM events e, unnest(coalesce(e.tags, '{}')) AS t
+  WHERE e.id = p_event_id AND btrim(t) <> ''
+  UNION
+  SELECT 'interest', ei.interest_id::text
+  FROM event_interests ei
+  WHERE ei.event_id = p_event_id;
+$$;
+
+CREATE OR REPLACE FUNCTION feed_personal_score(p_event_id uuid, p_user_id uuid)
+RETURNS double precision
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT greatest(-5, least(10, coalesce(sum(a.weight), 0)))
+  FROM event_features(p_event_id) f
+  JOIN user_affinities a
+    ON a.user_id = p_user_id
+    AND a.feature_type = f.feature_type
+    AND a.feature_value = f.feature_value;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_event_interaction()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signal double precision;
+BEGIN
+  IF NEW.kind = 'view' AND EXISTS (
+    SELECT 1 FROM event_interactions
+    WHERE user_id = NEW.user_id
+      AND event_id = NEW.event_id
+      AND kind = 'view'
+      AND id <> NEW.id
+      AND created_at > now() - interval '12 hours'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  signal := CASE NEW.kind
+    WHEN 'view' THEN 0.5
+    WHEN 'save' THEN 2
+    WHEN 'unsave' THEN -2
+    WHEN 'apply' THEN 3
+    WHEN 'withdraw' THEN -3
+  END;
+
+  INSERT INTO user_affinities (user_id, feature_type, feature_value, weight)
+  SELECT NEW.user_id, f.feature_type, f.feature_value, signal
+  FROM event_features(NEW.event_id) f
+  ON CONFLICT (user_id, feature_type, feature_value) DO UPDATE
+    SET weight = greatest(-10, least(20, user_affinities.weight + EXCLUDED.weight)),
+        updated_at = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_event_interaction_created ON event_interactions;
+
+CREATE TRIGGER on_event_interaction_created
+  AFTER INSERT ON event_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_event_interaction();
+
+CREATE OR REPLACE FUNCTION log_saved_event_interaction()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO event_interactions (user_id, event_id, kind) VALUES (NEW.user_id, NEW.event_id, 'save');
+    RETURN NEW;
+  END IF;
+  INSERT INTO event_interactions (user_id, event_id, kind) VALUES (OLD.user_id, OLD.event_id, 'unsave');
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_application_interaction()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO event_interactions (user_id, event_id, kind) VALUES (NEW.user_id, NEW.event_id, 'apply');
+    RETURN NEW;
+  END IF;
+  INSERT INTO event_interactions (user_id, event_id, kind) VALUES (OLD.user_id, OLD.event_id, 'withdraw');
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS saved_events_log_interaction ON saved_events;
+
+CREATE TRIGGER saved_events_log_interaction
+  AFTER INSERT OR DELETE ON saved_events
+  FOR EACH ROW
+  EXECUTE FUNCTION log_saved_event_interaction();
+
+DROP TRIGGER IF EXISTS applications_log_interaction ON applications;
+
+CREATE TRIGGER applications_log_interaction
+  AFTER INSERT OR DELETE ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION log_application_interaction();
+
+-- Seed the model from existing saves and applications
+INSERT INTO event_interactions (user_id, event_id, kind, created_at)
+SELECT user_id, event_id, 'save', created_at FROM saved_events
+UNION ALL
+SELECT user_id, event_id, 'apply', created_at FROM applications;
+
+-- Return columns change, so the function has to be dropped rather than replaced
+DROP FUNCTION IF EXISTS feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer);
+
+CREATE OR REPLACE FUNCTION feed_events(
+  p_interests text[] DEFAULT '{}',
+  p_filters jsonb DEFAULT '{}',
+  p_query text DEFAULT NULL,
+  p_tz text DEFAULT 'UTC',
+  p_after_score double precision DEFAULT NULL,
+  p_after_date timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  event_type text,
+  organization text,
+  location text,
+  date timestamptz,
+  deadline timestamptz,
+  image_url text,
+  prize text,
+  tags text[],
+  link text,
+  score double precision,
+  personal_score double precision,
+  reason_kind text,
+  reason_title text,
+  title_highlight text,
+  description_highlight text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH page AS (
+    SELECT c.event, s.score, p.personal
+    FROM feed_candidates(p_interests, p_query) c
+    CROSS JOIN LATERAL (SELECT feed_personal_score((c.event).id, auth.uid()) AS personal) p
+    CROSS JOIN LATERAL (
+      SELECT (3 * c.interest_score + 10 * c.rank + p.personal)::double precision AS score
+    ) s
+    WHERE feed_event_matches(c.event, coalesce(p_filters, '{}'), p_tz)
+      AND (
+        p_after_id IS NULL
+        OR s.score < p_after_score
+        OR (s.score = p_after_score AND (c.event).date > p_after_date)
+        OR (s.score = p_after_score AND (c.event).date = p_after_date AND (c.event).id > p_after_id)
+      )
+    ORDER BY s.score DESC, (c.event).date ASC, (c.event).id ASC
+    LIMIT least(greatest(p_limit, 1), 50)
+  )
+  SELECT
+    (page.event).id,
+    (page.event).title,
+    (page.event).description,
+    (page.event).event_type,
+    (page.event).organization,
+    (page.event).location,
+    (page.event).date,
+    (page.event).deadline,
+    (page.event).image_url,
+    (page.event).prize,
+    (page.event).tags,
+    (page.event).link,
+    page.score,
+    page.personal,
+    reason.kind,
+    reason.title,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', (page.event).title, q.tsq, 'StartSel=⟦, StopSel=⟧, HighlightAll=true')
+    END,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', strip_html((page.event).description), q.tsq,
+        'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END
+  FROM page
+  CROSS JOIN (SELECT event_search_query(p_query) AS tsq) q
+  LEFT JOIN LATERAL (
+    SELECT src.kind, ev.title
+    FROM (
+      SELECT se.event_id, 'saved' AS kind, se.created_at
+      FROM saved_events se
+      WHERE se.user_id = auth.uid()
+      UNION ALL
+      SELECT ap.event_id, 'applied' AS kind, ap.created_at
+      FROM applications ap
+      WHERE ap.user_id = auth.uid()
+    ) src
+    JOIN events ev ON ev.id = src.event_id
+    CROSS JOIN LATERAL (
+      SELECT sum(a.weight) AS shared
+      FROM event_features(src.event_id) sf
+      JOIN event_features((page.event).id) pf USING (feature_type, feature_value)
+      JOIN user_affinities a
+        ON a.user_id = auth.uid()
+        AND a.feature_type = pf.feature_type
+        AND a.feature_value = pf.feature_value
+    ) overlap
+    WHERE src.event_id <> (page.event).id
+      AND overlap.shared > 0
+    ORDER BY overlap.shared DESC, src.created_at DESC
+    LIMIT 1
+  ) reason ON page.personal > 0
+  ORDER BY page.score DESC, (page.event).date ASC, (page.event).id ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer) TO authenticated;
@@ -0,0 +1,105 @@
+/*
+  # "You might also like" recommendations
+
+  ## Overview
+  EventModal shows a carousel of related upcoming events. Similarity is computed
+  in the database so every tab gets the same suggestions without loading the
+  whole events table.
+
+  ## New Functions
+  - `similar_events(event_id, max_results)` - Upcoming events ranked by similarity
+    to the given one, returning the columns EventModal renders plus:
+    - `similarity` (double precision) - The combined score below
+    - `shared_tags` (text[]) - Tags in common, shown as the "why" on each card
+
+  ## Scoring
+  - 3 per shared tag (case-insensitive)
+  - 2 for the same organization
+  - 1.5 for the same event type
+  - Up to 4 for text similarity: cosine overlap of the `search_vector` lexemes
+    (title, organization, tags and description), so wording counts even when
+    events are tagged differently
+  - Only events with a positive score are returned, best first, then soonest
+
+  ## Security
+  - Reads `events` only, which is already public to authenticated users
+*/
+
+CREATE OR REPLACE FUNCTION similar_events(p_event_id uuid, p_limit integer DEFAULT 8)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  event_type text,
+  organization text,
+  location text,
+  date timestamptz,
+  deadline timestamptz,
+  image_url text,
+  prize text,
+  tags text[],
+  link text,
+  similarity double precision,
+  shared_tags text[]
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH src AS (
+    SELECT
+      e.*,
+      ARRAY(SELECT DISTINCT lower(t) FROM unnest(coalesce(e.tags, '{}')) t) AS tag_set,
+      coalesce(tsvector_to_array(e.search_vector), '{}') AS lexemes
+    FROM events e
+    WHERE e.id = p_event_id
+  ),
+  scored AS (
+    SELECT
+      e,
+      shared.tags AS shared_tags,
+      3 * cardinality(shared.tags)
+        + CASE WHEN lower(e.organization) = lower(src.organization) THEN 2 ELSE 0 END
+        + CASE WHEN lower(e.event_type) = lower(src.event_type) THEN 1.5 ELSE 0 END
+        + CASE
+            WHEN cardinality(src.lexemes) = 0 OR cardinality(lex.lexemes) = 0 THEN 0
+            ELSE 4 * words.common / sqrt(cardinality(src.lexemes)::double precision * cardinality(lex.lexemes))
+          END AS similarity
+    FROM src
+    JOIN events e ON e.id <> src.id AND e.date >= now()
+    CROSS JOIN LATERAL (
+      SELECT coalesce(tsvector_to_array(e.search_vector), '{}') AS lexemes
+    ) lex
+    CROSS JOIN LATERAL (
+      SELECT ARRAY(
+        SELECT DISTINCT t
+        FROM unnest(coalesce(e.tags, '{}')) raw(t)
+        WHERE lower(raw.t) = ANY (src.tag_set)
+      ) AS tags
+    ) shared
+    CROSS JOIN LATERAL (
+      SELECT count(*) AS common
+      FROM (SELECT unnest(src.lexemes) INTERSECT SELECT unnest(lex.lexemes)) i
+    ) words
+  )
+  SELECT
+    (s.e).id,
+    (s.e).title,
+    (s.e).description,
+    (s.e).event_type,
+    (s.e).organization,
+    (s.e).location,
+    (s.e).date,
+    (s.e).deadline,
+    (s.e).image_url,
+    (s.e).prize,
+    (s.e).tags,
+    (s.e).link,
+    s.similarity::double precision,
+    s.shared_tags
+  FROM scored s
+  WHERE s.similarity > 0
+  ORDER BY s.similarity DESC, (s.e).date ASC, (s.e).id ASC
+  LIMIT least(greatest(p_limit, 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION similar_events(uuid, integer) TO authenticated;
@@ -0,0 +1,117 @@
+/*
+  # Application status lifecycle
+
+  ## Overview
+  `applications.status` was documented as applied/accepted/rejected but nothing
+  read or wrote it. Users can now move an application through a lifecycle and
+  see every change on a per-application timeline.
+
+  ## Changes
+  - `applications.status` is restricted to:
+    interested, applied, accepted, waitlisted, rejected, attended
+    (NOT NULL, default 'applied'; unknown or missing values are reset to 'applied')
+  - `updated_at` is set on every update by the `set_updated_at()` trigger
+    instead of relying on the client
+
+  ## New Tables
+
+  ### `application_status_history`
+  One row per status an application has been in
+  - `id` (uuid, primary key)
+  - `application_id` (uuid) - References applications, deleted with it
+  - `user_id` (uuid) - Owner, copied from the application for RLS
+  - `from_status` (text) - Previous status, NULL for the first entry
+  - `to_status` (text) - New status
+  - `changed_at` (timestamptz)
+
+  ## Triggers
+  - Inserting an application or changing its status appends a history row
+  - Existing applications are backfilled with one entry at their `created_at`
+
+  ## Security
+  - RLS enabled on `application_status_history`
+  - Users can view their own history; rows are only written by the SECURITY DEFINER trigger
+*/
+
+UPDATE applications
+SET status = 'applied'
+WHERE status IS NULL
+  OR status NOT IN ('interested', 'applied', 'accepted', 'waitlisted', 'rejected', 'attended');
+
+ALTER TABLE applications ALTER COLUMN status SET DEFAULT 'applied';
+ALTER TABLE applications ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE applications DROP CONSTRAINT IF EXISTS applications_status_check;
+ALTER TABLE applications ADD CONSTRAINT applications_status_check
+  CHECK (status IN ('interested', 'applied', 'accepted', 'waitlisted', 'rejected', 'attended'));
+
+-- Generic BEFORE UPDATE trigger for tables with an updated_at column
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS applications_set_updated_at ON applications;
+
+CREATE TRIGGER applications_set_updated_at
+  BEFORE UPDATE ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+CREATE TABLE IF NOT EXISTS application_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS application_status_history_application_idx
+  ON application_status_history (application_id, changed_at);
+
+ALTER TABLE application_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own application status history"
+  ON application_status_history FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION log_application_status()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO application_status_history (application_id, user_id, from_status, to_status)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS applications_status_history_trigger ON applications;
+
+CREATE TRIGGER applications_status_history_trigger
+  AFTER INSERT OR UPDATE OF status ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION log_application_status();
+
+INSERT INTO application_status_history (application_id, user_id, from_status, to_status, changed_at)
+SELECT a.id, a.user_id, NULL, a.status, coalesce(a.created_at, now())
+FROM applications a
+WHERE NOT EXISTS (
+  SELECT 1 FROM application_status_history h WHERE h.application_id = a.id
+);
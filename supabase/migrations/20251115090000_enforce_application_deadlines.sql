@@ -0,0 +1,42 @@
+/*
+  # Enforce application deadlines
+
+  ## Overview
+  The client now hides Apply once `events.deadline` has passed. This trigger
+  enforces the same rule for any client, including stale tabs and queued
+  offline actions.
+
+  ## Triggers
+  - `applications_deadline_check` (BEFORE INSERT on `applications`) rejects new
+    applications to events whose deadline is in the past
+  - Status changes on existing applications are not affected, so users can still
+    record an acceptance or attendance after the deadline
+
+  ## Indexes
+  - `events_deadline_idx` for the "Closing soon" feed section and reminder lookups
+*/
+
+CREATE OR REPLACE FUNCTION check_application_deadline()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+DECLARE
+  closes_at timestamptz;
+BEGIN
+  SELECT deadline INTO closes_at FROM events WHERE id = NEW.event_id;
+  IF closes_at IS NOT NULL AND closes_at < now() THEN
+    RAISE EXCEPTION 'Applications for this event closed at %', closes_at
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS applications_deadline_check ON applications;
+
+CREATE TRIGGER applications_deadline_check
+  BEFORE INSERT ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION check_application_deadline();
+
+CREATE INDEX IF NOT EXISTS events_deadline_idx ON events (deadline) WHERE deadline IS NOT NULL;
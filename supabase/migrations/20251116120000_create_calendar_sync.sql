@@ -0,0 +1,242 @@
+/*
+  # Calendar sync for applications
+
+  ## Overview
+  Applications can be exported as .ics files and subscribed to as a per-user
+  calendar feed (served by the `calendar-feed` edge function). Calendar apps
+  match entries by UID and take the highest SEQUENCE, so each application keeps
+  a stable UID and a sequence that is bumped whenever the event changes.
+
+  ## Changes to `applications`
+  - `google_calendar_id` now holds the application's iCalendar UID
+    (`<application id>@vybin.app`). It is filled in on insert and backfilled
+  - `calendar_sequence` (integer) - Incremented when the event's title, date or location changes
+  - `calendar_updated_at` (timestamptz) - When the calendar entry last changed (LAST-MODIFIED)
+  - `updated_at` is now only bumped by status changes, so calendar bookkeeping
+    doesn't show up as "Updated" in the Applications tab
+
+  ## New Tables
+
+  ### `calendar_feeds`
+  Secret subscription tokens, one per user
+  - `user_id` (uuid, primary key) - References auth.users
+  - `token` (text, unique) - Unguessable token in the feed URL
+  - `created_at` (timestamptz)
+
+  ### `calendar_cancellations`
+  Entries to publish as STATUS:CANCELLED so subscribed calendars remove them
+  - `user_id` (uuid) - References auth.users
+  - `uid` (text) - The withdrawn application's UID
+  - `title` (text) - Event title at the time of cancellation
+  - `starts_at` (timestamptz) - Event date at the time of cancellation
+  - `sequence` (integer) - Higher than any sequence published for the UID
+  - `cancelled_at` (timestamptz)
+  - Primary key is (user_id, uid)
+
+  ## Triggers
+  - Withdrawing an application or deleting its event records a cancellation
+  - Re-applying (e.g. undoing a withdrawal) removes the cancellation and
+    continues the sequence after it, so calendars show the entry again
+
+  ## Fixes
+  - Deleting an event failed because the cascaded saved_events/applications
+    deletes tried to log unsave/withdraw interactions for the deleted event.
+    Those are now skipped when the event itself is gone
+
+  ## Security
+  - RLS enabled on both tables
+  - Users can view, create and delete (rotate) their own feed token
+  - Users can view their own cancellations; they are written by SECURITY DEFINER triggers
+  - The feed function reads with the service role after resolving the token
+*/
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS calendar_sequence integer NOT NULL DEFAULT 0;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS calendar_updated_at timestamptz DEFAULT now();
+
+UPDATE applications
+SET google_calendar_id = id || '@vybin.app'
+WHERE google_calendar_id IS NULL OR google_calendar_id = '';
+
+DROP TRIGGER IF EXISTS applications_set_updated_at ON applications;
+
+CREATE TRIGGER applications_set_updated_at
+  BEFORE UPDATE OF status ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed"
+  ON calendar_feeds FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own calendar feed"
+  ON calendar_feeds FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own calendar feed"
+  ON calendar_feeds FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS calendar_cancellations (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  uid text NOT NULL,
+  title text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  sequence integer NOT NULL DEFAULT 1,
+  cancelled_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, uid)
+);
+
+ALTER TABLE calendar_cancellations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar cancellations"
+  ON calendar_cancellations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Assign the UID and pick up where a cancelled entry with the same UID left off
+CREATE OR REPLACE FUNCTION prepare_application_calendar()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cancelled_sequence integer;
+BEGIN
+  IF NEW.google_calendar_id IS NULL OR NEW.google_calendar_id = '' THEN
+    NEW.google_calendar_id := NEW.id || '@vybin.app';
+  END IF;
+
+  DELETE FROM calendar_cancellations
+  WHERE user_id = NEW.user_id AND uid = NEW.google_calendar_id
+  RETURNING sequence INTO cancelled_sequence;
+
+  IF cancelled_sequence IS NOT NULL THEN
+    NEW.calendar_sequence := greatest(NEW.calendar_sequence, cancelled_sequence + 1);
+  END IF;
+  NEW.calendar_updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS applications_prepare_calendar ON applications;
+
+CREATE TRIGGER applications_prepare_calendar
+  BEFORE INSERT ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_application_calendar();
+
+CREATE OR REPLACE FUNCTION cancel_application_calendar()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- When the event itself is being deleted, cancel_event_calendar already ran
+  INSERT INTO calendar_cancellations (user_id, uid, title, starts_at, sequence)
+  SELECT OLD.user_id, OLD.google_calendar_id, e.title, e.date, OLD.calendar_sequence + 1
+  FROM events e
+  WHERE e.id = OLD.event_id
+  ON CONFLICT (user_id, uid) DO NOTHING;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS applications_cancel_calendar ON applications;
+
+CREATE TRIGGER applications_cancel_calendar
+  AFTER DELETE ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION cancel_application_calendar();
+
+CREATE OR REPLACE FUNCTION cancel_event_calendar()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO calendar_cancellations (user_id, uid, title, starts_at, sequence)
+  SELECT a.user_id, a.google_calendar_id, OLD.title, OLD.date, a.calendar_sequence + 1
+  FROM applications a
+  WHERE a.event_id = OLD.id
+  ON CONFLICT (user_id, uid) DO NOTHING;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS events_cancel_calendar ON events;
+
+CREATE TRIGGER events_cancel_calendar
+  BEFORE DELETE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION cancel_event_calendar();
+
+CREATE OR REPLACE FUNCTION bump_event_calendar()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.location IS DISTINCT FROM OLD.location
+  THEN
+    UPDATE applications
+    SET calendar_sequence = calendar_sequence + 1,
+        calendar_updated_at = now()
+    WHERE event_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS events_bump_calendar ON events;
+
+CREATE TRIGGER events_bump_calendar
+  AFTER UPDATE OF title, date, location ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_event_calendar();
+
+CREATE OR REPLACE FUNCTION log_saved_event_interaction()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO event_interactions (user_id, event_id, kind) VALUES (NEW.user_id, NEW.event_id, 'save');
+    RETURN NEW;
+  END IF;
+  IF EXISTS (SELECT 1 FROM events WHERE id = OLD.event_id) THEN
+    INSERT INTO event_interactions (user_id, event_id, kind) VALUES (OLD.user_id, OLD.event_id, 'unsave');
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_application_interaction()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO event_interactions (user_id, event_id, kind) VALUES (NEW.user_id, NEW.event_id, 'apply');
+    RETURN NEW;
+  END IF;
+  IF EXISTS (SELECT 1 FROM events WHERE id = OLD.event_id) THEN
+    INSERT INTO event_interactions (user_id, event_id, kind) VALUES (OLD.user_id, OLD.event_id, 'withdraw');
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,274 @@
+/*
+  # Event end times, all-day events and time zones
+
+  ## Overview
+  Events only had a start `date`, so every consumer assumed a two-hour event and
+  formatted times in a hard-coded locale. Events now carry their own end, all-day
+  flag and IANA time zone; the client formats everything in the viewer's zone.
+
+  ## Changes to `events`
+  - `end_date` (timestamptz, nullable) - When the event ends; NULL means unknown
+    (the client and calendar exports fall back to two hours)
+  - `all_day` (boolean, default false) - Date-only events; `date`/`end_date` are
+    then midnight in the event's time zone and `end_date` is inclusive
+  - `timezone` (text, default 'America/Montreal') - IANA zone the organizer uses,
+    validated against `pg_timezone_names`
+  - `end_date` must not be before `date`
+
+  ## Changes
+  - `is_valid_time_zone(tz)` helper for the check constraint
+  - `feed_events` and `similar_events` also return `end_date`, `all_day` and `timezone`
+  - Calendar entries are re-sequenced when the end, all-day flag or time zone changes
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_time_zone(tz text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+$$;
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS end_date timestamptz;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS all_day boolean NOT NULL DEFAULT false;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'America/Montreal';
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_end_after_start;
+ALTER TABLE events ADD CONSTRAINT events_end_after_start
+  CHECK (end_date IS NULL OR end_date >= date);
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_timezone_valid;
+ALTER TABLE events ADD CONSTRAINT events_timezone_valid
+  CHECK (is_valid_time_zone(timezone));
+
+CREATE OR REPLACE FUNCTION bump_event_calendar()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.all_day IS DISTINCT FROM OLD.all_day
+    OR NEW.timezone IS DISTINCT FROM OLD.timezone
+    OR NEW.location IS DISTINCT FROM OLD.location
+  THEN
+    UPDATE applications
+    SET calendar_sequence = calendar_sequence + 1,
+        calendar_updated_at = now()
+    WHERE event_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS events_bump_calendar ON events;
+
+CREATE TRIGGER events_bump_calendar
+  AFTER UPDATE OF title, date, end_date, all_day, timezone, location ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_event_calendar();
+
+-- Return columns change, so the function has to be dropped rather than replaced
+DROP FUNCTION IF EXISTS feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer);
+
+CREATE OR REPLACE FUNCTION feed_events(
+  p_interests text[] DEFAULT '{}',
+  p_filters jsonb DEFAULT '{}',
+  p_query text DEFAULT NULL,
+  p_tz text DEFAULT 'UTC',
+  p_after_score double precision DEFAULT NULL,
+  p_after_date timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  event_type text,
+  organization text,
+  location text,
+  date timestamptz,
+  deadline timestamptz,
+  image_url text,
+  prize text,
+  tags text[],
+  link text,
+  end_date timestamptz,
+  all_day boolean,
+  timezone text,
+  score double precision,
+  personal_score double precision,
+  reason_kind text,
+  reason_title text,
+  title_highlight text,
+  description_highlight text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH page AS (
+    SELECT c.event, s.score, p.personal
+    FROM feed_candidates(p_interests, p_query) c
+    CROSS JOIN LATERAL (SELECT feed_personal_score((c.event).id, auth.uid()) AS personal) p
+    CROSS JOIN LATERAL (
+      SELECT (3 * c.interest_score + 10 * c.rank + p.personal)::double precision AS score
+    ) s
+    WHERE feed_event_matches(c.event, coalesce(p_filters, '{}'), p_tz)
+      AND (
+        p_after_id IS NULL
+        OR s.score < p_after_score
+        OR (s.score = p_after_score AND (c.event).date > p_after_date)
+        OR (s.score = p_after_score AND (c.event).date = p_after_date AND (c.event).id > p_after_id)
+      )
+    ORDER BY s.score DESC, (c.event).date ASC, (c.event).id ASC
+    LIMIT least(greatest(p_limit, 1), 50)
+  )
+  SELECT
+    (page.event).id,
+    (page.event).title,
+    (page.event).description,
+    (page.event).event_type,
+    (page.event).organization,
+    (page.event).location,
+    (page.event).date,
+    (page.event).deadline,
+    (page.event).image_url,
+    (page.event).prize,
+    (page.event).tags,
+    (page.event).link,
+    (page.event).end_date,
+    (page.event).all_day,
+    (page.event).timezone,
+    page.score,
+    page.personal,
+    reason.kind,
+    reason.title,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', (page.event).title, q.tsq, 'StartSel=⟦, StopSel=⟧, HighlightAll=true')
+    END,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', strip_html((page.event).description), q.tsq,
+        'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END
+  FROM page
+  CROSS JOIN (SELECT event_search_query(p_query) AS tsq) q
+  LEFT JOIN LATERAL (
+    SELECT src.kind, ev.title
+    FROM (
+      SELECT se.event_id, 'saved' AS kind, se.created_at
+      FROM saved_events se
+      WHERE se.user_id = auth.uid()
+      UNION ALL
+      SELECT ap.event_id, 'applied' AS kind, ap.created_at
+      FROM applications ap
+      WHERE ap.user_id = auth.uid()
+    ) src
+    JOIN events ev ON ev.id = src.event_id
+    CROSS JOIN LATERAL (
+      SELECT sum(a.weight) AS shared
+      FROM event_features(src.event_id) sf
+      JOIN event_features((page.event).id) pf USING (feature_type, feature_value)
+      JOIN user_affinities a
+        ON a.user_id = auth.uid()
+        AND a.feature_type = pf.feature_type
+        AND a.feature_value = pf.feature_value
+    ) overlap
+    WHERE src.event_id <> (page.event).id
+      AND overlap.shared > 0
+    ORDER BY overlap.shared DESC, src.created_at DESC
+    LIMIT 1
+  ) reason ON page.personal > 0
+  ORDER BY page.score DESC, (page.event).date ASC, (page.event).id ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer) TO authenticated;
+
+DROP FUNCTION IF EXISTS similar_events(uuid, integer);
+
+CREATE OR REPLACE FUNCTION similar_events(p_event_id uuid, p_limit integer DEFAULT 8)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  event_type text,
+  organization text,
+  location text,
+  date timestamptz,
+  deadline timestamptz,
+  image_url text,
+  prize text,
+  tags text[],
+  link text,
+  end_date timestamptz,
+  all_day boolean,
+  timezone text,
+  similarity double precision,
+  shared_tags text[]
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH src AS (
+    SELECT
+      e.*,
+      ARRAY(SELECT DISTINCT lower(t) FROM unnest(coalesce(e.tags, '{}')) t) AS tag_set,
+      coalesce(tsvector_to_array(e.search_vector), '{}') AS lexemes
+    FROM events e
+    WHERE e.id = p_event_id
+  ),
+  scored AS (
+    SELECT
+      e,
+      shared.tags AS shared_tags,
+      3 * cardinality(shared.tags)
+        + CASE WHEN lower(e.organization) = lower(src.organization) THEN 2 ELSE 0 END
+        + CASE WHEN lower(e.event_type) = lower(src.event_type) THEN 1.5 ELSE 0 END
+        + CASE
+            WHEN cardinality(src.lexemes) = 0 OR cardinality(lex.lexemes) = 0 THEN 0
+            ELSE 4 * words.common / sqrt(cardinality(src.lexemes)::double precision * cardinality(lex.lexemes))
+          END AS similarity
+    FROM src
+    JOIN events e ON e.id <> src.id AND e.date >= now()
+    CROSS JOIN LATERAL (
+      SELECT coalesce(tsvector_to_array(e.search_vector), '{}') AS lexemes
+    ) lex
+    CROSS JOIN LATERAL (
+      SELECT ARRAY(
+        SELECT DISTINCT t
+        FROM unnest(coalesce(e.tags, '{}')) raw(t)
+        WHERE lower(raw.t) = ANY (src.tag_set)
+      ) AS tags
+    ) shared
+    CROSS JOIN LATERAL (
+      SELECT count(*) AS common
+      FROM (SELECT unnest(src.lexemes) INTERSECT SELECT unnest(lex.lexemes)) i
+    ) words
+  )
+  SELECT
+    (s.e).id,
+    (s.e).title,
+    (s.e).description,
+    (s.e).event_type,
+    (s.e).organization,
+    (s.e).location,
+    (s.e).date,
+    (s.e).deadline,
+    (s.e).image_url,
+    (s.e).prize,
+    (s.e).tags,
+    (s.e).link,
+    (s.e).end_date,
+    (s.e).all_day,
+    (s.e).timezone,
+    s.similarity::double precision,
+    s.shared_tags
+  FROM scored s
+  WHERE s.similarity > 0
+  ORDER BY s.similarity DESC, (s.e).date ASC, (s.e).id ASC
+  LIMIT least(greatest(p_limit, 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION similar_events(uuid, integer) TO authenticated;
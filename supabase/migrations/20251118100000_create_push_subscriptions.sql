@@ -0,0 +1,91 @@
+/*
+  # Web Push subscriptions
+
+  ## Overview
+  Each browser/device a user enables notifications on registers a Web Push
+  subscription. The app stores it here after sign-in and removes it on sign-out;
+  the `send-push` edge function reads them to deliver VAPID-signed pushes.
+
+  ## New Tables
+
+  ### `push_subscriptions`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - References auth.users
+  - `endpoint` (text, unique) - Push service URL identifying the device subscription
+  - `p256dh` (text) - Subscription public key (base64url), used to encrypt payloads
+  - `auth` (text) - Subscription auth secret (base64url)
+  - `user_agent` (text) - Browser that subscribed, to tell devices apart
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz) - Last time the browser re-saved the subscription
+  - `last_sent_at` (timestamptz) - Last successful delivery
+
+  ## Functions
+  - `save_push_subscription(...)` - Upserts the caller's subscription by endpoint.
+    A device that signs into another account moves to that account, which plain
+    RLS upserts can't do. Passing `p_old_endpoint` replaces a rotated subscription
+
+  ## Security
+  - RLS enabled
+  - Users can view and delete their own subscriptions
+  - Writes go through `save_push_subscription`, which always uses auth.uid()
+  - The edge function reads and prunes subscriptions with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  endpoint text UNIQUE NOT NULL,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  last_sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_idx ON push_subscriptions (user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON push_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON push_subscriptions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION save_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_user_agent text DEFAULT NULL,
+  p_old_endpoint text DEFAULT NULL
+)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_old_endpoint IS NOT NULL AND p_old_endpoint <> p_endpoint THEN
+    DELETE FROM push_subscriptions WHERE endpoint = p_old_endpoint AND user_id = auth.uid();
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = coalesce(EXCLUDED.user_agent, push_subscriptions.user_agent),
+      updated_at = now();
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION save_push_subscription(text, text, text, text, text) TO authenticated;
@@ -0,0 +1,117 @@
+/*
+  # Notification preferences
+
+  ## Overview
+  Users choose per notification type which channels they want, and can set
+  quiet hours during which nothing is pushed to their devices.
+
+  Types: `new_match` (new events matching their interests), `deadline`
+  (application deadline reminders for saved events), `event_day` (reminders on
+  the day of an event they applied to), `status_change` (their application
+  status changed).
+  Channels: `push` (Web Push to subscribed devices), `in_app` (the in-app
+  notification list), `email` (periodic email digest).
+
+  ## New Tables
+
+  ### `notification_preferences`
+  - `user_id` (uuid, primary key) - References auth.users
+  - `channels` (jsonb) - `{ "<type>": { "push": bool, "in_app": bool, "email": bool } }`;
+    missing entries fall back to `default_notification_channels()`
+  - `quiet_hours_start` (time) - Start of quiet hours, NULL when disabled
+  - `quiet_hours_end` (time) - End of quiet hours; may be earlier than the start
+    for a range that spans midnight
+  - `timezone` (text) - IANA zone the quiet hours are in
+  - `updated_at` (timestamptz)
+
+  ## Functions
+  - `default_notification_channels()` - Defaults for users without a row
+  - `wants_notification(user, type, channel, at)` - Whether a notification may be
+    sent on a channel; push is also suppressed during quiet hours. Used by
+    senders so they all apply preferences the same way. Runs with the caller's
+    rights: the service role sees every row, users only their own
+
+  ## Security
+  - RLS enabled
+  - Users can only read and write their own row
+*/
+
+CREATE OR REPLACE FUNCTION default_notification_channels()
+RETURNS jsonb
+IMMUTABLE
+AS $$
+  SELECT '{
+    "new_match": {"push": false, "in_app": true, "email": true},
+    "deadline": {"push": true, "in_app": true, "email": false},
+    "event_day": {"push": true, "in_app": true, "email": false},
+    "status_change": {"push": false, "in_app": true, "email": false}
+  }'::jsonb;
+$$ LANGUAGE sql;
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  channels jsonb NOT NULL DEFAULT '{}'::jsonb,
+  quiet_hours_start time,
+  quiet_hours_end time,
+  timezone text NOT NULL DEFAULT 'America/Montreal',
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT notification_preferences_timezone_valid CHECK (is_valid_time_zone(timezone))
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION wants_notification(
+  p_user_id uuid,
+  p_kind text,
+  p_channel text,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS boolean
+STABLE
+AS $$
+DECLARE
+  prefs notification_preferences%ROWTYPE;
+  enabled boolean;
+  local_time time;
+BEGIN
+  SELECT * INTO prefs FROM notification_preferences WHERE user_id = p_user_id;
+
+  enabled := coalesce(
+    (prefs.channels -> p_kind ->> p_channel)::boolean,
+    (default_notification_channels() -> p_kind ->> p_channel)::boolean,
+    false
+  );
+  IF NOT enabled OR p_channel <> 'push' THEN
+    RETURN enabled;
+  END IF;
+
+  IF prefs.quiet_hours_start IS NULL OR prefs.quiet_hours_end IS NULL
+    OR prefs.quiet_hours_start = prefs.quiet_hours_end
+  THEN
+    RETURN true;
+  END IF;
+
+  local_time := (p_at AT TIME ZONE prefs.timezone)::time;
+  IF prefs.quiet_hours_start < prefs.quiet_hours_end THEN
+    RETURN NOT (local_time >= prefs.quiet_hours_start AND local_time < prefs.quiet_hours_end);
+  END IF;
+  -- Spans midnight, e.g. 22:00-07:00
+  RETURN NOT (local_time >= prefs.quiet_hours_start OR local_time < prefs.quiet_hours_end);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,93 @@
+/*
+  # In-app notifications
+
+  ## Overview
+  The notifications inbox on the profile screen. Rows are created server-side
+  (edge functions, cron jobs) through `create_notification`, which honours the
+  user's in-app preference, and reach open clients through Supabase Realtime.
+
+  ## New Tables
+
+  ### `notifications`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - References auth.users
+  - `kind` (text) - Notification type from `notification_preferences`, NULL for
+    announcements that aren't tied to a type
+  - `title` (text)
+  - `body` (text)
+  - `url` (text) - Link for notifications that aren't about an event
+  - `event_id` (uuid) - Event the notification is about; opened in the app when clicked
+  - `read` (boolean) - Whether the user has seen it
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `create_notification(...)` - Adds a notification unless the user turned the
+    in-app channel off for its type; returns the new id or NULL
+
+  ## Realtime
+  - Added to the `supabase_realtime` publication so clients receive inserts
+
+  ## Security
+  - RLS enabled
+  - Users can view, mark read and delete their own notifications
+  - No insert policy: only the service role creates notifications
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind text CHECK (kind IN ('new_match', 'deadline', 'event_day', 'status_change')),
+  title text NOT NULL,
+  body text,
+  url text,
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE,
+  read boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx
+  ON notifications (user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_kind text,
+  p_title text,
+  p_body text DEFAULT NULL,
+  p_url text DEFAULT NULL,
+  p_event_id uuid DEFAULT NULL
+)
+RETURNS uuid
+AS $$
+DECLARE
+  new_id uuid;
+BEGIN
+  IF p_kind IS NOT NULL AND NOT wants_notification(p_user_id, p_kind, 'in_app') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, kind, title, body, url, event_id)
+  VALUES (p_user_id, p_kind, p_title, p_body, p_url, p_event_id)
+  RETURNING id INTO new_id;
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
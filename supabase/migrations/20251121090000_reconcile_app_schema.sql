@@ -0,0 +1,99 @@
+/*
+  # Reconcile schema with what the app queries
+
+  ## Overview
+  A few tables and columns the app has always used were created outside the
+  migrations, so a database built from this folder alone was missing them.
+  Everything here is conditional and leaves an existing database untouched;
+  `src/lib/database.types.ts` describes the resulting schema.
+
+  ## Changes
+
+  ### `profiles`
+  - `display_name` (text) - Name shown on the profile; set by `handle_new_user`
+  - `banner_url` (text) - Profile banner image
+
+  ### `events`
+  - `link` (text) - Sign-up or details page. Dropped in an earlier migration
+    but still returned by the feed RPCs and shown in the event modal
+
+  ## New Tables
+
+  ### `user_preferences`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - References auth.users
+  - `interest_name` (text) - Interest picked during onboarding
+  - `created_at` (timestamptz)
+
+  ## Security
+  - RLS enabled on `user_preferences`
+  - Users can view, add and remove their own interests
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'display_name'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN display_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'banner_url'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN banner_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'link'
+  ) THEN
+    ALTER TABLE events ADD COLUMN link text;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  interest_name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS user_preferences_user_id_idx ON user_preferences (user_id);
+
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'user_preferences' AND policyname = 'Users can view own preferences'
+  ) THEN
+    CREATE POLICY "Users can view own preferences"
+      ON user_preferences FOR SELECT
+      TO authenticated
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'user_preferences' AND policyname = 'Users can insert own preferences'
+  ) THEN
+    CREATE POLICY "Users can insert own preferences"
+      ON user_preferences FOR INSERT
+      TO authenticated
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'user_preferences' AND policyname = 'Users can delete own preferences'
+  ) THEN
+    CREATE POLICY "Users can delete own preferences"
+      ON user_preferences FOR DELETE
+      TO authenticated
+      USING (auth.uid() = user_id);
+  END IF;
+END $$;
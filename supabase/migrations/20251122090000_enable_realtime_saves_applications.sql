@@ -0,0 +1,15 @@
+/*
+  # Realtime for saves and applications
+
+  ## Overview
+  The app keeps one copy of the user's saved and applied events and updates it
+  from Supabase Realtime, so a save or application made on another device (or
+  in a notification action) shows up without a reload.
+
+  ## Realtime
+  - `saved_events` and `applications` added to the `supabase_realtime` publication
+  - Deletes carry only the primary key: (`user_id`, `event_id`) for saves and
+    `id` for applications, which the client maps back to its event
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE saved_events, applications;
@@ -0,0 +1,86 @@
+/*
+  # Saved collections, notes and priorities
+
+  ## Overview
+  Saved events can be grouped into named collections (e.g. "Career fair prep")
+  and carry a private note and a personal priority. An event is in at most one
+  collection; events in none show up as unsorted.
+
+  ## New Tables
+
+  ### `collections`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - References auth.users
+  - `name` (text) - 1-60 characters, unique per user ignoring case
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  ### `saved_events`
+  - `collection_id` (uuid) - Collection the saved event is in, NULL when unsorted.
+    References the user's own collection; deleting it unsorts its events
+  - `note` (text) - Private note, up to 2000 characters
+  - `priority` (text) - high, medium or low; NULL when not set
+
+  ## Security
+  - RLS enabled on `collections`
+  - Users can view, create, rename and delete their own collections
+  - Users can update their own saved events (previously only insert and delete)
+*/
+
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  created_at timestamptz DEFAULT now(),
+  -- Target of the saved_events foreign key, which keeps collections per user
+  UNIQUE (id, user_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS collections_user_name_idx
+  ON collections (user_id, lower(btrim(name)));
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own collections"
+  ON collections FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own collections"
+  ON collections FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own collections"
+  ON collections FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own collections"
+  ON collections FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE saved_events ADD COLUMN IF NOT EXISTS collection_id uuid;
+ALTER TABLE saved_events ADD COLUMN IF NOT EXISTS note text
+  CHECK (char_length(note) <= 2000);
+ALTER TABLE saved_events ADD COLUMN IF NOT EXISTS priority text
+  CHECK (priority IN ('high', 'medium', 'low'));
+
+-- Including user_id means an event can only be filed in its owner's collection
+ALTER TABLE saved_events DROP CONSTRAINT IF EXISTS saved_events_collection_fkey;
+ALTER TABLE saved_events ADD CONSTRAINT saved_events_collection_fkey
+  FOREIGN KEY (collection_id, user_id) REFERENCES collections (id, user_id)
+  ON DELETE SET NULL (collection_id);
+
+CREATE INDEX IF NOT EXISTS saved_events_collection_idx
+  ON saved_events (collection_id)
+  WHERE collection_id IS NOT NULL;
+
+CREATE POLICY "Users can update own saved events"
+  ON saved_events FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,132 @@
+/*
+  # Class timetable and feed clash filter
+
+  ## Overview
+  Students can import their course schedule (.ics) or enter recurring class
+  blocks by hand. The feed can then hide events that overlap a class, and the
+  client warns before applying to something that clashes.
+
+  ## New Tables
+
+  ### `class_blocks`
+  One weekly recurring block; a class that meets Monday and Wednesday is two rows.
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - References auth.users
+  - `title` (text) - Course name, e.g. "COMP 250"
+  - `location` (text, nullable)
+  - `weekday` (smallint) - 0 = Sunday … 6 = Saturday, as `extract(dow ...)`
+  - `start_time`, `end_time` (time) - Wall-clock times in `timezone`
+  - `starts_on`, `ends_on` (date, nullable) - Term bounds; NULL means open-ended.
+    A one-off entry from an imported calendar has both set to its date
+  - `timezone` (text) - IANA zone the times are in
+  - `source` (text) - 'manual' or 'ics'; re-importing replaces only 'ics' rows
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - `event_clashes_with_classes(event, user)` - Whether a timed event overlaps
+    any of the user's class blocks. All-day events never clash
+  - `feed_event_matches` honours `hideClashes` in the filter jsonb, so the feed,
+    its pagination and the facet counts all leave clashing events out
+
+  ## Security
+  - RLS enabled on `class_blocks`
+  - Users can view, add, change and remove their own blocks
+*/
+
+CREATE TABLE IF NOT EXISTS class_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 200),
+  location text,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  starts_on date,
+  ends_on date,
+  timezone text NOT NULL DEFAULT 'America/Montreal' CHECK (is_valid_time_zone(timezone)),
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ics')),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT class_blocks_end_after_start CHECK (end_time > start_time),
+  CONSTRAINT class_blocks_term_order CHECK (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS class_blocks_user_id_idx ON class_blocks (user_id);
+
+ALTER TABLE class_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own class blocks"
+  ON class_blocks FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own class blocks"
+  ON class_blocks FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own class blocks"
+  ON class_blocks FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own class blocks"
+  ON class_blocks FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Walks the days the event touches in each block's zone and compares the block's
+-- instance on that day with the event. Events without an end last two hours,
+-- as everywhere else.
+CREATE OR REPLACE FUNCTION event_clashes_with_classes(e events, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT e.all_day AND EXISTS (
+    SELECT 1
+    FROM class_blocks b
+    CROSS JOIN LATERAL (SELECT coalesce(e.end_date, e.date + interval '2 hours') AS ends) ev
+    CROSS JOIN LATERAL generate_series(
+      (e.date AT TIME ZONE b.timezone)::date,
+      (ev.ends AT TIME ZONE b.timezone)::date,
+      interval '1 day'
+    ) d(day)
+    WHERE b.user_id = p_user_id
+      AND extract(dow FROM d.day) = b.weekday
+      AND (b.starts_on IS NULL OR d.day::date >= b.starts_on)
+      AND (b.ends_on IS NULL OR d.day::date <= b.ends_on)
+      AND ((d.day::date + b.start_time) AT TIME ZONE b.timezone) < ev.ends
+      AND ((d.day::date + b.end_time) AT TIME ZONE b.timezone) > e.date
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION feed_event_matches(e events, f jsonb, tz text, skip text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (coalesce(skip, '') = 'date' OR CASE
+      WHEN coalesce(f->>'dateFrom', '') <> '' OR coalesce(f->>'dateTo', '') <> '' THEN
+        (coalesce(f->>'dateFrom', '') = '' OR e.date >= ((f->>'dateFrom')::date::timestamp AT TIME ZONE tz))
+        AND (coalesce(f->>'dateTo', '') = '' OR e.date < (((f->>'dateTo')::date + 1)::timestamp AT TIME ZONE tz))
+      WHEN coalesce(f->>'datePreset', '') <> '' THEN feed_date_preset_matches(e.date, f->>'datePreset', tz)
+      ELSE true
+    END)
+    AND (coalesce(skip, '') = 'deadline' OR coalesce(f->>'deadline', '') = ''
+      OR feed_deadline_matches(e.deadline, f->>'deadline'))
+    AND (coalesce(skip, '') = 'eventTypes' OR jsonb_array_length(coalesce(f->'eventTypes', '[]')) = 0
+      OR btrim(coalesce(e.event_type, '')) IN (SELECT jsonb_array_elements_text(f->'eventTypes')))
+    AND (coalesce(skip, '') = 'organizations' OR jsonb_array_length(coalesce(f->'organizations', '[]')) = 0
+      OR btrim(coalesce(e.organization, '')) IN (SELECT jsonb_array_elements_text(f->'organizations')))
+    AND (coalesce(skip, '') = 'locations' OR jsonb_array_length(coalesce(f->'locations', '[]')) = 0
+      OR btrim(coalesce(e.location, '')) IN (SELECT jsonb_array_elements_text(f->'locations')))
+    AND (coalesce(skip, '') = 'tags' OR jsonb_array_length(coalesce(f->'tags', '[]')) = 0
+      OR EXISTS (
+        SELECT 1 FROM unnest(coalesce(e.tags, '{}')) t
+        WHERE btrim(t) IN (SELECT jsonb_array_elements_text(f->'tags'))
+      ))
+    AND (f->'hideClashes' IS DISTINCT FROM 'true'::jsonb
+      OR NOT event_clashes_with_classes(e, auth.uid()));
+$$;
@@ -0,0 +1,46 @@
+/*
+  # Restrict event categorization to triggers and the service role
+
+  ## Overview
+  `categorize_event` and `recategorize_events` are SECURITY DEFINER functions in
+  the exposed `public` schema, and EXECUTE was never revoked. Any client could
+  call `rpc('recategorize_events')` and rewrite the whole `event_interests`
+  table on demand.
+
+  ## Changes
+  - The trigger functions that call them become SECURITY DEFINER, so events and
+    keywords written by any role are still categorized
+  - EXECUTE on both functions is revoked from PUBLIC, `anon` and `authenticated`;
+    `service_role` keeps it for manual backfills
+
+  ## Security
+  - `event_interests` can no longer be rewritten through the API
+*/
+
+CREATE OR REPLACE FUNCTION handle_event_categorize()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM categorize_event(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION handle_interest_keywords_change()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM recategorize_events();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION categorize_event(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION recategorize_events() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION categorize_event(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION recategorize_events() TO service_role;
@@ -0,0 +1,148 @@
+/*
+  # Page the feed against a snapshot of the user's affinities
+
+  ## Overview
+  Saving or applying while scrolling changes `user_affinities`, and with it the
+  personal score of rows that are still to come. Keyset pages scored against
+  the live weights could then skip or repeat events.
+
+  ## New Functions
+  - `feed_snapshot_score(event_id, affinities)` - The same score as
+    `feed_personal_score`, over a snapshot of the weights as
+    `{"<feature_type>:<feature_value>": weight}`
+
+  ## Changes
+  - `feed_events` takes `p_affinities`, the snapshot the client read when it
+    requested the first page. Without it the live weights are used as before
+*/
+
+CREATE OR REPLACE FUNCTION feed_snapshot_score(p_event_id uuid, p_affinities jsonb)
+RETURNS double precision
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT greatest(-5, least(10, coalesce(sum((p_affinities->>(f.feature_type || ':' || f.feature_value))::double precision), 0)))
+  FROM event_features(p_event_id) f;
+$$;
+
+-- A new parameter changes the signature, so the old function has to be dropped
+DROP FUNCTION IF EXISTS feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer);
+
+CREATE OR REPLACE FUNCTION feed_events(
+  p_interests text[] DEFAULT '{}',
+  p_filters jsonb DEFAULT '{}',
+  p_query text DEFAULT NULL,
+  p_tz text DEFAULT 'UTC',
+  p_after_score double precision DEFAULT NULL,
+  p_after_date timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 10,
+  p_affinities jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  event_type text,
+  organization text,
+  location text,
+  date timestamptz,
+  deadline timestamptz,
+  image_url text,
+  prize text,
+  tags text[],
+  link text,
+  end_date timestamptz,
+  all_day boolean,
+  timezone text,
+  score double precision,
+  personal_score double precision,
+  reason_kind text,
+  reason_title text,
+  title_highlight text,
+  description_highlight text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH page AS (
+    SELECT c.event, s.score, p.personal
+    FROM feed_candidates(p_interests, p_query) c
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN p_affinities IS NULL THEN feed_personal_score((c.event).id, auth.uid())
+        ELSE feed_snapshot_score((c.event).id, p_affinities)
+      END AS personal
+    ) p
+    CROSS JOIN LATERAL (
+      SELECT (3 * c.interest_score + 10 * c.rank + p.personal)::double precision AS score
+    ) s
+    WHERE feed_event_matches(c.event, coalesce(p_filters, '{}'), p_tz)
+      AND (
+        p_after_id IS NULL
+        OR s.score < p_after_score
+        OR (s.score = p_after_score AND (c.event).date > p_after_date)
+        OR (s.score = p_after_score AND (c.event).date = p_after_date AND (c.event).id > p_after_id)
+      )
+    ORDER BY s.score DESC, (c.event).date ASC, (c.event).id ASC
+    LIMIT least(greatest(p_limit, 1), 50)
+  )
+  SELECT
+    (page.event).id,
+    (page.event).title,
+    (page.event).description,
+    (page.event).event_type,
+    (page.event).organization,
+    (page.event).location,
+    (page.event).date,
+    (page.event).deadline,
+    (page.event).image_url,
+    (page.event).prize,
+    (page.event).tags,
+    (page.event).link,
+    (page.event).end_date,
+    (page.event).all_day,
+    (page.event).timezone,
+    page.score,
+    page.personal,
+    reason.kind,
+    reason.title,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', (page.event).title, q.tsq, 'StartSel=⟦, StopSel=⟧, HighlightAll=true')
+    END,
+    CASE WHEN q.tsq IS NULL THEN NULL ELSE
+      ts_headline('english', strip_html((page.event).description), q.tsq,
+        'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END
+  FROM page
+  CROSS JOIN (SELECT event_search_query(p_query) AS tsq) q
+  LEFT JOIN LATERAL (
+    SELECT src.kind, ev.title
+    FROM (
+      SELECT se.event_id, 'saved' AS kind, se.created_at
+      FROM saved_events se
+      WHERE se.user_id = auth.uid()
+      UNION ALL
+      SELECT ap.event_id, 'applied' AS kind, ap.created_at
+      FROM applications ap
+      WHERE ap.user_id = auth.uid()
+    ) src
+    JOIN events ev ON ev.id = src.event_id
+    CROSS JOIN LATERAL (
+      SELECT sum(a.weight) AS shared
+      FROM event_features(src.event_id) sf
+      JOIN event_features((page.event).id) pf USING (feature_type, feature_value)
+      JOIN user_affinities a
+        ON a.user_id = auth.uid()
+        AND a.feature_type = pf.feature_type
+        AND a.feature_value = pf.feature_value
+    ) overlap
+    WHERE src.event_id <> (page.event).id
+      AND overlap.shared > 0
+    ORDER BY overlap.shared DESC, src.created_at DESC
+    LIMIT 1
+  ) reason ON page.personal > 0
+  ORDER BY page.score DESC, (page.event).date ASC, (page.event).id ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION feed_events(text[], jsonb, text, text, double precision, timestamptz, uuid, integer, jsonb) TO authenticated;
@@ -0,0 +1,73 @@
+/*
+  # Restrict what users can change on their applications
+
+  ## Overview
+  The applications UPDATE policy only checked ownership, so a user could jump
+  to any status and write bookkeeping columns such as `calendar_sequence`,
+  `calendar_updated_at` or `event_id` (moving an application onto an event
+  whose deadline has passed).
+
+  ## Changes
+  - `application_status_transition_allowed(from, to)` - The lifecycle moves a
+    user can make: one step forward, or back to the previous step to correct a
+    mistake
+      interested -> applied
+      applied    -> interested, waitlisted, accepted, rejected
+      waitlisted -> applied, accepted, rejected
+      accepted   -> applied, waitlisted, attended
+      rejected   -> applied, waitlisted
+      attended   -> accepted
+  - A BEFORE UPDATE OF status trigger rejects any other change with a
+    check_violation
+
+  ## Security
+  - UPDATE on `applications` is revoked from `anon` and `authenticated` and
+    granted back on `status` only. Calendar bookkeeping is written by the
+    SECURITY DEFINER triggers, which are not affected
+*/
+
+CREATE OR REPLACE FUNCTION application_status_transition_allowed(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_from = p_to OR (p_from, p_to) IN (
+    VALUES
+      ('interested', 'applied'),
+      ('applied', 'interested'),
+      ('applied', 'waitlisted'),
+      ('applied', 'accepted'),
+      ('applied', 'rejected'),
+      ('waitlisted', 'applied'),
+      ('waitlisted', 'accepted'),
+      ('waitlisted', 'rejected'),
+      ('accepted', 'applied'),
+      ('accepted', 'waitlisted'),
+      ('accepted', 'attended'),
+      ('rejected', 'applied'),
+      ('rejected', 'waitlisted'),
+      ('attended', 'accepted')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION check_application_status_transition()
+RETURNS TRIGGER
+AS $$
+BEGIN
+  IF NOT application_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'An application can''t move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS applications_status_transition_check ON applications;
+
+CREATE TRIGGER applications_status_transition_check
+  BEFORE UPDATE OF status ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION check_application_status_transition();
+
+REVOKE UPDATE ON applications FROM anon, authenticated;
+GRANT UPDATE (status) ON applications TO authenticated;
@@ -0,0 +1,108 @@
+/*
+  # Let only an undone withdrawal past the application deadline
+
+  ## Overview
+  Undoing a withdrawal re-inserts the deleted application, which the deadline
+  check rejected once applications had closed. Only that exact application may
+  come back; a new application within the same window is still checked.
+
+  ## New Tables
+
+  ### `withdrawn_applications`
+  Applications deleted in the last hour, kept so undo can be recognised
+  - `id` (uuid, primary key) - The deleted application's id
+  - `user_id` (uuid) - References auth.users
+  - `event_id` (uuid) - References events
+  - `status` (text) - Status at the time of the withdrawal
+  - `withdrawn_at` (timestamptz)
+
+  ## Triggers
+  - Deleting an application records it and prunes the user's older records
+  - Inserting an application removes its record
+  - `check_application_deadline` lets an insert through when it re-creates a
+    record from the last hour with the same id, user, event and status
+
+  ## Security
+  - RLS enabled on `withdrawn_applications` with no policies; only the
+    SECURITY DEFINER triggers read and write it
+*/
+
+CREATE TABLE IF NOT EXISTS withdrawn_applications (
+  id uuid PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL,
+  withdrawn_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS withdrawn_applications_user_id_idx ON withdrawn_applications (user_id);
+
+ALTER TABLE withdrawn_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION record_withdrawn_application()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM withdrawn_applications
+  WHERE user_id = OLD.user_id AND withdrawn_at < now() - interval '1 hour';
+
+  -- Nothing to undo when the event itself is being deleted
+  IF EXISTS (SELECT 1 FROM events WHERE id = OLD.event_id) THEN
+    INSERT INTO withdrawn_applications (id, user_id, event_id, status)
+    VALUES (OLD.id, OLD.user_id, OLD.event_id, OLD.status)
+    ON CONFLICT (id) DO UPDATE SET status = EXCLUDED.status, withdrawn_at = now();
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS applications_record_withdrawal ON applications;
+
+CREATE TRIGGER applications_record_withdrawal
+  AFTER DELETE ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION record_withdrawn_application();
+
+CREATE OR REPLACE FUNCTION clear_withdrawn_application()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM withdrawn_applications WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS applications_clear_withdrawal ON applications;
+
+CREATE TRIGGER applications_clear_withdrawal
+  AFTER INSERT ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_withdrawn_application();
+
+CREATE OR REPLACE FUNCTION check_application_deadline()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  closes_at timestamptz;
+BEGIN
+  SELECT deadline INTO closes_at FROM events WHERE id = NEW.event_id;
+  IF closes_at IS NOT NULL AND closes_at < now() AND NOT EXISTS (
+    SELECT 1 FROM withdrawn_applications w
+    WHERE w.id = NEW.id
+      AND w.user_id = NEW.user_id
+      AND w.event_id = NEW.event_id
+      AND w.status = NEW.status
+      AND w.withdrawn_at > now() - interval '1 hour'
+  ) THEN
+    RAISE EXCEPTION 'Applications for this event closed at %', closes_at
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,102 @@
+/*
+  # Server-side deadline reminders
+
+  ## Overview
+  Deadline reminders were shown by the open tab on an hourly check, so none
+  fired while the app was closed. The `deadline-reminders` edge function now
+  runs on a schedule, claims the reminders that are due through
+  `claim_deadline_reminders` and delivers them through Web Push.
+
+  ## New Tables
+
+  ### `deadline_reminders`
+  One row per saved event a user was reminded about
+  - `user_id` (uuid) - References auth.users
+  - `event_id` (uuid) - References events
+  - `deadline` (timestamptz) - The deadline announced; a moved deadline is announced again
+  - `sent_at` (timestamptz)
+  - Primary key is (user_id, event_id)
+
+  ## New Functions
+  - `claim_deadline_reminders(days)` - Saved events whose deadline falls within
+    `days` and hasn't been announced. Each is recorded, added to the in-app
+    inbox and returned with its title and body for the push. Reminders held
+    back by quiet hours stay unclaimed and go out on the first run after them
+
+  ## Security
+  - RLS enabled on `deadline_reminders` with no policies
+  - `claim_deadline_reminders` can only be run by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS deadline_reminders (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  deadline timestamptz NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, event_id)
+);
+
+ALTER TABLE deadline_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION claim_deadline_reminders(p_days integer DEFAULT 2)
+RETURNS TABLE (
+  user_id uuid,
+  event_id uuid,
+  title text,
+  body text,
+  push boolean
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due record;
+BEGIN
+  -- Past deadlines can't come round again
+  DELETE FROM deadline_reminders r WHERE r.deadline < now();
+
+  FOR due IN
+    SELECT
+      s.user_id,
+      e.id AS event_id,
+      e.title,
+      e.deadline,
+      coalesce(np.timezone, 'America/Montreal') AS timezone,
+      coalesce(
+        (np.channels -> 'deadline' ->> 'push')::boolean,
+        (default_notification_channels() -> 'deadline' ->> 'push')::boolean,
+        false
+      ) AS push_on,
+      wants_notification(s.user_id, 'deadline', 'push') AS push_now
+    FROM saved_events s
+    JOIN events e ON e.id = s.event_id
+    LEFT JOIN notification_preferences np ON np.user_id = s.user_id
+    LEFT JOIN deadline_reminders r ON r.user_id = s.user_id AND r.event_id = e.id
+    WHERE e.deadline > now()
+      AND e.deadline <= now() + make_interval(days => p_days)
+      AND r.deadline IS DISTINCT FROM e.deadline
+  LOOP
+    CONTINUE WHEN due.push_on AND NOT due.push_now;
+
+    -- A concurrent run that claimed the same reminder wins
+    INSERT INTO deadline_reminders AS r (user_id, event_id, deadline)
+    VALUES (due.user_id, due.event_id, due.deadline)
+    ON CONFLICT ON CONSTRAINT deadline_reminders_pkey DO UPDATE
+    SET deadline = EXCLUDED.deadline, sent_at = now()
+    WHERE r.deadline IS DISTINCT FROM EXCLUDED.deadline;
+    CONTINUE WHEN NOT FOUND;
+
+    user_id := due.user_id;
+    event_id := due.event_id;
+    title := due.title || ' closes soon';
+    body := 'Applications close '
+      || to_char(due.deadline AT TIME ZONE due.timezone, 'Dy, Mon FMDD "at" FMHH12:MI AM');
+    push := due.push_on;
+    PERFORM create_notification(user_id, 'deadline', title, body, NULL, event_id);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_deadline_reminders(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_deadline_reminders(integer) TO service_role;
@@ -0,0 +1,55 @@
+/*
+  # Keep push subscriptions with the account that saved them
+
+  ## Overview
+  `save_push_subscription` upserted by endpoint and moved an existing row to
+  the caller. Anyone who learned another user's endpoint could take it over,
+  along with the pushes sent to it, and replace its keys.
+
+  ## Changes
+  - `save_push_subscription(...)` only updates a row the caller already owns.
+    An endpoint saved by another account is rejected with a unique_violation;
+    the app then drops that subscription and subscribes the device afresh
+    (see syncPushSubscription in src/lib/push.ts). The other account's row
+    stays until the push service reports the old endpoint gone
+
+  ## Security
+  - Users can no longer take over, or change the keys of, another user's
+    subscription
+*/
+
+CREATE OR REPLACE FUNCTION save_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_user_agent text DEFAULT NULL,
+  p_old_endpoint text DEFAULT NULL
+)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_old_endpoint IS NOT NULL AND p_old_endpoint <> p_endpoint THEN
+    DELETE FROM push_subscriptions WHERE endpoint = p_old_endpoint AND user_id = auth.uid();
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = coalesce(EXCLUDED.user_agent, push_subscriptions.user_agent),
+      updated_at = now()
+  WHERE push_subscriptions.user_id = EXCLUDED.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This push subscription belongs to another account'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,62 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+// Every file under dir, as paths relative to root. Walks one directory at a
+// time, since Dirent.parentPath (needed with { recursive: true }) is Node 20.12+
+function listFiles(dir: string, root = dir): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return listFiles(path, root);
+    return entry.isFile() ? [relative(root, path).split('\\').join('/')] : [];
+  });
+}
+
+/**
+ * Emits the service worker into the build with the list of files to precache
+ * and a version hash of their contents. The cache name changes with every
+ * build that changes any file, which is what lets clients detect an update.
+ */
+export function serviceWorker(source = 'service-worker.js'): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'vybin-service-worker',
+    apply: 'build',
+    // After vite:build-html, so index.html is in the bundle
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const precache = new Set([config.base]);
+
+      const files = Object.values(bundle)
+        .filter((file) => !file.fileName.endsWith('.map'))
+        .sort((a, b) => a.fileName.localeCompare(b.fileName));
+      for (const file of files) {
+        precache.add(config.base + file.fileName);
+        hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source);
+      }
+
+      const publicDir = config.publicDir;
+      for (const name of listFiles(publicDir).sort()) {
+        precache.add(config.base + name);
+        hash.update(name).update(readFileSync(join(publicDir, name)));
+      }
+
+      const worker = readFileSync(resolve(config.root, source), 'utf8');
+      hash.update(worker);
+
+      const build = { version: hash.digest('hex').slice(0, 12), precache: [...precache] };
+      this.emitFile({
+        type: 'asset',
+        fileName: source,
+        source: `self.__VYBIN_BUILD__ = ${JSON.stringify(build)};\n${worker}`,
+      });
+    },
+  };
+}